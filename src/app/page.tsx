@@ -1,4 +1,5 @@
-import { SimulationGrid } from '../visualization/SimulationGrid'
+import { SimulationGridContainer } from '../visualization/simulation-grid-container'
+import { SimulationStoreProvider } from '../store/simulation-store-provider'
 import { WORLD_CONFIG } from '../simulation/config/WorldConfig'
 
 export default function Home() {
@@ -19,9 +20,11 @@ export default function Home() {
       </header>
       
       <main className="flex-1 px-4 pb-4 min-h-0 overflow-hidden">
-        <SimulationGrid 
-          cellSize={cellSize}
-        />
+        <SimulationStoreProvider>
+          <SimulationGridContainer 
+            cellSize={cellSize}
+          />
+        </SimulationStoreProvider>
       </main>
       
       <footer className="flex-shrink-0 text-center py-1 px-4 text-xs text-gray-500 pointer-events-none">
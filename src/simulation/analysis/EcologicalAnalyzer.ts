@@ -12,26 +12,28 @@ import {
   ExtinctionAnalysis,
   SimulationStatistics,
   OscillationCycle,
-  OscillationAnalysis
+  OscillationAnalysis,
+  AnalyzerSnapshot,
+  SpeciesTrendState,
+  PopulationBucket,
+  PopulationHistoryQuery
 } from '../types/SimulationTypes'
 import { WorldConfig } from '../config/WorldConfig'
+import { Logger } from '../utils/Logger'
+import { PopulationTimeSeries } from './PopulationTimeSeries'
 
 export class EcologicalAnalyzer {
-  private populationHistory: Array<{ step: number; grass: number; sheep: number; wolves: number }> = []
+  private populationSeries = new PopulationTimeSeries()
   private alerts: EcosystemAlert[] = []
   private extinctionAnalyses: ExtinctionAnalysis[] = []
   private config: WorldConfig
   private oscillationCycles: OscillationCycle[] = []
-  private speciesStates: Record<string, { 
-    trend: 'increasing' | 'decreasing' | 'stable';
-    trendStartStep: number;
-    trendStartPopulation: number;
-    peakInTrend?: number;
-    minInTrend?: number;
-  }> = {}
-
-  constructor(config: WorldConfig) {
+  private speciesStates: Record<string, SpeciesTrendState> = {}
+  private logger: Logger
+
+  constructor(config: WorldConfig, logger: Logger = Logger.fromConfig(config.debug)) {
     this.config = config
+    this.logger = logger
     // Initialize species states
     this.speciesStates = {
       grass: { trend: 'stable', trendStartStep: 0, trendStartPopulation: 0 },
@@ -40,22 +42,24 @@ export class EcologicalAnalyzer {
     }
   }
 
+  /**
+   * Use an updated config for subsequent analysis; recorded history is kept
+   */
+  setConfig(config: WorldConfig): void {
+    this.config = config
+  }
+
   /**
    * Record population data for trend analysis
    */
   recordPopulation(step: number, stats: SimulationStatistics): void {
-    this.populationHistory.push({
+    this.populationSeries.record({
       step,
       grass: stats.grassCount,
       sheep: stats.sheepCount,
       wolves: stats.wolfCount
     })
 
-    // Keep only last 100 steps for analysis
-    if (this.populationHistory.length > 100) {
-      this.populationHistory.shift()
-    }
-
     // Detect oscillation cycles for each species
     this.detectOscillations(step, stats)
 
@@ -63,12 +67,46 @@ export class EcologicalAnalyzer {
     this.checkForAlerts(step, stats)
   }
 
+  /**
+   * Population history for a step range, downsampled for older steps
+   */
+  queryPopulationHistory(query: PopulationHistoryQuery = {}): PopulationBucket[] {
+    return this.populationSeries.query(query)
+  }
+
+  /**
+   * Export history, alerts and cycles for snapshots
+   */
+  exportSnapshot(): AnalyzerSnapshot {
+    const series = this.populationSeries.exportSnapshot()
+    return JSON.parse(JSON.stringify({
+      populationHistory: series.points,
+      populationBuckets: series.buckets,
+      alerts: this.alerts,
+      extinctionAnalyses: this.extinctionAnalyses,
+      oscillationCycles: this.oscillationCycles,
+      speciesStates: this.speciesStates
+    }))
+  }
+
+  /**
+   * Restore history, alerts and cycles from a snapshot
+   */
+  restoreSnapshot(snapshot: AnalyzerSnapshot): void {
+    const copy: AnalyzerSnapshot = JSON.parse(JSON.stringify(snapshot))
+    this.populationSeries.restoreSnapshot(copy.populationHistory, copy.populationBuckets)
+    this.alerts = copy.alerts
+    this.extinctionAnalyses = copy.extinctionAnalyses
+    this.oscillationCycles = copy.oscillationCycles
+    this.speciesStates = copy.speciesStates
+  }
+
   /**
    * Analyze wolf extinction and provide detailed insights
    */
   analyzeWolfExtinction(step: number, deathStats: DeathStatistics): ExtinctionAnalysis {
     const recentWolfDeaths = deathStats.recentDeaths.filter(d => d.organismType === 'wolf')
-    const lastPopulationData = this.populationHistory.slice(-20) // Last 20 steps
+    const lastPopulationData = this.populationSeries.getRecent(20) // Last 20 steps
     
     // Analyze primary causes
     const wolfDeathCauses = recentWolfDeaths.reduce((acc, death) => {
@@ -112,12 +150,12 @@ export class EcologicalAnalyzer {
    * Get population health assessment for all species
    */
   getPopulationHealth(): PopulationHealth[] {
-    if (this.populationHistory.length < 5) {
+    const recent = this.populationSeries.getRecent(10) // Last 10 steps
+    if (recent.length < 5) {
       return [] // Need at least 5 data points for trend analysis
     }
 
-    const latest = this.populationHistory[this.populationHistory.length - 1]
-    const recent = this.populationHistory.slice(-10) // Last 10 steps
+    const latest = recent[recent.length - 1]
 
     return [
       this.analyzeSpeciesHealth('grass', latest.grass, recent.map(p => p.grass)),
@@ -131,7 +169,7 @@ export class EcologicalAnalyzer {
    */
   getActiveAlerts(): EcosystemAlert[] {
     // Return alerts from last 20 steps
-    const recentStep = this.populationHistory[this.populationHistory.length - 1]?.step || 0
+    const recentStep = this.populationSeries.getLatest()?.step || 0
     return this.alerts.filter(alert => recentStep - alert.step <= 20)
   }
 
@@ -364,8 +402,8 @@ export class EcologicalAnalyzer {
 
   private checkForAlerts(step: number, stats: SimulationStatistics): void {
     // Check for population decline alerts
-    if (this.populationHistory.length >= 5) {
-      const recent = this.populationHistory.slice(-5)
+    const recent = this.populationSeries.getRecent(5)
+    if (recent.length >= 5) {
       
       // Wolf extinction risk
       if (stats.wolfCount <= 5 && stats.wolfCount > 0) {
@@ -474,13 +512,13 @@ export class EcologicalAnalyzer {
     if (!state) return
 
     // Need at least 5 steps of history to detect trends
-    if (this.populationHistory.length < 5) {
+    if (this.populationSeries.getRecent(5).length < 5) {
       state.trendStartStep = step
       state.trendStartPopulation = currentPop
       return
     }
 
-    const recent = this.populationHistory.slice(-5).map(h => h[species])
+    const recent = this.populationSeries.getRecent(5).map(h => h[species])
     const newTrend = this.detectTrend(recent)
     
     // Update peak/min tracking
@@ -567,7 +605,7 @@ export class EcologicalAnalyzer {
         this.oscillationCycles.shift()
       }
 
-      console.log(`🌊 OSCILLATION DETECTED: ${species} ${cycleType} (${duration} steps, amplitude: ${amplitude})${triggerFactor ? ` - ${triggerFactor}` : ''}`)
+      this.logger.info('analysis', `🌊 OSCILLATION DETECTED: ${species} ${cycleType} (${duration} steps, amplitude: ${amplitude})${triggerFactor ? ` - ${triggerFactor}` : ''}`)
     }
   }
 
@@ -591,12 +629,12 @@ export class EcologicalAnalyzer {
    * Helper methods to get recent population data
    */
   private getRecentWolfPopulation(): number {
-    const recent = this.populationHistory.slice(-3)
+    const recent = this.populationSeries.getRecent(3)
     return recent.length > 0 ? recent.reduce((sum, h) => sum + h.wolves, 0) / recent.length : 0
   }
 
   private getRecentSheepPopulation(): number {
-    const recent = this.populationHistory.slice(-3)
+    const recent = this.populationSeries.getRecent(3)
     return recent.length > 0 ? recent.reduce((sum, h) => sum + h.sheep, 0) / recent.length : 0
   }
 
@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest'
+import { PopulationTimeSeries, bucketsToPoints, mergeBuckets, pointToBucket } from './PopulationTimeSeries'
+
+const point = (step: number) => ({ step, grass: step % 50, sheep: 100 - (step % 20), wolves: step % 7 })
+
+const recordSteps = (series: PopulationTimeSeries, count: number) => {
+  for (let step = 1; step <= count; step++) {
+    series.record(point(step))
+  }
+}
+
+describe('PopulationTimeSeries', () => {
+  it('given fewer steps than the recent capacity, should return every step at full resolution', () => {
+    const series = new PopulationTimeSeries({ recentCapacity: 10 })
+    recordSteps(series, 5)
+
+    const buckets = series.query()
+
+    expect(buckets.map(b => b.startStep)).toEqual([1, 2, 3, 4, 5])
+    expect(buckets[2].sheep).toEqual({ min: 97, max: 97, mean: 97 })
+    expect(series.getLatest()).toEqual(point(5))
+    expect(series.getRecent(2)).toEqual([point(4), point(5)])
+  })
+
+  it('given a long run, should keep every step covered in bounded memory', () => {
+    const series = new PopulationTimeSeries({ recentCapacity: 20, levelCapacity: 10, mergeFactor: 4 })
+    recordSteps(series, 100000)
+
+    const buckets = series.query()
+    const stored = series.exportSnapshot()
+
+    expect(series.getStepCount()).toBe(100000)
+    expect(buckets[0].startStep).toBe(1)
+    expect(buckets[buckets.length - 1].endStep).toBe(100000)
+    // Buckets tile the run without gaps or overlaps
+    buckets.slice(1).forEach((bucket, i) => expect(bucket.startStep).toBe(buckets[i].endStep + 1))
+    expect(stored.points).toHaveLength(20)
+    expect(stored.buckets.every(level => level.length <= 10)).toBe(true)
+    expect(stored.buckets.length).toBeLessThan(10)
+  })
+
+  it('given merged steps, should keep their min, max and sample-weighted mean', () => {
+    const a = mergeBuckets([pointToBucket(point(1)), pointToBucket(point(2))])
+    const merged = mergeBuckets([a, pointToBucket(point(3))])
+
+    expect(merged).toMatchObject({ startStep: 1, endStep: 3, samples: 3 })
+    expect(merged.grass).toEqual({ min: 1, max: 3, mean: 2 })
+    expect(merged.wolves.mean).toBe(2)
+  })
+
+  it('given a step range and resolution, should return aligned buckets inside the range', () => {
+    const series = new PopulationTimeSeries()
+    recordSteps(series, 100)
+
+    const buckets = series.query({ fromStep: 20, toStep: 39, resolution: 10 })
+
+    expect(buckets.map(b => [b.startStep, b.endStep])).toEqual([[20, 29], [30, 39]])
+    expect(buckets[0].samples).toBe(10)
+    expect(buckets[0].grass.mean).toBe(24.5)
+  })
+
+  it('given maxPoints, should coarsen the history to fit', () => {
+    const series = new PopulationTimeSeries({ recentCapacity: 50, levelCapacity: 20 })
+    recordSteps(series, 5000)
+
+    const buckets = series.query({ maxPoints: 100 })
+
+    expect(buckets.length).toBeLessThanOrEqual(100)
+    expect(buckets.reduce((sum, b) => sum + b.samples, 0)).toBe(5000)
+    expect(bucketsToPoints(buckets)[buckets.length - 1].step).toBe(5000)
+  })
+
+  it('given a snapshot, should restore the same history', () => {
+    const series = new PopulationTimeSeries({ recentCapacity: 20, levelCapacity: 10 })
+    recordSteps(series, 1000)
+    const { points, buckets } = series.exportSnapshot()
+
+    const restored = new PopulationTimeSeries({ recentCapacity: 20, levelCapacity: 10 })
+    restored.restoreSnapshot(points, buckets)
+
+    expect(restored.query()).toEqual(series.query())
+    restored.record(point(1001))
+    expect(restored.getStepCount()).toBe(1001)
+  })
+})
@@ -0,0 +1,179 @@
+/**
+ * PopulationTimeSeries keeps a run's population counts in bounded memory: the most recent
+ * steps at full resolution, older steps merged into progressively coarser min/max/mean
+ * buckets. Each downsampled level holds buckets mergeFactor times wider than the level
+ * below it, so memory grows only with the logarithm of the run length.
+ */
+
+import {
+  PopulationBucket,
+  PopulationHistoryQuery,
+  PopulationPoint,
+  PopulationRange,
+  PopulationSpecies
+} from '../types/SimulationTypes'
+
+export interface PopulationTimeSeriesOptions {
+  /** Full-resolution steps kept (default 1000) */
+  recentCapacity?: number
+  /** Buckets kept on each downsampled level before the oldest merge into the next (default 500) */
+  levelCapacity?: number
+  /** Buckets (or steps) merged into one when moving up a level (default 4) */
+  mergeFactor?: number
+}
+
+const pointRange = (value: number): PopulationRange => ({ min: value, max: value, mean: value })
+
+export const pointToBucket = (point: PopulationPoint): PopulationBucket => ({
+  startStep: point.step,
+  endStep: point.step,
+  samples: 1,
+  grass: pointRange(point.grass),
+  sheep: pointRange(point.sheep),
+  wolves: pointRange(point.wolves)
+})
+
+/**
+ * Merge consecutive buckets into one, weighting means by the steps each covers
+ */
+export const mergeBuckets = (buckets: PopulationBucket[]): PopulationBucket => {
+  const samples = buckets.reduce((sum, b) => sum + b.samples, 0)
+  const mergeRange = (species: PopulationSpecies): PopulationRange => ({
+    min: Math.min(...buckets.map(b => b[species].min)),
+    max: Math.max(...buckets.map(b => b[species].max)),
+    mean: buckets.reduce((sum, b) => sum + b[species].mean * b.samples, 0) / samples
+  })
+
+  return {
+    startStep: buckets[0].startStep,
+    endStep: buckets[buckets.length - 1].endStep,
+    samples,
+    grass: mergeRange('grass'),
+    sheep: mergeRange('sheep'),
+    wolves: mergeRange('wolves')
+  }
+}
+
+/**
+ * Chart-friendly points: one per bucket, at the bucket's last step, with mean counts rounded to whole organisms
+ */
+export const bucketsToPoints = (buckets: PopulationBucket[]): PopulationPoint[] =>
+  buckets.map(b => ({
+    step: b.endStep,
+    grass: Math.round(b.grass.mean),
+    sheep: Math.round(b.sheep.mean),
+    wolves: Math.round(b.wolves.mean)
+  }))
+
+export class PopulationTimeSeries {
+  private recentCapacity: number
+  private levelCapacity: number
+  private mergeFactor: number
+  private recent: PopulationPoint[] = []
+  // levels[0] holds the newest downsampled buckets (mergeFactor steps each), higher levels older and coarser ones
+  private levels: PopulationBucket[][] = []
+
+  constructor(options: PopulationTimeSeriesOptions = {}) {
+    this.recentCapacity = options.recentCapacity ?? 1000
+    this.levelCapacity = options.levelCapacity ?? 500
+    this.mergeFactor = Math.max(2, options.mergeFactor ?? 4)
+  }
+
+  public record(point: PopulationPoint): void {
+    this.recent.push({ step: point.step, grass: point.grass, sheep: point.sheep, wolves: point.wolves })
+    if (this.recent.length <= this.recentCapacity) return
+
+    // Full-resolution overflow becomes one bucket on the first level, which may cascade upwards
+    const oldest = this.recent.splice(0, this.mergeFactor)
+    this.pushBucket(0, mergeBuckets(oldest.map(pointToBucket)))
+  }
+
+  /**
+   * The last count full-resolution points, oldest first
+   */
+  public getRecent(count: number): PopulationPoint[] {
+    return count > 0 ? this.recent.slice(-count) : []
+  }
+
+  public getLatest(): PopulationPoint | undefined {
+    return this.recent[this.recent.length - 1]
+  }
+
+  /**
+   * Number of steps recorded, at any resolution
+   */
+  public getStepCount(): number {
+    return this.levels.reduce((sum, level) => sum + level.reduce((s, b) => s + b.samples, 0), this.recent.length)
+  }
+
+  /**
+   * Buckets covering the requested step range, oldest first, at least `resolution` steps wide.
+   * Older steps can only be returned as coarsely as they were stored.
+   */
+  public query(query: PopulationHistoryQuery = {}): PopulationBucket[] {
+    const fromStep = query.fromStep ?? -Infinity
+    const toStep = query.toStep ?? Infinity
+    const stored = this.getBuckets().filter(b => b.endStep >= fromStep && b.startStep <= toStep)
+    if (stored.length === 0) return []
+
+    let resolution = Math.max(1, Math.floor(query.resolution ?? 1))
+    if (query.maxPoints !== undefined && query.maxPoints > 0) {
+      const first = stored[0].startStep
+      const last = stored[stored.length - 1].startStep
+      resolution = Math.max(resolution, Math.ceil((last - first + 1) / query.maxPoints))
+      // Aligned windows can straddle one extra bucket edge
+      while (Math.floor(last / resolution) - Math.floor(first / resolution) + 1 > query.maxPoints) {
+        resolution++
+      }
+    }
+    if (resolution === 1) return stored
+
+    // Group by resolution-aligned windows so repeated queries keep stable bucket edges
+    const result: PopulationBucket[] = []
+    let group: PopulationBucket[] = []
+    let groupKey = NaN
+    stored.forEach(bucket => {
+      const key = Math.floor(bucket.startStep / resolution)
+      if (key !== groupKey && group.length > 0) {
+        result.push(group.length === 1 ? group[0] : mergeBuckets(group))
+        group = []
+      }
+      groupKey = key
+      group.push(bucket)
+    })
+    result.push(group.length === 1 ? group[0] : mergeBuckets(group))
+    return result
+  }
+
+  public clear(): void {
+    this.recent = []
+    this.levels = []
+  }
+
+  /**
+   * Full-resolution points and downsampled levels, for snapshots
+   */
+  public exportSnapshot(): { points: PopulationPoint[]; buckets: PopulationBucket[][] } {
+    return JSON.parse(JSON.stringify({ points: this.recent, buckets: this.levels }))
+  }
+
+  public restoreSnapshot(points: PopulationPoint[], buckets: PopulationBucket[][] = []): void {
+    const copy = JSON.parse(JSON.stringify({ points, buckets }))
+    this.recent = copy.points
+    this.levels = copy.buckets
+  }
+
+  private getBuckets(): PopulationBucket[] {
+    const older = [...this.levels].reverse().flat()
+    return [...older, ...this.recent.map(pointToBucket)]
+  }
+
+  private pushBucket(levelIndex: number, bucket: PopulationBucket): void {
+    const level = this.levels[levelIndex] ?? (this.levels[levelIndex] = [])
+    level.push(bucket)
+    if (level.length <= this.levelCapacity) return
+
+    const oldest = level.splice(0, this.mergeFactor)
+    this.pushBucket(levelIndex + 1, mergeBuckets(oldest))
+  }
+}
@@ -0,0 +1,136 @@
+import { describe, it, expect } from 'vitest'
+import { WORLD_CONFIG, mergeWorldConfig } from './WorldConfig'
+import { validateWorldConfig, parseWorldConfig, assertValidConfig, InvalidConfigError } from './ConfigValidator'
+import { SimulationEngine } from '../engine/SimulationEngine'
+
+const withOverrides = (overrides: Parameters<typeof mergeWorldConfig>[1]) => mergeWorldConfig(WORLD_CONFIG, overrides)
+
+describe('ConfigValidator', () => {
+  it('should accept the default config', () => {
+    const result = validateWorldConfig(WORLD_CONFIG)
+    expect(result.errors).toEqual([])
+    expect(result.valid).toBe(true)
+  })
+
+  it('should report wrong value types with their path', () => {
+    const config = withOverrides({ sheep: { reproductionRate: '0.1' as unknown as number } })
+    const result = validateWorldConfig(config)
+
+    expect(result.valid).toBe(false)
+    expect(result.errors).toEqual([
+      { path: 'sheep.reproductionRate', message: 'must be a finite number', value: '0.1' }
+    ])
+  })
+
+  it('should report unknown keys so typos are not silently ignored', () => {
+    const config = { ...WORLD_CONFIG, sheep: { ...WORLD_CONFIG.sheep, reproductionRat: 0.2 } }
+    const result = validateWorldConfig(config)
+
+    expect(result.errors.map(e => e.path)).toEqual(['sheep.reproductionRat'])
+    expect(result.errors[0].message).toContain('not a known config key')
+  })
+
+  it('should report missing values', () => {
+    const config: Record<string, unknown> = { ...WORLD_CONFIG }
+    delete config.grass
+    const result = validateWorldConfig(config)
+
+    expect(result.errors).toContainEqual({ path: 'grass', message: 'is required' })
+  })
+
+  it('should check probabilities are in [0, 1]', () => {
+    const result = validateWorldConfig(withOverrides({ world: { diseaseProbability: 1.5 } }))
+
+    expect(result.errors).toEqual([
+      { path: 'world.diseaseProbability', message: 'must be <= 1', value: 1.5 }
+    ])
+  })
+
+  it('should check integer and positive ranges', () => {
+    const result = validateWorldConfig(withOverrides({ width: 0, wolf: { lifespan: 10.5 } }))
+    const paths = result.errors.map(e => e.path)
+
+    expect(paths).toContain('width')
+    expect(paths).toContain('wolf.lifespan')
+  })
+
+  it('should check enumerated settings', () => {
+    const result = validateWorldConfig(withOverrides({ debug: { logLevel: 'verbose' } }))
+
+    expect(result.errors[0].path).toBe('debug.logLevel')
+    expect(result.errors[0].message).toContain('debug, info, warn, error')
+  })
+
+  it('should check min/max pairs', () => {
+    const result = validateWorldConfig(withOverrides({
+      sheep: { reproduction: { litterSizeMin: 5, litterSizeMax: 3 } }
+    }))
+
+    expect(result.errors).toEqual([
+      { path: 'sheep.reproduction.litterSizeMin', message: 'must be <= sheep.reproduction.litterSizeMax (3)', value: 5 }
+    ])
+  })
+
+  it('should check initial populations fit in the world', () => {
+    const result = validateWorldConfig(withOverrides({ width: 10, height: 10, initialSheepCount: 95, initialWolfCount: 10 }))
+
+    expect(result.errors[0].path).toBe('initialSheepCount')
+    expect(result.errors[0].message).toContain('100 cells')
+  })
+
+  it('should check terrain maps match the world', () => {
+    const resized = validateWorldConfig(withOverrides({ width: 3, height: 2, initialSheepCount: 1, initialWolfCount: 1, terrain: { source: 'map', map: '..\n..' } }))
+    const malformed = validateWorldConfig(withOverrides({ width: 3, height: 2, initialSheepCount: 1, initialWolfCount: 1, terrain: { source: 'map', map: '..?\n...' } }))
+
+    expect(resized.errors).toEqual([{ path: 'terrain.map', message: 'is 2x2 but the world is 3x2' }])
+    expect(malformed.errors).toEqual([{ path: 'terrain.map', message: 'Unknown terrain symbol "?" at row 1, column 3' }])
+  })
+
+  it('should fill defaults for partial input', () => {
+    const { config, errors } = parseWorldConfig({ width: 40, sheep: { reproductionRate: 0.2 } })
+
+    expect(errors).toEqual([])
+    expect(config?.width).toBe(40)
+    expect(config?.sheep.hungerThreshold).toBe(WORLD_CONFIG.sheep.hungerThreshold)
+  })
+
+  it('should not return a config for invalid partial input', () => {
+    const { config, errors } = parseWorldConfig({ grass: { growthRate: -1 } })
+
+    expect(config).toBeNull()
+    expect(errors[0].path).toBe('grass.growthRate')
+  })
+
+  it('should throw InvalidConfigError with structured errors', () => {
+    const invalid = withOverrides({ sheep: { reproductionRate: 2 } })
+
+    expect(() => assertValidConfig(invalid)).toThrow(InvalidConfigError)
+    try {
+      assertValidConfig(invalid)
+    } catch (error) {
+      expect((error as InvalidConfigError).errors[0].path).toBe('sheep.reproductionRate')
+      expect((error as InvalidConfigError).message).toContain('sheep.reproductionRate: must be <= 1 (got 2)')
+    }
+  })
+
+  describe('SimulationEngine integration', () => {
+    it('should reject an invalid config in the constructor', () => {
+      expect(() => new SimulationEngine(withOverrides({ height: -5 }))).toThrow(InvalidConfigError)
+    })
+
+    it('should reject invalid updates and keep the previous config', () => {
+      const engine = new SimulationEngine(WORLD_CONFIG)
+
+      expect(() => engine.updateConfig({ wolf: { reproduction: { packSizeMin: 6, packSizeMax: 2 } } })).toThrow(InvalidConfigError)
+      expect(engine.getConfig()).toBe(WORLD_CONFIG)
+    })
+
+    it('should deep-merge valid updates', () => {
+      const engine = new SimulationEngine(WORLD_CONFIG)
+      engine.updateConfig({ sheep: { reproductionRate: 0.2 } })
+
+      expect(engine.getConfig().sheep.reproductionRate).toBe(0.2)
+      expect(engine.getConfig().sheep.hungerThreshold).toBe(WORLD_CONFIG.sheep.hungerThreshold)
+    })
+  })
+})
@@ -0,0 +1,330 @@
+/**
+ * Runtime validation for WorldConfig
+ *
+ * WORLD_CONFIG doubles as the schema (expected keys and value types) and as the
+ * defaults for partial configs. Numeric ranges and cross-field invariants are
+ * declared below so a typo or an impossible combination is reported instead of
+ * silently producing a broken simulation.
+ */
+
+import { WORLD_CONFIG, WorldConfig, DeepPartial, mergeWorldConfig } from './WorldConfig'
+import { TERRAIN_TYPES, parseTerrainMap } from '../engine/Terrain'
+
+export interface ConfigValidationError {
+  path: string;      // Dotted path, e.g. 'sheep.reproduction.litterSizeMin'
+  message: string;
+  value?: unknown;
+}
+
+export interface ConfigValidationResult {
+  valid: boolean;
+  errors: ConfigValidationError[];
+}
+
+export class InvalidConfigError extends Error {
+  public readonly errors: ConfigValidationError[]
+
+  constructor(errors: ConfigValidationError[], context: string = 'Invalid world config') {
+    super(`${context}:\n${formatConfigErrors(errors)}`)
+    this.name = 'InvalidConfigError'
+    this.errors = errors
+  }
+}
+
+export interface NumberRule {
+  min?: number;
+  max?: number;
+  exclusiveMin?: boolean;
+  integer?: boolean;
+}
+
+const PROBABILITY: NumberRule = { min: 0, max: 1 }
+const NON_NEGATIVE: NumberRule = { min: 0 }
+const POSITIVE: NumberRule = { min: 0, exclusiveMin: true }
+const NON_NEGATIVE_INT: NumberRule = { min: 0, integer: true }
+const POSITIVE_INT: NumberRule = { min: 1, integer: true }
+
+// Numeric ranges by config path (paths not listed only get a type check)
+const NUMBER_RULES: Record<string, NumberRule> = {
+  'width': POSITIVE_INT,
+  'height': POSITIVE_INT,
+  'stepDuration': POSITIVE,
+  'seed': { integer: true },
+  'initialGrassCoverage': PROBABILITY,
+  'initialSheepCount': NON_NEGATIVE_INT,
+  'initialWolfCount': NON_NEGATIVE_INT,
+
+  'grass.growthRate': PROBABILITY,
+  'grass.maxDensity': { min: 0, max: 1, exclusiveMin: true },
+  'grass.consumptionRate': PROBABILITY,
+  'grass.spreadingRadius': NON_NEGATIVE_INT,
+  'grass.winterGrowthRate': NON_NEGATIVE,
+  'grass.summerGrowthRate': NON_NEGATIVE,
+  'grass.reproduction.minDensity': PROBABILITY,
+  'grass.reproduction.spreadRadius': NON_NEGATIVE,
+  'grass.reproduction.spreadProbability': PROBABILITY,
+  'grass.reproduction.seasonalBonus': NON_NEGATIVE,
+  'grass.reproduction.competitionRadius': NON_NEGATIVE_INT,
+  'grass.reproduction.maxSeedsPerStep': NON_NEGATIVE_INT,
+  'grass.reproduction.seedViability': PROBABILITY,
+
+  'sheep.movementRange': NON_NEGATIVE_INT,
+  'sheep.hungerThreshold': POSITIVE,
+  'sheep.reproductionRate': PROBABILITY,
+  'sheep.reproductionThreshold': NON_NEGATIVE,
+  'sheep.lifespan': POSITIVE_INT,
+  'sheep.energyPerGrass': NON_NEGATIVE,
+  'sheep.energyPerStep': NON_NEGATIVE,
+  'sheep.flockingTendency': PROBABILITY,
+  'sheep.grazingEfficiency': PROBABILITY,
+  'sheep.reproduction.minAge': NON_NEGATIVE_INT,
+  'sheep.reproduction.maxAge': NON_NEGATIVE_INT,
+  'sheep.reproduction.minEnergy': NON_NEGATIVE,
+  'sheep.reproduction.cooldownPeriod': NON_NEGATIVE_INT,
+  'sheep.reproduction.gestationPeriod': POSITIVE_INT,
+  'sheep.reproduction.energyCost': NON_NEGATIVE,
+  'sheep.reproduction.partnerProximity': NON_NEGATIVE,
+  'sheep.reproduction.litterSizeMin': NON_NEGATIVE_INT,
+  'sheep.reproduction.litterSizeMax': NON_NEGATIVE_INT,
+  'sheep.reproduction.juvenilePeriod': NON_NEGATIVE_INT,
+  'sheep.reproduction.inheritanceVariation': PROBABILITY,
+
+  'wolf.movementRange': NON_NEGATIVE_INT,
+  'wolf.hungerThreshold': POSITIVE,
+  'wolf.reproductionRate': PROBABILITY,
+  'wolf.reproductionThreshold': NON_NEGATIVE,
+  'wolf.lifespan': POSITIVE_INT,
+  'wolf.energyPerSheep': NON_NEGATIVE,
+  'wolf.energyPerStep': NON_NEGATIVE,
+  'wolf.huntingRadius': NON_NEGATIVE_INT,
+  'wolf.packHuntingBonus': NON_NEGATIVE,
+  'wolf.territorySize': NON_NEGATIVE,
+  'wolf.reproduction.minAge': NON_NEGATIVE_INT,
+  'wolf.reproduction.maxAge': NON_NEGATIVE_INT,
+  'wolf.reproduction.minEnergy': NON_NEGATIVE,
+  'wolf.reproduction.cooldownPeriod': NON_NEGATIVE_INT,
+  'wolf.reproduction.gestationPeriod': POSITIVE_INT,
+  'wolf.reproduction.energyCost': NON_NEGATIVE,
+  'wolf.reproduction.packSizeMin': POSITIVE_INT,
+  'wolf.reproduction.packSizeMax': POSITIVE_INT,
+  'wolf.reproduction.territoryRadius': NON_NEGATIVE,
+  'wolf.reproduction.litterSizeMin': NON_NEGATIVE_INT,
+  'wolf.reproduction.litterSizeMax': NON_NEGATIVE_INT,
+  'wolf.reproduction.juvenilePeriod': NON_NEGATIVE_INT,
+  'wolf.reproduction.inheritanceVariation': PROBABILITY,
+
+  'world.seasonLength': POSITIVE_INT,
+  'world.temperatureEffect': NON_NEGATIVE,
+  'world.diseaseProbability': PROBABILITY,
+  'world.diseaseTransmissionRate': PROBABILITY,
+  'world.diseaseIncubation': NON_NEGATIVE_INT,
+  'world.diseaseDuration': POSITIVE_INT,
+  'world.diseaseEnergyDrain': NON_NEGATIVE,
+  'world.diseaseMortality': PROBABILITY,
+  'world.diseaseImmunity': NON_NEGATIVE_INT,
+  'world.emigrationRate': PROBABILITY,
+  'world.immigration.sheepRate': PROBABILITY,
+  'world.immigration.wolfRate': PROBABILITY,
+  'world.immigration.sheepEnergy': POSITIVE,
+  'world.immigration.wolfEnergy': POSITIVE,
+  'world.immigration.sheepAge': NON_NEGATIVE_INT,
+  'world.immigration.wolfAge': NON_NEGATIVE_INT,
+  'world.immigration.grazingEfficiency': NON_NEGATIVE,
+
+  'terrain.coverage.fertile': PROBABILITY,
+  'terrain.coverage.poor': PROBABILITY,
+  'terrain.coverage.rock': PROBABILITY,
+  'terrain.coverage.water': PROBABILITY,
+  'terrain.coverage.forest': PROBABILITY,
+  'terrain.landscape.patchiness': PROBABILITY,
+  'terrain.landscape.fragmentation': PROBABILITY,
+  ...Object.fromEntries(TERRAIN_TYPES.flatMap(type => [
+    [`terrain.types.${type}.growth`, NON_NEGATIVE],
+    [`terrain.types.${type}.maxDensity`, NON_NEGATIVE],
+    [`terrain.types.${type}.slowdown`, PROBABILITY],
+    [`terrain.types.${type}.cover`, PROBABILITY]
+  ])),
+
+  'visualization.cellSize': POSITIVE,
+  'visualization.animationSpeed': POSITIVE,
+
+  'speed.minSpeed': POSITIVE,
+  'speed.maxSpeed': POSITIVE,
+  'speed.defaultSpeed': POSITIVE,
+  'speed.presets.verySlow': POSITIVE,
+  'speed.presets.slow': POSITIVE,
+  'speed.presets.normal': POSITIVE,
+  'speed.presets.fast': POSITIVE,
+  'speed.presets.veryFast': POSITIVE,
+  'speed.presets.unlimited': POSITIVE,
+}
+
+// Allowed values for string settings
+const ENUM_RULES: Record<string, readonly string[]> = {
+  'debug.logLevel': ['debug', 'info', 'warn', 'error'],
+  'visualization.colorScheme': ['natural', 'colorful', 'monochrome'],
+  'world.storage': ['grid', 'columnar'],
+  'world.boundary': ['bounded', 'torus', 'reflective'],
+  'terrain.source': ['uniform', 'procedural', 'landscape', 'map'],
+}
+
+// Keys that may be left undefined (their default is undefined)
+const OPTIONAL_KEYS = new Set(['seed'])
+
+/**
+ * Numeric range declared for a config path, if any (used to bound UI controls)
+ */
+export const getNumberRule = (path: string): NumberRule | undefined => NUMBER_RULES[path]
+
+/**
+ * Validate a full config: types, ranges and cross-field invariants
+ */
+export const validateWorldConfig = (config: unknown): ConfigValidationResult => {
+  const errors: ConfigValidationError[] = []
+
+  if (!isObject(config)) {
+    errors.push({ path: '', message: 'must be an object', value: config })
+    return { valid: false, errors }
+  }
+
+  checkShape(config, WORLD_CONFIG as unknown as Record<string, unknown>, '', errors)
+
+  // Cross-field checks only make sense once every field has the right type
+  if (errors.length === 0) {
+    checkInvariants(config as unknown as WorldConfig, errors)
+  }
+
+  return { valid: errors.length === 0, errors }
+}
+
+/**
+ * Merge partial input (e.g. a config file) onto WORLD_CONFIG and validate the result
+ */
+export const parseWorldConfig = (input: unknown, base: WorldConfig = WORLD_CONFIG): { config: WorldConfig | null; errors: ConfigValidationError[] } => {
+  if (!isObject(input)) {
+    return { config: null, errors: [{ path: '', message: 'must be an object', value: input }] }
+  }
+
+  const config = mergeWorldConfig(base, input as DeepPartial<WorldConfig>)
+  const { valid, errors } = validateWorldConfig(config)
+  return { config: valid ? config : null, errors }
+}
+
+/**
+ * Throw InvalidConfigError unless config is valid
+ */
+export const assertValidConfig = (config: unknown, context?: string): void => {
+  const { valid, errors } = validateWorldConfig(config)
+  if (!valid) {
+    throw new InvalidConfigError(errors, context)
+  }
+}
+
+export const formatConfigErrors = (errors: ConfigValidationError[]): string =>
+  errors.map(e => `  - ${e.path || '(root)'}: ${e.message}${e.value !== undefined ? ` (got ${JSON.stringify(e.value)})` : ''}`).join('\n')
+
+const checkShape = (
+  value: Record<string, unknown>,
+  schema: Record<string, unknown>,
+  prefix: string,
+  errors: ConfigValidationError[]
+): void => {
+  Object.keys(value).forEach(key => {
+    if (!(key in schema)) {
+      errors.push({ path: prefix + key, message: 'is not a known config key' })
+    }
+  })
+
+  Object.entries(schema).forEach(([key, expected]) => {
+    const path = prefix + key
+    const actual = value[key]
+
+    if (actual === undefined) {
+      if (!OPTIONAL_KEYS.has(path)) {
+        errors.push({ path, message: 'is required' })
+      }
+      return
+    }
+
+    if (isObject(expected)) {
+      if (!isObject(actual)) {
+        errors.push({ path, message: 'must be an object', value: actual })
+      } else {
+        checkShape(actual, expected, `${path}.`, errors)
+      }
+      return
+    }
+
+    const expectedType = OPTIONAL_KEYS.has(path) ? 'number' : typeof expected
+    if (typeof actual !== expectedType || (expectedType === 'number' && !Number.isFinite(actual))) {
+      errors.push({ path, message: `must be a ${expectedType === 'number' ? 'finite number' : expectedType}`, value: actual })
+      return
+    }
+
+    if (typeof actual === 'number' && NUMBER_RULES[path]) {
+      checkNumber(path, actual, NUMBER_RULES[path], errors)
+    }
+    if (typeof actual === 'string' && ENUM_RULES[path] && !ENUM_RULES[path].includes(actual)) {
+      errors.push({ path, message: `must be one of ${ENUM_RULES[path].join(', ')}`, value: actual })
+    }
+  })
+}
+
+const checkNumber = (path: string, value: number, rule: NumberRule, errors: ConfigValidationError[]): void => {
+  if (rule.integer && !Number.isInteger(value)) {
+    errors.push({ path, message: 'must be an integer', value })
+  }
+  if (rule.min !== undefined && (rule.exclusiveMin ? value <= rule.min : value < rule.min)) {
+    errors.push({ path, message: `must be ${rule.exclusiveMin ? '>' : '>='} ${rule.min}`, value })
+  }
+  if (rule.max !== undefined && value > rule.max) {
+    errors.push({ path, message: `must be <= ${rule.max}`, value })
+  }
+}
+
+const checkInvariants = (config: WorldConfig, errors: ConfigValidationError[]): void => {
+  const requireOrder = (lowPath: string, low: number, highPath: string, high: number) => {
+    if (low > high) {
+      errors.push({ path: lowPath, message: `must be <= ${highPath} (${high})`, value: low })
+    }
+  }
+
+  const totalCells = config.width * config.height
+  if (config.initialSheepCount + config.initialWolfCount > totalCells) {
+    errors.push({
+      path: 'initialSheepCount',
+      message: `initialSheepCount + initialWolfCount must fit in width*height (${totalCells} cells)`,
+      value: config.initialSheepCount + config.initialWolfCount
+    })
+  }
+
+  ;(['sheep', 'wolf'] as const).forEach(species => {
+    const reproduction = config[species].reproduction
+    requireOrder(`${species}.reproduction.litterSizeMin`, reproduction.litterSizeMin, `${species}.reproduction.litterSizeMax`, reproduction.litterSizeMax)
+    requireOrder(`${species}.reproduction.minAge`, reproduction.minAge, `${species}.reproduction.maxAge`, reproduction.maxAge)
+  })
+
+  const coverage = Object.values(config.terrain.coverage).reduce((sum, share) => sum + share, 0)
+  if (coverage > 1) {
+    errors.push({ path: 'terrain.coverage', message: 'shares must add up to at most 1', value: coverage })
+  }
+
+  if (config.terrain.source === 'map') {
+    try {
+      const map = parseTerrainMap(config.terrain.map)
+      if (map.width !== config.width || map.height !== config.height) {
+        errors.push({ path: 'terrain.map', message: `is ${map.width}x${map.height} but the world is ${config.width}x${config.height}` })
+      }
+    } catch (error) {
+      errors.push({ path: 'terrain.map', message: (error as Error).message })
+    }
+  }
+
+  requireOrder('wolf.reproduction.packSizeMin', config.wolf.reproduction.packSizeMin, 'wolf.reproduction.packSizeMax', config.wolf.reproduction.packSizeMax)
+  requireOrder('speed.minSpeed', config.speed.minSpeed, 'speed.maxSpeed', config.speed.maxSpeed)
+  requireOrder('speed.defaultSpeed', config.speed.defaultSpeed, 'speed.maxSpeed', config.speed.maxSpeed)
+  requireOrder('speed.minSpeed', config.speed.minSpeed, 'speed.defaultSpeed', config.speed.defaultSpeed)
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
@@ -1,5 +1,6 @@
 import { describe, it, expect } from 'vitest'
-import { WORLD_CONFIG } from './WorldConfig'
+import { WORLD_CONFIG, createWorldConfig, createPresetConfig, WORLD_PRESETS } from './WorldConfig'
+import { validateWorldConfig } from './ConfigValidator'
 
 describe('WorldConfig', () => {
   it('should have valid grid dimensions', () => {
@@ -69,4 +70,53 @@ describe('WorldConfig', () => {
     expect(typeof WORLD_CONFIG.debug.pauseOnExtinction).toBe('boolean')
     expect(typeof WORLD_CONFIG.debug.saveStatistics).toBe('boolean')
   })
+
+  describe('createWorldConfig', () => {
+    it('should reproduce WORLD_CONFIG with no options', () => {
+      expect(createWorldConfig()).toEqual(WORLD_CONFIG)
+    })
+
+    it('should size populations from densities', () => {
+      const config = createWorldConfig({ width: 100, height: 50, sheepDensity: 0.01, wolfDensity: 0.002, grassCoverage: 0.5 })
+
+      expect(config.width).toBe(100)
+      expect(config.height).toBe(50)
+      expect(config.initialSheepCount).toBe(50)
+      expect(config.initialWolfCount).toBe(10)
+      expect(config.initialGrassCoverage).toBe(0.5)
+    })
+
+    it('should recompute derived ranges for larger worlds', () => {
+      const small = createWorldConfig({ width: 50, height: 50 })
+      const large = createWorldConfig({ width: 200, height: 200 })
+
+      expect(large.sheep.movementRange).toBeGreaterThan(small.sheep.movementRange)
+      expect(large.wolf.movementRange).toBeGreaterThan(small.wolf.movementRange)
+      expect(large.wolf.huntingRadius).toBeGreaterThan(small.wolf.huntingRadius)
+      expect(large.wolf.territorySize).toBeGreaterThan(small.wolf.territorySize)
+    })
+
+    it('should keep baseline ranges with fixed scaling', () => {
+      const baseline = createWorldConfig({ width: 50, height: 50 })
+      const fixed = createWorldConfig({ width: 200, height: 200, scaling: 'fixed' })
+
+      expect(fixed.sheep.movementRange).toBe(baseline.sheep.movementRange)
+      expect(fixed.wolf.huntingRadius).toBe(baseline.wolf.huntingRadius)
+    })
+  })
+
+  describe('presets', () => {
+    it('should produce valid configs for every preset', () => {
+      (Object.keys(WORLD_PRESETS) as Array<keyof typeof WORLD_PRESETS>).forEach(name => {
+        expect(validateWorldConfig(createPresetConfig(name)).errors).toEqual([])
+      })
+    })
+
+    it('should use the preset size unless overridden', () => {
+      expect(createPresetConfig('smallTest').width).toBe(30)
+      expect(createPresetConfig('large').width).toBe(150)
+      expect(createPresetConfig('default')).toEqual(WORLD_CONFIG)
+      expect(createPresetConfig('smallTest', { width: 40 }).width).toBe(40)
+    })
+  })
 })
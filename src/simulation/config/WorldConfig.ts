@@ -7,22 +7,49 @@
  * Parameters are based on ecological literature and optimized for a 50x50 grid.
  */
 
+import type { BoundaryMode, ConfigChange, TerrainEffects, WorldStorageBackend } from '../types/SimulationTypes';
+
+export interface WorldConfigOptions {
+  /** Grid width in cells (default 70) */
+  width?: number;
+  /** Grid height in cells (default 70) */
+  height?: number;
+  /** Initial sheep as a fraction of total cells (default 0.025) */
+  sheepDensity?: number;
+  /** Initial wolves as a fraction of total cells (default 0.003) */
+  wolfDensity?: number;
+  /** Fraction of cells starting with grass (default 0.8) */
+  grassCoverage?: number;
+  /**
+   * How movement and detection ranges follow world size:
+   * 'proportional' scales them with √(cells) relative to a 50x50 baseline,
+   * 'fixed' keeps the 50x50 baseline values regardless of size
+   */
+  scaling?: 'proportional' | 'fixed';
+}
+
+// Where the terrain layout comes from when the world is set up
+export type TerrainSource = 'uniform' | 'procedural' | 'landscape' | 'map';
+
 // Dynamic world configuration that scales with world size
-const createWorldConfig = () => {
+export const createWorldConfig = (options: WorldConfigOptions = {}) => {
   // Configurable world dimensions - experiment with different sizes!
-  const WORLD_WIDTH = 70;
-  const WORLD_HEIGHT = 70;
+  const WORLD_WIDTH = options.width ?? 70;
+  const WORLD_HEIGHT = options.height ?? 70;
   const TOTAL_CELLS = WORLD_WIDTH * WORLD_HEIGHT;
   
   // Population densities (as percentages of total cells) - minimum viable population
-  const SHEEP_DENSITY = 0.025;  // 2.5% of cells - high sheep density for wolf sustainability  
-  const WOLF_DENSITY = 0.003;   // 0.3% of cells - minimum viable wolf population for oscillations
+  const SHEEP_DENSITY = options.sheepDensity ?? 0.025;  // 2.5% of cells - high sheep density for wolf sustainability  
+  const WOLF_DENSITY = options.wolfDensity ?? 0.003;    // 0.3% of cells - minimum viable wolf population for oscillations
+  const GRASS_COVERAGE = options.grassCoverage ?? 0.8;  // 80% of cells start with grass
   
   // Scale movement and detection ranges based on world size (increased for better spatial mixing)
-  const WORLD_SCALE = Math.sqrt(TOTAL_CELLS) / 50; // Relative to 50x50 baseline
+  const WORLD_SCALE = (options.scaling ?? 'proportional') === 'proportional'
+    ? Math.sqrt(TOTAL_CELLS) / 50 // Relative to 50x50 baseline
+    : 1;
   const SHEEP_MOVEMENT = Math.max(2, Math.floor(4 * WORLD_SCALE)); // Doubled sheep movement for better foraging
   const WOLF_MOVEMENT = Math.max(3, Math.floor(10 * WORLD_SCALE)); // Increased wolf movement
-  const WOLF_HUNTING_RADIUS = Math.max(4, Math.floor(18 * WORLD_SCALE)); // Larger hunting radius
+  const WOLF_HUNTING_RADIUS = Math.max(8, Math.floor(12 * WORLD_SCALE)); // Larger hunting radius - more effective
   const WOLF_TERRITORY_SIZE = Math.max(6, Math.floor(25 * WORLD_SCALE)); // Larger territories
   
   return {
@@ -32,9 +59,10 @@ const createWorldConfig = () => {
     
     // Simulation timing
     stepDuration: 60000, // 1 minute in milliseconds
+    seed: undefined as number | undefined, // Fixed random seed for reproducible runs (undefined = random)
     
     // Initial populations (automatically scaled to world size)
-    initialGrassCoverage: 0.8, // 80% of cells start with grass
+    initialGrassCoverage: GRASS_COVERAGE,
     initialSheepCount: Math.floor(TOTAL_CELLS * SHEEP_DENSITY),
     initialWolfCount: Math.floor(TOTAL_CELLS * WOLF_DENSITY),
   
@@ -97,7 +125,7 @@ const createWorldConfig = () => {
     lifespan: 200,             // Longer lifespan - better survival
     energyPerSheep: 6.0,       // Much higher energy gain - wolves get substantial energy from kills
     energyPerStep: 0.003,      // Very low energy consumption - wolves survive lean periods
-    huntingRadius: Math.max(8, Math.floor(12 * WORLD_SCALE)), // Larger hunting radius - more effective
+    huntingRadius: WOLF_HUNTING_RADIUS, // Hunting radius (scaled to world size)
     packHuntingBonus: 0.4,     // Higher hunting efficiency - wolves are effective predators
     territorialBehavior: true, // Enable territorial behavior
     territorySize: WOLF_TERRITORY_SIZE, // Size of wolf territory (scaled to world size)
@@ -128,7 +156,50 @@ const createWorldConfig = () => {
     temperatureEffect: 0.1,    // Effect of temperature on growth
     diseaseOutbreak: false,    // Enable disease outbreaks
     diseaseProbability: 0.001, // Probability of disease per step
+    diseaseTransmissionRate: 0.1, // Chance per step an infectious animal infects each neighbor
+    diseaseIncubation: 5,      // Steps from catching the disease to becoming infectious
+    diseaseDuration: 20,       // Steps infectious before recovering
+    diseaseEnergyDrain: 0.01,  // Extra energy lost per infectious step, a fifth of a sheep's upkeep
+    diseaseMortality: 0.01,    // Chance per infectious step of dying from the disease
+    diseaseImmunity: 100,      // Steps of immunity after recovering
     migrationEnabled: false,   // Enable animal migration
+    emigrationRate: 0.5,       // Chance an animal wandering off an edge leaves the world instead of staying
+    immigration: {             // Newcomers arriving at random free edge cells
+      sheepRate: 0.02,         // Chance per step that a sheep arrives
+      wolfRate: 0.005,         // Chance per step that a wolf arrives
+      sheepEnergy: 0.8,        // Energy immigrants arrive with
+      wolfEnergy: 0.9,
+      sheepAge: 15,            // Immigrants arrive as breeding adults
+      wolfAge: 20,
+      grazingEfficiency: 0.95, // Immigrant sheep grazing efficiency
+    },
+    storage: 'grid' as WorldStorageBackend, // Cell storage: object grid, or typed arrays for large worlds (applies on reset)
+    boundary: 'bounded' as BoundaryMode, // Grid edges: walls, torus wrap-around, or reflective (applies on reset)
+  },
+  
+  // Terrain parameters (layout applies on reset; effects apply live)
+  terrain: {
+    source: 'uniform' as TerrainSource, // All grassland, procedural patches, a noise landscape, or the map below
+    map: '',                   // Rows of . grassland + fertile , poor # rock ~ water T forest (source 'map')
+    coverage: {                // Share of cells each type covers when procedural or landscape
+      fertile: 0.15,
+      poor: 0.15,
+      rock: 0.03,
+      water: 0.05,
+      forest: 0.1,
+    },
+    landscape: {               // Smooth-noise layouts (source 'landscape')
+      patchiness: 0.5,         // 0 = a few broad regions, 1 = many small patches
+      fragmentation: 0.3,      // 0 = smooth patch edges, 1 = ragged, broken-up patches
+    },
+    types: {
+      grassland: { growth: 1.0, maxDensity: 1.0, passable: true, slowdown: 0, cover: 0 } as TerrainEffects,
+      fertile: { growth: 1.5, maxDensity: 1.0, passable: true, slowdown: 0, cover: 0 } as TerrainEffects,    // Lush regrowth
+      poor: { growth: 0.5, maxDensity: 0.5, passable: true, slowdown: 0, cover: 0 } as TerrainEffects,       // Sparse, slow grass
+      rock: { growth: 0, maxDensity: 0, passable: false, slowdown: 0, cover: 0 } as TerrainEffects,          // Bare barrier
+      water: { growth: 0, maxDensity: 0, passable: false, slowdown: 0, cover: 0 } as TerrainEffects,         // Lakes and rivers
+      forest: { growth: 0.7, maxDensity: 0.6, passable: true, slowdown: 0.3, cover: 0.5 } as TerrainEffects, // Slow going, hides sheep
+    },
   },
   
   // Visualization parameters
@@ -159,6 +230,13 @@ const createWorldConfig = () => {
   // Debug parameters
   debug: {
     logLevel: 'info',          // Logging level (debug, info, warn, error)
+    logCategories: {           // Log categories to emit
+      deaths: true,
+      hunting: true,
+      reproduction: true,
+      analysis: true,
+      worker: true,            // Errors the simulation worker reports to the page
+    },
     showDebugInfo: false,      // Show debug information
     pauseOnExtinction: true,   // Pause simulation if species goes extinct
     saveStatistics: true,      // Save simulation statistics
@@ -168,12 +246,74 @@ const createWorldConfig = () => {
 
 export const WORLD_CONFIG = createWorldConfig();
 
+// Named world setups for size experiments
+export const WORLD_PRESETS = {
+  smallTest: { width: 30, height: 30 },  // Fast unit tests and quick experiments
+  default: {},                           // Same as WORLD_CONFIG
+  large: { width: 150, height: 150 },    // Large-scale dynamics (slow in the UI)
+} satisfies Record<string, WorldConfigOptions>;
+
+export type WorldPresetName = keyof typeof WORLD_PRESETS;
+
+/**
+ * Create a config from a named preset, optionally overriding its size options
+ */
+export const createPresetConfig = (preset: WorldPresetName, overrides: WorldConfigOptions = {}): WorldConfig =>
+  createWorldConfig({ ...WORLD_PRESETS[preset], ...overrides });
+
+/**
+ * Deep-merge partial overrides (e.g. a JSON config file) onto a base config
+ */
+export const mergeWorldConfig = (base: WorldConfig, overrides: DeepPartial<WorldConfig>): WorldConfig => {
+  const merge = (target: Record<string, unknown>, source: Record<string, unknown>): Record<string, unknown> => {
+    const result: Record<string, unknown> = { ...target };
+    Object.entries(source).forEach(([key, value]) => {
+      const current = result[key];
+      if (isPlainObject(value) && isPlainObject(current)) {
+        result[key] = merge(current, value);
+      } else if (value !== undefined) {
+        result[key] = value;
+      }
+    });
+    return result;
+  };
+
+  return merge(base, overrides) as WorldConfig;
+};
+
+/**
+ * List the leaf values that differ between two configs as dotted paths (e.g. 'sheep.reproductionRate')
+ */
+export const diffWorldConfig = (before: WorldConfig, after: WorldConfig): ConfigChange[] => {
+  const changes: ConfigChange[] = [];
+  const walk = (a: unknown, b: unknown, path: string) => {
+    if (isPlainObject(a) && isPlainObject(b)) {
+      new Set([...Object.keys(a), ...Object.keys(b)]).forEach(key =>
+        walk(a[key], b[key], path ? `${path}.${key}` : key)
+      );
+    } else if (a !== b) {
+      changes.push({ path, from: a, to: b });
+    }
+  };
+
+  walk(before, after, '');
+  return changes;
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
 // Type definitions for configuration
 export type WorldConfig = typeof WORLD_CONFIG;
 export type GrassConfig = typeof WORLD_CONFIG.grass;
 export type SheepConfig = typeof WORLD_CONFIG.sheep;
 export type WolfConfig = typeof WORLD_CONFIG.wolf;
 export type WorldParams = typeof WORLD_CONFIG.world;
+export type TerrainConfig = typeof WORLD_CONFIG.terrain;
 export type VisualizationConfig = typeof WORLD_CONFIG.visualization;
 export type SpeedConfig = typeof WORLD_CONFIG.speed;
 export type DebugConfig = typeof WORLD_CONFIG.debug;
+
+export type DeepPartial<T> = {
+  [K in keyof T]?: T[K] extends object ? DeepPartial<T[K]> : T[K];
+};
@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest'
+import { ColumnarStorage } from './ColumnarStorage'
+import { SimulationEngine } from './SimulationEngine'
+import { createWorldConfig, mergeWorldConfig } from '../config/WorldConfig'
+import { Season, WorldStorageBackend } from '../types/SimulationTypes'
+import { OrganismFactory } from '../utils/OrganismFactory'
+import { WorldInitializer } from '../utils/WorldInitializer'
+
+describe('ColumnarStorage', () => {
+  const sheepAt = (id: string, x: number, y: number) => OrganismFactory.createSheep({ id, x, y, energy: 5 })
+
+  it('should enumerate organisms in scan order regardless of insertion order', () => {
+    const storage = new ColumnarStorage(4, 4)
+    storage.setOccupant('sheep', 3, 0, sheepAt('c', 3, 0))
+    storage.setOccupant('sheep', 0, 2, sheepAt('a', 0, 2))
+    storage.setOccupant('sheep', 1, 1, sheepAt('b', 1, 1))
+
+    expect(storage.getOrganisms('sheep').map(s => s.id)).toEqual(['a', 'b', 'c'])
+    expect(storage.count('sheep')).toBe(3)
+    expect(storage.count('wolf')).toBe(0)
+  })
+
+  it('should keep occupancy consistent when organisms are removed', () => {
+    const storage = new ColumnarStorage(4, 4)
+    storage.setOccupant('sheep', 0, 0, sheepAt('a', 0, 0))
+    storage.setOccupant('sheep', 1, 0, sheepAt('b', 1, 0))
+    storage.setOccupant('sheep', 2, 0, sheepAt('c', 2, 0))
+
+    // Removing the first organism swaps the last one into its slot
+    storage.clearOccupant('sheep', 0, 0)
+
+    expect(storage.getOccupant('sheep', 0, 0)).toBeUndefined()
+    expect(storage.getOccupant('sheep', 2, 0)?.id).toBe('c')
+    expect(storage.getOrganisms('sheep').map(s => s.id)).toEqual(['b', 'c'])
+
+    storage.setOccupant('sheep', 2, 0, sheepAt('d', 2, 0))
+    expect(storage.getCell(2, 0).sheep?.id).toBe('d')
+    expect(storage.count('sheep')).toBe(2)
+  })
+
+  it('should store per-cell climate', () => {
+    const storage = new ColumnarStorage(3, 3)
+    storage.setClimate(Season.WINTER, 10)
+    storage.setCellClimate(1, 1, { temperature: 12.5 })
+
+    expect(storage.getCell(0, 0)).toMatchObject({ season: Season.WINTER, temperature: 10 })
+    expect(storage.getCell(1, 1).temperature).toBe(12.5)
+  })
+
+  it('should hand out one cell object per cell and keep it in sync', () => {
+    const storage = new ColumnarStorage(3, 3)
+    const cell = storage.getCell(1, 2)
+
+    storage.setOccupant('sheep', 1, 2, sheepAt('a', 1, 2))
+    storage.setClimate(Season.SUMMER, 25)
+    storage.setTerrain(1, 2, 'forest')
+
+    expect(storage.getCell(1, 2)).toBe(cell)
+    expect(storage.getCells()[1][2]).toBe(cell)
+    expect(cell).toMatchObject({ season: Season.SUMMER, temperature: 25, terrain: 'forest' })
+    expect(cell.sheep?.id).toBe('a')
+
+    storage.clearOccupant('sheep', 1, 2)
+    expect(cell.sheep).toBeUndefined()
+  })
+
+  it('should mirror organism values into typed-array columns', () => {
+    const storage = new ColumnarStorage(3, 3)
+    storage.setOccupant('grass', 2, 1, OrganismFactory.createGrass({ id: 'g', x: 2, y: 1, density: 0.5, age: 4 }))
+    storage.setOccupant('sheep', 0, 1, sheepAt('s', 0, 1))
+
+    const columns = storage.getColumns()
+
+    expect(columns.grass.density[2 * 3 + 1]).toBeCloseTo(0.5)
+    expect(columns.grass.age[2 * 3 + 1]).toBe(4)
+    expect(columns.sheep.energy[1]).toBe(5)
+    expect(columns.sheep.occupancy[1]).toBe(0)
+    expect(columns.wolf.occupancy.every(slot => slot === -1)).toBe(true)
+  })
+})
+
+describe('World storage backends', () => {
+  const runSimulation = (storage: WorldStorageBackend, steps: number) => {
+    const config = mergeWorldConfig(createWorldConfig({ width: 40, height: 40 }), { world: { storage } })
+    const simulation = new SimulationEngine(config, { seed: 21, logSinks: [] })
+    WorldInitializer.createProductionEcosystem(simulation.getWorld(), config, simulation.getRandom())
+    for (let i = 0; i < steps; i++) {
+      simulation.step()
+    }
+    return simulation
+  }
+
+  it('should produce identical runs on grid and columnar storage', () => {
+    const grid = runSimulation('grid', 30).saveSnapshot()
+    const columnar = runSimulation('columnar', 30).saveSnapshot()
+
+    expect(columnar.world).toEqual(grid.world)
+    expect(columnar.rngState).toBe(grid.rngState)
+  })
+
+  it('should only expose typed-array columns for columnar storage', () => {
+    expect(runSimulation('grid', 0).getWorld().getColumns()).toBeNull()
+
+    const world = runSimulation('columnar', 1).getWorld()
+    const occupied = world.getColumns()!.sheep.occupancy.filter(slot => slot !== -1).length
+    expect(occupied).toBe(world.getOrganismsByType('sheep').length)
+  })
+})
@@ -0,0 +1,232 @@
+/**
+ * ColumnarStorage keeps the world as flat typed arrays indexed by cell
+ * (x * height + y) instead of a grid of cell objects:
+ * - occupancy: per species, the slot of the cell's organism in that species' list (-1 when empty)
+ * - temperature/season: per-cell climate
+ * - terrain: per-cell terrain code (see Terrain.TERRAIN_TYPES)
+ * - energy/age/density: numeric mirrors of the organisms, refreshed on demand by getColumns()
+ *   (organisms stay the source of truth, since processors update them in place)
+ *
+ * Each species keeps a dense organism list (swap-removed on death), so counts are O(1)
+ * and enumeration walks one Int32Array instead of every cell object. Cell objects are only
+ * built for cells that are looked up, once, and then kept in sync with the arrays.
+ */
+
+import { WorldCell, Organism, Grass, Sheep, Wolf, Season, TerrainType } from '../types/SimulationTypes'
+import { OrganismKind, WorldStorage } from './WorldStorage'
+import { terrainCode, terrainFromCode } from './Terrain'
+
+const KINDS: OrganismKind[] = ['grass', 'sheep', 'wolf']
+const SEASONS: Season[] = [Season.SPRING, Season.SUMMER, Season.AUTUMN, Season.WINTER]
+
+export interface SpeciesColumns {
+  occupancy: Int32Array;
+  energy: Float32Array;
+  age: Float32Array;
+}
+
+export interface WorldColumns {
+  grass: SpeciesColumns & { density: Float32Array };
+  sheep: SpeciesColumns;
+  wolf: SpeciesColumns;
+}
+
+export class ColumnarStorage implements WorldStorage {
+  private width: number
+  private height: number
+  private occupancy = {} as Record<OrganismKind, Int32Array>
+  private organisms = {} as Record<OrganismKind, Organism[]>
+  // Cell index of each organism, parallel to `organisms`
+  private organismCells = {} as Record<OrganismKind, number[]>
+  private temperature: Float64Array
+  private season: Uint8Array
+  private terrain: Uint8Array
+  private columns: WorldColumns
+  // Cell views handed out by getCell, by cell index; holes for cells never looked up
+  private views: WorldCell[]
+
+  constructor(width: number, height: number) {
+    this.width = width
+    this.height = height
+    const size = width * height
+
+    KINDS.forEach(type => {
+      this.occupancy[type] = new Int32Array(size).fill(-1)
+      this.organisms[type] = []
+      this.organismCells[type] = []
+    })
+    this.temperature = new Float64Array(size).fill(20) // Default temperature
+    this.season = new Uint8Array(size).fill(SEASONS.indexOf(Season.SPRING))
+    this.terrain = new Uint8Array(size) // All grassland
+    this.views = new Array<WorldCell>(size)
+
+    const speciesColumns = (type: OrganismKind): SpeciesColumns => ({
+      occupancy: this.occupancy[type],
+      energy: new Float32Array(size),
+      age: new Float32Array(size)
+    })
+    this.columns = {
+      grass: { ...speciesColumns('grass'), density: new Float32Array(size) },
+      sheep: speciesColumns('sheep'),
+      wolf: speciesColumns('wolf')
+    }
+  }
+
+  public getCell(x: number, y: number): WorldCell {
+    const index = this.indexOf(x, y)
+    return this.views[index] ?? this.createView(x, y, index)
+  }
+
+  /**
+   * The grid as cell objects, kept in sync like getCell's (the first call builds every cell)
+   */
+  public getCells(): WorldCell[][] {
+    const cells: WorldCell[][] = []
+    for (let x = 0; x < this.width; x++) {
+      cells[x] = []
+      for (let y = 0; y < this.height; y++) {
+        cells[x][y] = this.getCell(x, y)
+      }
+    }
+    return cells
+  }
+
+  public getOccupant(type: OrganismKind, x: number, y: number): Organism | undefined {
+    const slot = this.occupancy[type][this.indexOf(x, y)]
+    return slot === -1 ? undefined : this.organisms[type][slot]
+  }
+
+  public setOccupant(type: OrganismKind, x: number, y: number, organism: Organism): void {
+    const index = this.indexOf(x, y)
+    const slot = this.occupancy[type][index]
+    const view = this.views[index]
+    if (view) (view as Partial<Record<OrganismKind, Organism>>)[type] = organism
+
+    if (slot !== -1) {
+      this.organisms[type][slot] = organism
+      return
+    }
+
+    this.occupancy[type][index] = this.organisms[type].length
+    this.organisms[type].push(organism)
+    this.organismCells[type].push(index)
+  }
+
+  public clearOccupant(type: OrganismKind, x: number, y: number): void {
+    const index = this.indexOf(x, y)
+    const slot = this.occupancy[type][index]
+    if (slot === -1) return
+
+    // Swap the last organism into the freed slot to keep the list dense
+    const organisms = this.organisms[type]
+    const cells = this.organismCells[type]
+    const last = organisms.length - 1
+    if (slot !== last) {
+      organisms[slot] = organisms[last]
+      cells[slot] = cells[last]
+      this.occupancy[type][cells[slot]] = slot
+    }
+    organisms.pop()
+    cells.pop()
+    this.occupancy[type][index] = -1
+    const view = this.views[index]
+    if (view) view[type] = undefined
+  }
+
+  public getOrganisms(type: OrganismKind): Organism[] {
+    const occupancy = this.occupancy[type]
+    const organisms = this.organisms[type]
+    const result: Organism[] = []
+
+    for (let index = 0; index < occupancy.length; index++) {
+      const slot = occupancy[index]
+      if (slot !== -1) {
+        result.push(organisms[slot])
+      }
+    }
+
+    return result
+  }
+
+  public count(type: OrganismKind): number {
+    return this.organisms[type].length
+  }
+
+  public setCellClimate(x: number, y: number, climate: { temperature?: number; season?: Season }): void {
+    const index = this.indexOf(x, y)
+    const view = this.views[index]
+    if (climate.temperature !== undefined) {
+      this.temperature[index] = climate.temperature
+      if (view) view.temperature = climate.temperature
+    }
+    if (climate.season !== undefined) {
+      this.season[index] = SEASONS.indexOf(climate.season)
+      if (view) view.season = climate.season
+    }
+  }
+
+  public setClimate(season: Season, temperature: number): void {
+    this.season.fill(SEASONS.indexOf(season))
+    this.temperature.fill(temperature)
+    this.views.forEach(view => {
+      view.season = season
+      view.temperature = temperature
+    })
+  }
+
+  public getTerrain(x: number, y: number): TerrainType {
+    return terrainFromCode(this.terrain[this.indexOf(x, y)])
+  }
+
+  public setTerrain(x: number, y: number, terrain: TerrainType): void {
+    const index = this.indexOf(x, y)
+    this.terrain[index] = terrainCode(terrain)
+    const view = this.views[index]
+    if (view) view.terrain = terrain
+  }
+
+  /**
+   * Typed-array view of the world, with energy/age/density refreshed from the organisms
+   */
+  public getColumns(): WorldColumns {
+    KINDS.forEach(type => {
+      const columns = this.columns[type]
+      columns.energy.fill(0)
+      columns.age.fill(0)
+
+      const cells = this.organismCells[type]
+      this.organisms[type].forEach((organism, slot) => {
+        columns.energy[cells[slot]] = organism.energy
+        columns.age[cells[slot]] = organism.age
+      })
+    })
+
+    const density = this.columns.grass.density
+    density.fill(0)
+    this.organisms.grass.forEach((grass, slot) => {
+      density[this.organismCells.grass[slot]] = (grass as Grass).density
+    })
+
+    return this.columns
+  }
+
+  // Every view has all three occupant keys (undefined when empty) so they share one object shape
+  private createView(x: number, y: number, index: number): WorldCell {
+    const cell: WorldCell = {
+      x,
+      y,
+      temperature: this.temperature[index],
+      season: SEASONS[this.season[index]],
+      terrain: terrainFromCode(this.terrain[index]),
+      grass: this.getOccupant('grass', x, y) as Grass | undefined,
+      sheep: this.getOccupant('sheep', x, y) as Sheep | undefined,
+      wolf: this.getOccupant('wolf', x, y) as Wolf | undefined
+    }
+    this.views[index] = cell
+    return cell
+  }
+
+  private indexOf(x: number, y: number): number {
+    return x * this.height + y
+  }
+}
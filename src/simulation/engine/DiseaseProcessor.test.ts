@@ -0,0 +1,164 @@
+import { describe, it, expect } from 'vitest'
+import { DiseaseProcessor } from './DiseaseProcessor'
+import { World } from './World'
+import { SimulationEngine } from './SimulationEngine'
+import { createWorldConfig, WorldConfig } from '../config/WorldConfig'
+import { OrganismFactory } from '../utils/OrganismFactory'
+import { RandomGenerator } from '../utils/RandomGenerator'
+import { WorldInitializer } from '../utils/WorldInitializer'
+
+const BASE_CONFIG = createWorldConfig({ width: 10, height: 10 })
+
+const createConfig = (disease: Partial<WorldConfig['world']> = {}): WorldConfig => ({
+  ...BASE_CONFIG,
+  world: {
+    ...BASE_CONFIG.world,
+    diseaseOutbreak: true,
+    diseaseProbability: 0,
+    diseaseTransmissionRate: 1,
+    diseaseIncubation: 2,
+    diseaseDuration: 3,
+    diseaseEnergyDrain: 1,
+    diseaseMortality: 0,
+    diseaseImmunity: 2,
+    ...disease
+  }
+})
+
+const createSetup = (config: WorldConfig) => {
+  const world = new World(config)
+  const sheep = OrganismFactory.createSheep({ id: 'a', x: 2, y: 2, energy: 20 })
+  const neighbor = OrganismFactory.createSheep({ id: 'b', x: 3, y: 3, energy: 20 })
+  const distant = OrganismFactory.createWolf({ id: 'w', x: 8, y: 8, energy: 20 })
+  world.setCellContent(2, 2, { sheep })
+  world.setCellContent(3, 3, { sheep: neighbor })
+  world.setCellContent(8, 8, { wolf: distant })
+  return { world, sheep, neighbor, distant, disease: new DiseaseProcessor(world, config, new RandomGenerator(7)) }
+}
+
+describe('DiseaseProcessor', () => {
+  it('should do nothing while outbreaks are off', () => {
+    const { sheep, neighbor, disease } = createSetup(createConfig({ diseaseOutbreak: false, diseaseProbability: 1 }))
+    sheep.infection = { state: 'infectious', stepsRemaining: 3 }
+
+    disease.processDisease()
+
+    expect(sheep.infection).toEqual({ state: 'infectious', stepsRemaining: 3 })
+    expect(neighbor.infection).toBeUndefined()
+  })
+
+  it('should start outbreaks spontaneously', () => {
+    const { sheep, distant, disease } = createSetup(createConfig({ diseaseProbability: 1 }))
+
+    disease.processDisease()
+
+    expect(sheep.infection).toEqual({ state: 'exposed', stepsRemaining: 2 })
+    expect(distant.infection?.state).toBe('exposed')
+  })
+
+  it('should spread to neighboring cells only', () => {
+    const { sheep, neighbor, distant, disease } = createSetup(createConfig())
+    sheep.infection = { state: 'infectious', stepsRemaining: 3 }
+
+    disease.processDisease()
+
+    expect(neighbor.infection?.state).toBe('exposed')
+    expect(distant.infection).toBeUndefined()
+  })
+
+  it('should incubate, drain energy, then recover with immunity that wears off', () => {
+    const { sheep, disease } = createSetup(createConfig({ diseaseTransmissionRate: 0 }))
+    sheep.infection = { state: 'exposed', stepsRemaining: 2 }
+
+    const states: string[] = []
+    for (let i = 0; i < 8; i++) {
+      disease.processDisease()
+      states.push(sheep.infection?.state ?? 'susceptible')
+    }
+
+    expect(states).toEqual([
+      'exposed', 'infectious', 'infectious', 'infectious', 'recovered', 'recovered', 'susceptible', 'susceptible'
+    ])
+    expect(sheep.energy).toBe(17)
+  })
+
+  it('should record disease deaths and remove the animal', () => {
+    const { world, sheep, disease } = createSetup(createConfig({ diseaseMortality: 1, diseaseTransmissionRate: 0 }))
+    sheep.infection = { state: 'infectious', stepsRemaining: 3 }
+
+    disease.processDisease()
+
+    expect(sheep.isAlive).toBe(false)
+    expect(world.hasOrganism(2, 2, 'sheep')).toBe(false)
+    expect(world.getDeathStatistics().deathsByCause.disease).toBe(1)
+  })
+
+  it('should carry default-energy animals through the whole cycle with the default settings', () => {
+    const defaults = BASE_CONFIG.world
+    const config = createConfig({
+      diseaseIncubation: defaults.diseaseIncubation,
+      diseaseDuration: defaults.diseaseDuration,
+      diseaseEnergyDrain: defaults.diseaseEnergyDrain,
+      diseaseImmunity: defaults.diseaseImmunity,
+      diseaseTransmissionRate: 0
+    })
+    const world = new World(config)
+    const sheep = OrganismFactory.createSheep({ id: 'a', x: 2, y: 2 })
+    world.setCellContent(2, 2, { sheep })
+    const disease = new DiseaseProcessor(world, config, new RandomGenerator(7))
+    sheep.infection = { state: 'exposed', stepsRemaining: defaults.diseaseIncubation }
+
+    const states = new Set<string>()
+    for (let i = 0; i < defaults.diseaseIncubation + defaults.diseaseDuration + defaults.diseaseImmunity; i++) {
+      disease.processDisease()
+      states.add(sheep.infection?.state ?? 'susceptible')
+    }
+
+    expect([...states]).toEqual(['exposed', 'infectious', 'recovered', 'susceptible'])
+    expect(sheep.isAlive).toBe(true)
+    expect(sheep.energy).toBeCloseTo(0.8 - defaults.diseaseDuration * defaults.diseaseEnergyDrain)
+    expect(defaults.diseaseEnergyDrain).toBeLessThan(config.sheep.energyPerStep)
+  })
+
+  it('should record animals the drain exhausts as disease deaths', () => {
+    const { world, sheep, disease } = createSetup(createConfig({ diseaseTransmissionRate: 0 }))
+    sheep.energy = 0.5
+    sheep.infection = { state: 'infectious', stepsRemaining: 3 }
+
+    disease.processDisease()
+
+    expect(sheep.isAlive).toBe(false)
+    expect(world.getDeathStatistics().deathsByCause).toEqual({ disease: 1 })
+  })
+
+  it('should count infected and immune animals in the statistics', () => {
+    const { world, sheep, neighbor, distant } = createSetup(createConfig())
+    sheep.infection = { state: 'exposed', stepsRemaining: 1 }
+    neighbor.infection = { state: 'recovered', stepsRemaining: 5 }
+    distant.infection = { state: 'infectious', stepsRemaining: 2 }
+
+    world.updateStatistics()
+
+    expect(world.getState().statistics).toMatchObject({ infectedSheep: 1, immuneSheep: 1, infectedWolves: 1, immuneWolves: 0 })
+  })
+
+  it('should run outbreaks through the engine reproducibly', () => {
+    const base = createWorldConfig({ width: 30, height: 30 })
+    const config = { ...base, world: { ...base.world, diseaseOutbreak: true, diseaseProbability: 0.01 } }
+    const run = () => {
+      const engine = new SimulationEngine(config, { seed: 11 })
+      WorldInitializer.createProductionEcosystem(engine.getWorld(), config, engine.getRandom())
+      const infected: number[] = []
+      for (let i = 0; i < 30; i++) {
+        engine.step()
+        infected.push(engine.getStatistics().infectedSheep)
+      }
+      return infected
+    }
+
+    const infected = run()
+
+    expect(Math.max(...infected)).toBeGreaterThan(0)
+    expect(run()).toEqual(infected)
+  })
+})
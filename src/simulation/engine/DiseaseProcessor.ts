@@ -0,0 +1,111 @@
+/**
+ * DiseaseProcessor runs an SIR-style infection among sheep and wolves while world.diseaseOutbreak is on.
+ * Susceptible animals catch it spontaneously or from an infectious animal in a neighboring cell, incubate it,
+ * then lose energy while infectious until they die of it (or of the energy it drains) or recover with immunity that wears off.
+ */
+
+import { WorldConfig } from '../config/WorldConfig'
+import { World } from './World'
+import { RandomGenerator } from '../utils/RandomGenerator'
+import { Sheep, Wolf } from '../types/SimulationTypes'
+
+type Animal = Sheep | Wolf
+type AnimalKind = 'sheep' | 'wolf'
+
+const ANIMAL_KINDS: AnimalKind[] = ['sheep', 'wolf']
+
+export class DiseaseProcessor {
+  private world: World
+  private config: WorldConfig
+  private rng: RandomGenerator
+
+  constructor(world: World, config: WorldConfig, rng: RandomGenerator = new RandomGenerator()) {
+    this.world = world
+    this.config = config
+    this.rng = rng
+  }
+
+  /**
+   * Use an updated config for subsequent disease steps
+   */
+  public setConfig(config: WorldConfig): void {
+    this.config = config
+  }
+
+  /**
+   * Advance every infection by one step, then spread the disease by contact and start new outbreaks
+   */
+  public processDisease(): void {
+    if (!this.config.world.diseaseOutbreak) return
+
+    ANIMAL_KINDS.forEach(kind => {
+      (this.world.getOrganismsByType(kind) as Animal[]).forEach(animal => this.progress(animal, kind))
+    })
+
+    const infectious = ANIMAL_KINDS.flatMap(kind => this.world.getOrganismsByType(kind) as Animal[])
+      .filter(animal => animal.infection?.state === 'infectious')
+    infectious.forEach(carrier => this.transmit(carrier))
+
+    ANIMAL_KINDS.forEach(kind => {
+      (this.world.getOrganismsByType(kind) as Animal[]).forEach(animal => {
+        if (!animal.infection && this.rng.next() < this.config.world.diseaseProbability) {
+          this.infect(animal)
+        }
+      })
+    })
+  }
+
+  private progress(animal: Animal, kind: AnimalKind): void {
+    const infection = animal.infection
+    if (!infection) return
+
+    infection.stepsRemaining--
+
+    if (infection.state === 'exposed') {
+      if (infection.stepsRemaining <= 0) {
+        animal.infection = { state: 'infectious', stepsRemaining: this.config.world.diseaseDuration }
+      }
+      return
+    }
+
+    if (infection.state === 'recovered') {
+      if (infection.stepsRemaining <= 0) {
+        delete animal.infection
+      }
+      return
+    }
+
+    const sickFor = this.config.world.diseaseDuration - infection.stepsRemaining
+    animal.energy -= this.config.world.diseaseEnergyDrain
+    if (animal.energy <= 0) {
+      this.die(animal, kind, `Wasted away after ${sickFor} infectious steps`)
+    } else if (this.rng.next() < this.config.world.diseaseMortality) {
+      this.die(animal, kind, `Died after ${sickFor} infectious steps`)
+    } else if (infection.stepsRemaining <= 0) {
+      animal.infection = { state: 'recovered', stepsRemaining: this.config.world.diseaseImmunity }
+    }
+  }
+
+  private die(animal: Animal, kind: AnimalKind, details: string): void {
+    animal.isAlive = false
+    this.world.removeOrganism(animal.x, animal.y, kind)
+    this.world.recordDeath(animal, 'disease', details)
+  }
+
+  /**
+   * Give each susceptible animal in the cells around an infectious one a chance of catching it
+   */
+  private transmit(carrier: Animal): void {
+    ANIMAL_KINDS.forEach(kind => {
+      (this.world.findNearby(kind, carrier.x, carrier.y, 1) as Animal[]).forEach(neighbor => {
+        if (neighbor !== carrier && !neighbor.infection && this.rng.next() < this.config.world.diseaseTransmissionRate) {
+          this.infect(neighbor)
+        }
+      })
+    })
+  }
+
+  private infect(animal: Animal): void {
+    animal.infection = { state: 'exposed', stepsRemaining: this.config.world.diseaseIncubation }
+  }
+}
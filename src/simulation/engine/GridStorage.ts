@@ -0,0 +1,98 @@
+/**
+ * GridStorage keeps the world as a WorldCell[][] of objects, with organisms
+ * stored on their cells. Enumerating a species scans every cell.
+ */
+
+import { WorldCell, Organism, Season, TerrainType } from '../types/SimulationTypes'
+import { OrganismKind, WorldStorage } from './WorldStorage'
+
+export class GridStorage implements WorldStorage {
+  private width: number
+  private height: number
+  private cells: WorldCell[][] = []
+
+  constructor(width: number, height: number) {
+    this.width = width
+    this.height = height
+
+    for (let x = 0; x < width; x++) {
+      this.cells[x] = []
+      for (let y = 0; y < height; y++) {
+        this.cells[x][y] = {
+          x,
+          y,
+          temperature: 20, // Default temperature
+          season: Season.SPRING,
+          terrain: 'grassland'
+        }
+      }
+    }
+  }
+
+  public getCell(x: number, y: number): WorldCell {
+    return this.cells[x][y]
+  }
+
+  public getCells(): WorldCell[][] {
+    return this.cells
+  }
+
+  public getOccupant(type: OrganismKind, x: number, y: number): Organism | undefined {
+    return this.cells[x][y][type]
+  }
+
+  public setOccupant(type: OrganismKind, x: number, y: number, organism: Organism): void {
+    Object.assign(this.cells[x][y], { [type]: organism })
+  }
+
+  public clearOccupant(type: OrganismKind, x: number, y: number): void {
+    delete this.cells[x][y][type]
+  }
+
+  public getOrganisms(type: OrganismKind): Organism[] {
+    const organisms: Organism[] = []
+
+    for (let x = 0; x < this.width; x++) {
+      for (let y = 0; y < this.height; y++) {
+        const occupant = this.cells[x][y][type]
+        if (occupant) {
+          organisms.push(occupant)
+        }
+      }
+    }
+
+    return organisms
+  }
+
+  public count(type: OrganismKind): number {
+    return this.getOrganisms(type).length
+  }
+
+  public setCellClimate(x: number, y: number, climate: { temperature?: number; season?: Season }): void {
+    const cell = this.cells[x][y]
+    if (climate.temperature !== undefined) {
+      cell.temperature = climate.temperature
+    }
+    if (climate.season !== undefined) {
+      cell.season = climate.season
+    }
+  }
+
+  public setClimate(season: Season, temperature: number): void {
+    for (let x = 0; x < this.width; x++) {
+      for (let y = 0; y < this.height; y++) {
+        const cell = this.cells[x][y]
+        cell.season = season
+        cell.temperature = temperature
+      }
+    }
+  }
+
+  public getTerrain(x: number, y: number): TerrainType {
+    return this.cells[x][y].terrain
+  }
+
+  public setTerrain(x: number, y: number, terrain: TerrainType): void {
+    this.cells[x][y].terrain = terrain
+  }
+}
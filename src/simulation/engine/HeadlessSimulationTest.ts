@@ -45,12 +45,17 @@ export class HeadlessSimulationTest {
     const world = this.simulation.getWorld()
     
     // Use centralized initialization with production config
-    WorldInitializer.createProductionEcosystem(world, WORLD_CONFIG)
+    WorldInitializer.createProductionEcosystem(world, WORLD_CONFIG, this.simulation.getRandom())
+  }
+
+  // Report output goes through the simulation's logger like all other analysis logging
+  private log(message: string): void {
+    this.simulation.getLogger().info('analysis', message)
   }
 
   public runAnalysis(): SimulationAnalysis {
-    console.log('🔬 Starting headless simulation analysis...')
-    console.log(`📊 Target: ${this.maxSteps} steps`)
+    this.log('🔬 Starting headless simulation analysis...')
+    this.log(`📊 Target: ${this.maxSteps} steps`)
     
     let extinctionStep: number | undefined
     let extinctionCause: string | undefined
@@ -70,29 +75,29 @@ export class HeadlessSimulationTest {
       if (stats.sheepCount === 0 && !extinctionStep) {
         extinctionStep = step
         extinctionCause = 'sheep_extinction'
-        console.log(`⚠️  Sheep extinction at step ${step}`)
+        this.log(`⚠️  Sheep extinction at step ${step}`)
       }
       
       if (stats.wolfCount === 0 && !extinctionStep) {
         extinctionStep = step
         extinctionCause = 'wolf_extinction'
-        console.log(`⚠️  Wolf extinction at step ${step}`)
+        this.log(`⚠️  Wolf extinction at step ${step}`)
       }
       
       if (stats.grassCount === 0 && !extinctionStep) {
         extinctionStep = step
         extinctionCause = 'grass_extinction'
-        console.log(`⚠️  Grass extinction at step ${step}`)
+        this.log(`⚠️  Grass extinction at step ${step}`)
       }
       
       // Log every 10 steps
       if (step % 10 === 0) {
-        console.log(`Step ${step}: Grass=${stats.grassCount}, Sheep=${stats.sheepCount}, Wolves=${stats.wolfCount}`)
+        this.log(`Step ${step}: Grass=${stats.grassCount}, Sheep=${stats.sheepCount}, Wolves=${stats.wolfCount}`)
       }
       
       // Stop if all species extinct
       if (stats.grassCount === 0 && stats.sheepCount === 0 && stats.wolfCount === 0) {
-        console.log(`💀 Total extinction at step ${step}`)
+        this.log(`💀 Total extinction at step ${step}`)
         break
       }
     }
@@ -100,22 +105,22 @@ export class HeadlessSimulationTest {
     const finalStats = this.simulation.getStatistics()
     const deathStats = this.simulation.getWorld().getDeathStatistics()
     
-    console.log('\n📈 Final Results:')
-    console.log(`Final Step: ${finalStats.totalSteps}`)
-    console.log(`Final Populations: Grass=${finalStats.grassCount}, Sheep=${finalStats.sheepCount}, Wolves=${finalStats.wolfCount}`)
-    console.log(`Total Deaths: ${deathStats.totalDeaths}`)
-    console.log(`Sheep Deaths: ${deathStats.sheepDeaths}`)
-    console.log(`Wolf Deaths: ${deathStats.wolfDeaths}`)
-    console.log(`Grass Deaths: ${deathStats.grassDeaths}`)
+    this.log('\n📈 Final Results:')
+    this.log(`Final Step: ${finalStats.totalSteps}`)
+    this.log(`Final Populations: Grass=${finalStats.grassCount}, Sheep=${finalStats.sheepCount}, Wolves=${finalStats.wolfCount}`)
+    this.log(`Total Deaths: ${deathStats.totalDeaths}`)
+    this.log(`Sheep Deaths: ${deathStats.sheepDeaths}`)
+    this.log(`Wolf Deaths: ${deathStats.wolfDeaths}`)
+    this.log(`Grass Deaths: ${deathStats.grassDeaths}`)
     
-    console.log('\n💀 Death Causes:')
+    this.log('\n💀 Death Causes:')
     Object.entries(deathStats.deathsByCause).forEach(([cause, count]) => {
-      console.log(`  ${cause}: ${count}`)
+      this.log(`  ${cause}: ${count}`)
     })
     
-    console.log('\n🎯 Death by Type:')
+    this.log('\n🎯 Death by Type:')
     Object.entries(deathStats.deathsByType).forEach(([type, count]) => {
-      console.log(`  ${type}: ${count}`)
+      this.log(`  ${type}: ${count}`)
     })
     
     return {
@@ -133,11 +138,11 @@ export class HeadlessSimulationTest {
   }
 
   public runMultipleTests(count: number = 5): Array<SimulationAnalysis> {
-    console.log(`🧪 Running ${count} simulation tests...`)
+    this.log(`🧪 Running ${count} simulation tests...`)
     const results: Array<SimulationAnalysis> = []
     
     for (let i = 0; i < count; i++) {
-      console.log(`\n--- Test ${i + 1}/${count} ---`)
+      this.log(`\n--- Test ${i + 1}/${count} ---`)
       this.simulation = new SimulationEngine(WORLD_CONFIG)
       this.populationHistory = []
       this.initializeWorld()
@@ -145,19 +150,19 @@ export class HeadlessSimulationTest {
     }
     
     // Analyze results
-    console.log('\n📊 Aggregate Analysis:')
+    this.log('\n📊 Aggregate Analysis:')
     const avgFinalStep = results.reduce((sum, r) => sum + r.finalStep, 0) / results.length
     const avgSheepDeaths = results.reduce((sum, r) => sum + r.deathStats.sheepDeaths, 0) / results.length
     const avgWolfDeaths = results.reduce((sum, r) => sum + r.deathStats.wolfDeaths, 0) / results.length
     const avgGrassDeaths = results.reduce((sum, r) => sum + r.deathStats.grassDeaths, 0) / results.length
     
-    console.log(`Average Final Step: ${avgFinalStep.toFixed(1)}`)
-    console.log(`Average Sheep Deaths: ${avgSheepDeaths.toFixed(1)}`)
-    console.log(`Average Wolf Deaths: ${avgWolfDeaths.toFixed(1)}`)
-    console.log(`Average Grass Deaths: ${avgGrassDeaths.toFixed(1)}`)
+    this.log(`Average Final Step: ${avgFinalStep.toFixed(1)}`)
+    this.log(`Average Sheep Deaths: ${avgSheepDeaths.toFixed(1)}`)
+    this.log(`Average Wolf Deaths: ${avgWolfDeaths.toFixed(1)}`)
+    this.log(`Average Grass Deaths: ${avgGrassDeaths.toFixed(1)}`)
     
     const extinctionCount = results.filter(r => r.extinctionStep !== undefined).length
-    console.log(`Extinction Rate: ${extinctionCount}/${count} (${(extinctionCount/count*100).toFixed(1)}%)`)
+    this.log(`Extinction Rate: ${extinctionCount}/${count} (${(extinctionCount/count*100).toFixed(1)}%)`)
     
     return results
   }
@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest'
+import { generateLandscape, LandscapeOptions } from './Landscape'
+import { TerrainMap } from './Terrain'
+import { World } from './World'
+import { SimulationEngine } from './SimulationEngine'
+import { createWorldConfig, WorldConfig } from '../config/WorldConfig'
+import { RandomGenerator } from '../utils/RandomGenerator'
+import { WorldInitializer } from '../utils/WorldInitializer'
+import { Grass } from '../types/SimulationTypes'
+
+const COVERAGE = { fertile: 0.2, poor: 0.2, rock: 0.05, water: 0.1, forest: 0.1 }
+
+const OPTIONS: LandscapeOptions = { patchiness: 0.5, fragmentation: 0.3, coverage: COVERAGE }
+
+const generate = (options: Partial<LandscapeOptions> = {}, seed = 3) =>
+  generateLandscape(40, 30, new RandomGenerator(seed), { ...OPTIONS, ...options })
+
+// Neighbouring cell pairs with different terrain: longer for smaller, more broken-up patches
+const boundaryLength = ({ width, height, cells }: TerrainMap): number => {
+  let length = 0
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (x + 1 < width && cells[y * width + x] !== cells[y * width + x + 1]) length++
+      if (y + 1 < height && cells[y * width + x] !== cells[(y + 1) * width + x]) length++
+    }
+  }
+  return length
+}
+
+const createLandscapeConfig = (): WorldConfig => {
+  const base = createWorldConfig({ width: 30, height: 30 })
+  return { ...base, terrain: { ...base.terrain, source: 'landscape', coverage: COVERAGE } }
+}
+
+describe('Landscape', () => {
+  it('should be reproducible from the seed', () => {
+    expect(generate()).toEqual(generate())
+    expect(generate({}, 4).terrain).not.toEqual(generate().terrain)
+  })
+
+  it('should cover each type with its configured share', () => {
+    const { terrain } = generate()
+    const count = (type: string) => terrain.cells.filter(cell => cell === type).length
+
+    expect([count('fertile'), count('poor'), count('rock'), count('water'), count('forest')]).toEqual([240, 240, 60, 120, 120])
+  })
+
+  it('should put water in the lowest ground and rock on the highest', () => {
+    const { elevation, terrain } = generate()
+    const elevations = (type: string) => terrain.cells.flatMap((cell, i) => (cell === type ? [elevation[i]] : []))
+
+    expect(Math.max(...elevations('water'))).toBeLessThan(Math.min(...elevations('rock')))
+    ;[elevation, generate().fertility].forEach(layer => {
+      expect(Math.min(...layer)).toBe(0)
+      expect(Math.max(...layer)).toBe(1)
+    })
+  })
+
+  it('should break the ground into more, smaller patches as patchiness and fragmentation rise', () => {
+    const broad = boundaryLength(generate({ patchiness: 0, fragmentation: 0 }).terrain)
+
+    expect(boundaryLength(generate({ patchiness: 1, fragmentation: 0 }).terrain)).toBeGreaterThan(broad)
+    expect(boundaryLength(generate({ patchiness: 0, fragmentation: 1 }).terrain)).toBeGreaterThan(broad)
+  })
+
+  it('should place organisms by habitat suitability', () => {
+    const config = createLandscapeConfig()
+    const world = new World(config)
+
+    WorldInitializer.createProductionEcosystem(world, config, new RandomGenerator(8))
+
+    const grass = world.getOrganismsByType('grass') as Grass[]
+    const animals = [...world.getOrganismsByType('sheep'), ...world.getOrganismsByType('wolf')]
+    const share = (type: string) => grass.filter(g => world.getTerrain(g.x, g.y) === type).length / grass.length
+    expect(grass).toHaveLength(Math.floor(900 * config.initialGrassCoverage))
+    expect(animals).toHaveLength(config.initialSheepCount + config.initialWolfCount)
+    expect(share('fertile')).toBeGreaterThan(share('poor'))
+    grass.forEach(g => expect(world.getTerrainEffects(g.x, g.y).maxDensity).toBeGreaterThan(0))
+    animals.forEach(animal => expect(world.getTerrainEffects(animal.x, animal.y).passable).toBe(true))
+  })
+
+  it('should set up the same world for the same engine seed', () => {
+    const config = createLandscapeConfig()
+    const setUp = () => {
+      const engine = new SimulationEngine(config, { seed: 21 })
+      WorldInitializer.createProductionEcosystem(engine.getWorld(), config, engine.getRandom())
+      return engine.getWorld().exportSnapshot()
+    }
+
+    expect(setUp()).toEqual(setUp())
+  })
+})
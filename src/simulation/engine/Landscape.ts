@@ -0,0 +1,129 @@
+/**
+ * Landscapes: terrain laid out from seeded smooth noise, so the ground forms connected regions
+ * (lakes in the low ground, rocky heights, stretches of rich or poor soil, woods) instead of the
+ * scattered clumps generateTerrain makes
+ */
+
+import { TerrainType } from '../types/SimulationTypes'
+import { RandomGenerator } from '../utils/RandomGenerator'
+import { TerrainMap } from './Terrain'
+
+// Layers of detail in each noise field, each with features half the size of the one before
+const OCTAVES = 4
+
+// How much valley floors enrich the soil, against the soil's own noise
+const VALLEY_FERTILITY = 0.3
+
+export interface LandscapeOptions {
+  patchiness: number;     // 0 = a few broad regions, 1 = many small patches
+  fragmentation: number;  // 0 = smooth patch edges, 1 = ragged, broken-up patches
+  coverage: Partial<Record<TerrainType, number>>; // Share of cells each type covers
+}
+
+// Layers hold one value in 0..1 per cell, row-major like TerrainMap
+export interface Landscape {
+  elevation: Float32Array;
+  fertility: Float32Array;
+  canopy: Float32Array;
+  terrain: TerrainMap;
+}
+
+const smoothstep = (t: number): number => t * t * (3 - 2 * t)
+
+/**
+ * Random values on a lattice `spacing` cells apart, smoothly interpolated in between
+ */
+const valueNoise = (width: number, height: number, spacing: number, rng: RandomGenerator): Float32Array => {
+  const columns = Math.ceil(width / spacing) + 1
+  const rows = Math.ceil(height / spacing) + 1
+  const lattice = Float32Array.from({ length: columns * rows }, () => rng.next())
+  const at = (column: number, row: number) => lattice[row * columns + column]
+
+  const field = new Float32Array(width * height)
+  for (let y = 0; y < height; y++) {
+    const row = Math.floor(y / spacing)
+    const ty = smoothstep(y / spacing - row)
+    for (let x = 0; x < width; x++) {
+      const column = Math.floor(x / spacing)
+      const tx = smoothstep(x / spacing - column)
+      const top = at(column, row) + (at(column + 1, row) - at(column, row)) * tx
+      const bottom = at(column, row + 1) + (at(column + 1, row + 1) - at(column, row + 1)) * tx
+      field[y * width + x] = top + (bottom - top) * ty
+    }
+  }
+  return field
+}
+
+const normalize = (field: Float32Array): Float32Array => {
+  let min = Infinity
+  let max = -Infinity
+  field.forEach(value => {
+    min = Math.min(min, value)
+    max = Math.max(max, value)
+  })
+  const range = max - min
+  return field.map(value => (range > 0 ? (value - min) / range : 0))
+}
+
+/**
+ * Octaves of value noise: patchiness sets the size of the broadest features, fragmentation how
+ * strongly the finer octaves break up their edges
+ */
+const noiseField = (width: number, height: number, rng: RandomGenerator, options: LandscapeOptions): Float32Array => {
+  const field = new Float32Array(width * height)
+  let spacing = Math.max(2, Math.round(Math.min(width, height) / (2 + options.patchiness * 10)))
+  let amplitude = 1
+
+  for (let octave = 0; octave < OCTAVES; octave++) {
+    const layer = valueNoise(width, height, spacing, rng)
+    field.forEach((value, i) => { field[i] = value + layer[i] * amplitude })
+    spacing = Math.max(1, spacing / 2)
+    amplitude *= options.fragmentation * 0.7
+  }
+  return normalize(field)
+}
+
+// Cell indices from the lowest to the highest value of a layer
+const rankCells = (layer: Float32Array): number[] =>
+  Array.from(layer.keys()).sort((a, b) => layer[a] - layer[b] || a - b)
+
+// Turn the first cells in `order` that are still grassland into `type` until it covers its share
+const claim = (cells: TerrainType[], order: number[], type: TerrainType, share: number = 0): void => {
+  let remaining = Math.floor(share * cells.length)
+  for (let i = 0; i < order.length && remaining > 0; i++) {
+    if (cells[order[i]] === 'grassland') {
+      cells[order[i]] = type
+      remaining--
+    }
+  }
+}
+
+/**
+ * Generate elevation, soil fertility and tree canopy from the seed and derive terrain from them:
+ * water fills the lowest ground and rock the highest, forest grows under the densest canopy, and
+ * the richest and poorest soils of what is left become fertile and poor ground
+ */
+export const generateLandscape = (
+  width: number,
+  height: number,
+  rng: RandomGenerator,
+  options: LandscapeOptions
+): Landscape => {
+  const elevation = noiseField(width, height, rng, options)
+  const soil = noiseField(width, height, rng, options)
+  const canopy = noiseField(width, height, rng, options)
+  const fertility = normalize(soil.map((value, i) => value * (1 - VALLEY_FERTILITY) + (1 - elevation[i]) * VALLEY_FERTILITY))
+
+  const cells = new Array<TerrainType>(width * height).fill('grassland')
+  const byElevation = rankCells(elevation)
+  const byFertility = rankCells(fertility)
+  const { coverage } = options
+
+  claim(cells, byElevation, 'water', coverage.water)
+  claim(cells, byElevation.slice().reverse(), 'rock', coverage.rock)
+  claim(cells, rankCells(canopy).reverse(), 'forest', coverage.forest)
+  claim(cells, byFertility.slice().reverse(), 'fertile', coverage.fertile)
+  claim(cells, byFertility, 'poor', coverage.poor)
+
+  return { elevation, fertility, canopy, terrain: { width, height, cells } }
+}
@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest'
+import { MigrationProcessor } from './MigrationProcessor'
+import { World } from './World'
+import { SimulationEngine } from './SimulationEngine'
+import { createWorldConfig, WorldConfig } from '../config/WorldConfig'
+import { OrganismFactory } from '../utils/OrganismFactory'
+import { RandomGenerator } from '../utils/RandomGenerator'
+import { Sheep, Wolf } from '../types/SimulationTypes'
+
+const BASE_CONFIG = createWorldConfig({ width: 8, height: 6 })
+
+const createConfig = (world: Partial<WorldConfig['world']> = {}): WorldConfig => ({
+  ...BASE_CONFIG,
+  world: {
+    ...BASE_CONFIG.world,
+    migrationEnabled: true,
+    emigrationRate: 1,
+    immigration: { ...BASE_CONFIG.world.immigration, sheepRate: 0, wolfRate: 0 },
+    ...world
+  }
+})
+
+const createSetup = (config: WorldConfig) => {
+  const world = new World(config)
+  return { world, migration: new MigrationProcessor(world, config, new RandomGenerator(3)) }
+}
+
+const isOnEdge = (x: number, y: number) => x === 0 || y === 0 || x === 7 || y === 5
+
+describe('MigrationProcessor', () => {
+  it('should let an animal walking off an edge leave and count it', () => {
+    const { world, migration } = createSetup(createConfig())
+    const sheep = OrganismFactory.createSheep({ id: 's', x: 0, y: 2 })
+    world.setCellContent(0, 2, { sheep })
+
+    expect(migration.tryEmigrate(sheep, 'sheep', 1, 2)).toBe(false)
+    expect(migration.tryEmigrate(sheep, 'sheep', -1, 2)).toBe(true)
+
+    expect(sheep.isAlive).toBe(false)
+    expect(world.hasOrganism(0, 2, 'sheep')).toBe(false)
+    expect(world.getState().statistics.migration.sheepEmigrated).toBe(1)
+    expect(world.getDeathStatistics().totalDeaths).toBe(0)
+  })
+
+  it('should keep the world closed while migration is off', () => {
+    const { world, migration } = createSetup(createConfig({ migrationEnabled: false }))
+    const wolf = OrganismFactory.createWolf({ id: 'w', x: 7, y: 5 })
+    world.setCellContent(7, 5, { wolf })
+
+    expect(migration.tryEmigrate(wolf, 'wolf', 8, 6)).toBe(false)
+    migration.processImmigration(1)
+
+    expect(world.hasOrganism(7, 5, 'wolf')).toBe(true)
+    expect(world.getState().statistics.migration).toEqual({ sheepEmigrated: 0, wolvesEmigrated: 0, sheepImmigrated: 0, wolvesImmigrated: 0 })
+  })
+
+  it('should bring in immigrants with the configured traits at edge cells', () => {
+    const immigration = { ...BASE_CONFIG.world.immigration, sheepRate: 1, wolfRate: 1, sheepEnergy: 2, wolfEnergy: 3, sheepAge: 12, wolfAge: 25 }
+    const { world, migration } = createSetup(createConfig({ immigration }))
+
+    for (let step = 1; step <= 4; step++) {
+      migration.processImmigration(step)
+    }
+
+    const sheep = world.getOrganismsByType('sheep') as Sheep[]
+    const wolves = world.getOrganismsByType('wolf') as Wolf[]
+    expect(sheep).toHaveLength(4)
+    expect(wolves).toHaveLength(4)
+    sheep.forEach(s => expect(s).toMatchObject({ energy: 2, age: 12, grazingEfficiency: immigration.grazingEfficiency }))
+    wolves.forEach(w => expect(w).toMatchObject({ energy: 3, age: 25 }))
+    ;[...sheep, ...wolves].forEach(animal => expect(isOnEdge(animal.x, animal.y)).toBe(true))
+    expect(world.getState().statistics.migration).toMatchObject({ sheepImmigrated: 4, wolvesImmigrated: 4 })
+  })
+
+  it('should populate an empty world through the engine', () => {
+    const config = createConfig({ immigration: { ...BASE_CONFIG.world.immigration, sheepRate: 1, wolfRate: 0 } })
+    const engine = new SimulationEngine(config, { seed: 5 })
+
+    engine.step()
+
+    expect(engine.getStatistics().sheepCount).toBe(1)
+    expect(engine.getStatistics().migration.sheepImmigrated).toBe(1)
+  })
+})
@@ -0,0 +1,108 @@
+/**
+ * MigrationProcessor opens the world edges while world.migrationEnabled is on: animals wandering
+ * off an edge may leave, and new sheep and wolves arrive at free edge cells, so a local extinction
+ * can be reversed by immigrants from the (implied) surrounding population
+ */
+
+import { WorldConfig } from '../config/WorldConfig'
+import { World } from './World'
+import { RandomGenerator } from '../utils/RandomGenerator'
+import { OrganismFactory } from '../utils/OrganismFactory'
+import { Sheep, Wolf } from '../types/SimulationTypes'
+
+type AnimalKind = 'sheep' | 'wolf'
+
+// Random edge cells tried before giving up on an arrival for this step
+const ARRIVAL_ATTEMPTS = 5
+
+/**
+ * Cell at a position along the edge: the top row, the bottom row, then the left and right columns between them
+ */
+const edgeCell = (index: number, width: number, height: number): { x: number; y: number } => {
+  if (index < width) return { x: index, y: 0 }
+  if (index < width * 2 && height > 1) return { x: index - width, y: height - 1 }
+
+  const side = index - width * 2
+  const sideHeight = height - 2
+  return side < sideHeight ? { x: 0, y: side + 1 } : { x: width - 1, y: side - sideHeight + 1 }
+}
+
+export class MigrationProcessor {
+  private world: World
+  private config: WorldConfig
+  private rng: RandomGenerator
+
+  constructor(world: World, config: WorldConfig, rng: RandomGenerator = new RandomGenerator()) {
+    this.world = world
+    this.config = config
+    this.rng = rng
+  }
+
+  /**
+   * Use an updated config for subsequent migration
+   */
+  public setConfig(config: WorldConfig): void {
+    this.config = config
+  }
+
+  /**
+   * Whether an animal heading for (x, y) off the grid leaves the world; an emigrant is removed and counted
+   */
+  public tryEmigrate(animal: Sheep | Wolf, kind: AnimalKind, x: number, y: number): boolean {
+    if (!this.config.world.migrationEnabled || this.world.getBoundary().contains(x, y)) return false
+    if (this.rng.next() >= this.config.world.emigrationRate) return false
+
+    animal.isAlive = false // Gone from this world, so batches holding it skip it
+    this.world.removeOrganism(animal.x, animal.y, kind)
+    this.world.recordMigration(kind, 'emigrated')
+    return true
+  }
+
+  /**
+   * Let at most one sheep and one wolf arrive this step, each with its configured chance
+   */
+  public processImmigration(step: number): void {
+    if (!this.config.world.migrationEnabled) return
+
+    const immigration = this.config.world.immigration
+    if (this.rng.next() < immigration.sheepRate) this.immigrate('sheep', step)
+    if (this.rng.next() < immigration.wolfRate) this.immigrate('wolf', step)
+  }
+
+  private immigrate(kind: AnimalKind, step: number): void {
+    const cell = this.findFreeEdgeCell()
+    if (!cell) return
+
+    const immigration = this.config.world.immigration
+    const id = `${kind}-immigrant-${step}-${this.rng.nextId()}`
+    if (kind === 'sheep') {
+      const sheep = OrganismFactory.createSheep({
+        id,
+        ...cell,
+        energy: immigration.sheepEnergy,
+        age: immigration.sheepAge,
+        grazingEfficiency: immigration.grazingEfficiency
+      })
+      this.world.setCellContent(cell.x, cell.y, { sheep })
+    } else {
+      const wolf = OrganismFactory.createWolf({ id, ...cell, energy: immigration.wolfEnergy, age: immigration.wolfAge })
+      this.world.setCellContent(cell.x, cell.y, { wolf })
+    }
+    this.world.recordMigration(kind, 'immigrated')
+  }
+
+  private findFreeEdgeCell(): { x: number; y: number } | null {
+    const width = this.world.getWidth()
+    const height = this.world.getHeight()
+    const edgeLength = height > 1 ? width * 2 + Math.max(0, height - 2) * 2 : width
+
+    for (let i = 0; i < ARRIVAL_ATTEMPTS; i++) {
+      const cell = edgeCell(this.rng.nextInt(0, edgeLength - 1), width, height)
+      const free = !this.world.hasOrganism(cell.x, cell.y, 'sheep') && !this.world.hasOrganism(cell.x, cell.y, 'wolf')
+      if (free && this.world.getTerrainEffects(cell.x, cell.y).passable) {
+        return cell
+      }
+    }
+    return null
+  }
+}
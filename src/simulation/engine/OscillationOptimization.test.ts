@@ -16,7 +16,7 @@ describe('Oscillation Optimization', () => {
   beforeEach(() => {
     simulationEngine = new SimulationEngine(WORLD_CONFIG)
     const world = simulationEngine.getWorld()
-    WorldInitializer.createProductionEcosystem(world, WORLD_CONFIG)
+    WorldInitializer.createProductionEcosystem(world, WORLD_CONFIG, simulationEngine.getRandom())
   })
 
   test('should achieve at least 5 oscillation cycles in 1000 steps', async () => {
@@ -5,6 +5,9 @@
 
 import { WorldConfig } from '../config/WorldConfig'
 import { World } from './World'
+import { RandomGenerator } from '../utils/RandomGenerator'
+import { SimulationEventBus } from './SimulationEventBus'
+import { Logger } from '../utils/Logger'
 import { 
   Sheep, 
   Wolf, 
@@ -18,10 +21,23 @@ import {
 export class ReproductionProcessor {
   private world: World
   private config: WorldConfig
+  private rng: RandomGenerator
+  private events: SimulationEventBus
+  private logger: Logger
 
-  constructor(world: World, config: WorldConfig) {
+  constructor(world: World, config: WorldConfig, rng: RandomGenerator = new RandomGenerator()) {
     this.world = world
     this.config = config
+    this.rng = rng
+    this.events = world.getEventBus()
+    this.logger = world.getLogger()
+  }
+
+  /**
+   * Use an updated config for subsequent reproduction
+   */
+  public setConfig(config: WorldConfig): void {
+    this.config = config
   }
 
   /**
@@ -160,18 +176,14 @@ export class ReproductionProcessor {
    * Find nearby potential mates
    */
   private findNearbyMates(organism: Sheep | Wolf, radius: number, type: 'sheep' | 'wolf'): (Sheep | Wolf)[] {
-    const allOrganisms = this.world.getOrganismsByType(type) as (Sheep | Wolf)[]
+    // The spatial index returns the surrounding square, nearest first
+    const nearby = this.world.findNearby(type, organism.x, organism.y, radius) as (Sheep | Wolf)[]
     
-    return allOrganisms.filter(potential => {
+    return nearby.filter(potential => {
       if (potential.id === organism.id) return false
       if (!this.canReproduce(potential, type, this.world.getCurrentStep())) return false
       
-      const distance = Math.sqrt(
-        Math.pow(potential.x - organism.x, 2) + 
-        Math.pow(potential.y - organism.y, 2)
-      )
-      
-      return distance <= radius
+      return this.world.getBoundary().distance(organism, potential) <= radius
     })
   }
 
@@ -191,17 +203,17 @@ export class ReproductionProcessor {
     const actualReproductionRate = config.reproductionRate * energyScalingFactor
     
     // Apply stochastic reproduction based on energy levels
-    if (Math.random() >= actualReproductionRate) {
+    if (this.rng.next() >= actualReproductionRate) {
       return // Mating attempt failed due to poor condition
     }
     
     // Determine which organism becomes pregnant (random choice)
-    const pregnantOrganism = Math.random() < 0.5 ? organism1 : organism2
+    const pregnantOrganism = this.rng.next() < 0.5 ? organism1 : organism2
     const mate = pregnantOrganism === organism1 ? organism2 : organism1
     
     // Calculate litter size
     const reproConfig = config.reproduction
-    const litterSize = Math.floor(Math.random() * (reproConfig.litterSizeMax - reproConfig.litterSizeMin + 1)) + reproConfig.litterSizeMin
+    const litterSize = Math.floor(this.rng.next() * (reproConfig.litterSizeMax - reproConfig.litterSizeMin + 1)) + reproConfig.litterSizeMin
     
     // Set pregnancy state
     pregnantOrganism.reproductionState = {
@@ -215,8 +227,16 @@ export class ReproductionProcessor {
     
     // Set mate's cooldown
     mate.reproductionState.lastMatingStep = currentStep
+
+    this.events.emit({
+      type: 'organism_reproduced',
+      organismId: pregnantOrganism.id,
+      organismType: type,
+      step: currentStep,
+      data: { mateId: mate.id, litterSize }
+    })
     
-    console.log(`🤱 Mating: ${type} ${pregnantOrganism.id} is pregnant (${litterSize} offspring expected)`)
+    this.logger.debug('reproduction', () => `🤱 Mating: ${type} ${pregnantOrganism.id} is pregnant (${litterSize} offspring expected)`)
   }
 
   /**
@@ -257,7 +277,7 @@ export class ReproductionProcessor {
     for (let i = 0; i < reproState.expectedLitterSize; i++) {
       const offspring = this.createOffspring(parent, currentStep, type)
       if (offspring) {
-        console.log(`👶 Birth: ${type} ${parent.id} gave birth to ${offspring.id}`)
+        this.logger.debug('reproduction', () => `👶 Birth: ${type} ${parent.id} gave birth to ${offspring.id}`)
       }
     }
     
@@ -283,7 +303,7 @@ export class ReproductionProcessor {
     // Find nearby empty cell for offspring
     const birthLocation = this.findNearbyEmptyCell(parent.x, parent.y, 2)
     if (!birthLocation) {
-      console.log(`⚠️ No space for offspring of ${type} ${parent.id}`)
+      this.logger.debug('reproduction', () => `⚠️ No space for offspring of ${type} ${parent.id}`)
       return null
     }
     
@@ -301,6 +321,13 @@ export class ReproductionProcessor {
     
     // Place offspring in world
     this.world.setCellContent(birthLocation.x, birthLocation.y, { [type]: offspring })
+    this.events.emit({
+      type: 'organism_born',
+      organismId: offspring.id,
+      organismType: type,
+      step: currentStep,
+      data: { x: birthLocation.x, y: birthLocation.y, parentId: parent.id, mateId: parent.reproductionState.mateId }
+    })
     
     return offspring
   }
@@ -309,14 +336,15 @@ export class ReproductionProcessor {
    * Generate inherited traits with variation
    */
   private generateInheritedTraits(parent: Sheep | Wolf, variation: number): OffspringTraits {
-    const baseEfficiency = 'grazingEfficiency' in parent ? parent.grazingEfficiency : 0.8
-    const baseLifespan = this.getOrganismType(parent) === 'sheep' ? 
+    const type = this.getOrganismType(parent)
+    const baseLifespan = type === 'sheep' ? 
       this.config.sheep.lifespan : this.config.wolf.lifespan
     
     return {
       grazingEfficiency: 'grazingEfficiency' in parent ? 
         this.varyTrait(parent.grazingEfficiency, variation) : undefined,
-      huntingSkill: 'huntingTarget' in parent ? 
+      // Not `'huntingTarget' in parent`: an unset target doesn't survive a snapshot round trip
+      huntingSkill: type === 'wolf' ? 
         this.varyTrait(0.8, variation) : undefined,
       energyEfficiency: this.varyTrait(1.0, variation),
       maxLifespan: Math.floor(this.varyTrait(baseLifespan, variation * 0.5))
@@ -327,7 +355,7 @@ export class ReproductionProcessor {
    * Apply variation to a trait
    */
   private varyTrait(baseValue: number, variation: number): number {
-    const change = (Math.random() - 0.5) * 2 * variation
+    const change = (this.rng.next() - 0.5) * 2 * variation
     return Math.max(0.1, Math.min(1.0, baseValue + change))
   }
 
@@ -341,7 +369,7 @@ export class ReproductionProcessor {
     currentStep: number,
     type: 'sheep' | 'wolf'
   ): Sheep | Wolf {
-    const baseId = `${type}-offspring-${currentStep}-${Math.random().toString(36).substr(2, 9)}`
+    const baseId = `${type}-offspring-${currentStep}-${this.rng.nextId()}`
     
     const baseOrganism = {
       id: baseId,
@@ -388,13 +416,11 @@ export class ReproductionProcessor {
         for (let dy = -r; dy <= r; dy++) {
           if (Math.abs(dx) + Math.abs(dy) !== r) continue // Only check cells at exact radius
           
-          const newX = x + dx
-          const newY = y + dy
-          
-          if (this.isValidPosition(newX, newY)) {
-            const cell = this.world.getCell(newX, newY)
-            if (cell && !cell.sheep && !cell.wolf) {
-              return { x: newX, y: newY }
+          const target = this.resolvePosition(x + dx, y + dy)
+          if (target) {
+            const cell = this.world.getCell(target.x, target.y)
+            if (cell && !cell.sheep && !cell.wolf && this.world.getTerrainEffects(target.x, target.y).passable) {
+              return target
             }
           }
         }
@@ -404,10 +430,10 @@ export class ReproductionProcessor {
   }
 
   /**
-   * Check if position is valid
+   * Cell a position lands on under the world's boundary mode (null when off a bounded grid)
    */
-  private isValidPosition(x: number, y: number): boolean {
-    return x >= 0 && x < this.world.getWidth() && y >= 0 && y < this.world.getHeight()
+  private resolvePosition(x: number, y: number): { x: number; y: number } | null {
+    return this.world.getBoundary().resolve(x, y)
   }
 
   /**
@@ -455,7 +481,8 @@ export class ReproductionProcessor {
         const wolf2 = eligibleWolves[i + 1]
         
         // Check if they're close enough to mate
-        const distance = Math.abs(wolf1.x - wolf2.x) + Math.abs(wolf1.y - wolf2.y)
+        const { dx, dy } = this.world.getBoundary().offset(wolf1, wolf2)
+        const distance = Math.abs(dx) + Math.abs(dy)
         if (distance <= config.territoryRadius) {
           this.initiateMating(wolf1, wolf2, currentStep)
         }
@@ -472,7 +499,7 @@ export class ReproductionProcessor {
     return grass.density >= config.minDensity && 
            grass.growthStage === 'mature' &&
            currentStep - grass.lastSpreadStep >= 5 && // Minimum time between spreading
-           Math.random() < config.spreadProbability
+           this.rng.next() < config.spreadProbability
   }
 
   /**
@@ -482,10 +509,10 @@ export class ReproductionProcessor {
     const config = this.config.grass.reproduction
     
     for (let i = 0; i < config.maxSeedsPerStep; i++) {
-      if (Math.random() < config.seedViability) {
+      if (this.rng.next() < config.seedViability) {
         const seedLocation = this.findSeedLocation(grass, config.spreadRadius)
         if (seedLocation) {
-          this.plantSeed(seedLocation, currentStep)
+          this.plantSeed(seedLocation, currentStep, grass.id)
         }
       }
     }
@@ -498,16 +525,15 @@ export class ReproductionProcessor {
    */
   private findSeedLocation(grass: Grass, radius: number): { x: number; y: number } | null {
     for (let attempt = 0; attempt < 10; attempt++) {
-      const angle = Math.random() * 2 * Math.PI
-      const distance = Math.random() * radius
-      const x = Math.round(grass.x + Math.cos(angle) * distance)
-      const y = Math.round(grass.y + Math.sin(angle) * distance)
+      const angle = this.rng.next() * 2 * Math.PI
+      const distance = this.rng.next() * radius
+      const target = this.resolvePosition(
+        Math.round(grass.x + Math.cos(angle) * distance),
+        Math.round(grass.y + Math.sin(angle) * distance)
+      )
       
-      if (this.isValidPosition(x, y)) {
-        const cell = this.world.getCell(x, y)
-        if (cell && !cell.grass) {
-          return { x, y }
-        }
+      if (target && !this.world.hasOrganism(target.x, target.y, 'grass') && this.world.getTerrainEffects(target.x, target.y).maxDensity > 0) {
+        return target
       }
     }
     return null
@@ -516,9 +542,9 @@ export class ReproductionProcessor {
   /**
    * Plant a new grass seed
    */
-  private plantSeed(location: { x: number; y: number }, currentStep: number): void {
+  private plantSeed(location: { x: number; y: number }, currentStep: number, parentId: string): void {
     const newGrass: Grass = {
-      id: `grass-seed-${currentStep}-${Math.random().toString(36).substr(2, 9)}`,
+      id: `grass-seed-${currentStep}-${this.rng.nextId()}`,
       x: location.x,
       y: location.y,
       energy: 0.1,
@@ -534,7 +560,14 @@ export class ReproductionProcessor {
     }
     
     this.world.setCellContent(location.x, location.y, { grass: newGrass })
-    console.log(`🌱 Seed planted at (${location.x}, ${location.y})`)
+    this.events.emit({
+      type: 'organism_born',
+      organismId: newGrass.id,
+      organismType: 'grass',
+      step: currentStep,
+      data: { x: location.x, y: location.y, parentId }
+    })
+    this.logger.debug('reproduction', () => `🌱 Seed planted at (${location.x}, ${location.y})`)
   }
 
   /**
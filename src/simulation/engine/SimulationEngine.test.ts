@@ -1,8 +1,9 @@
-import { describe, it, expect, beforeEach } from 'vitest'
-import { SimulationEngine } from './SimulationEngine'
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { SimulationEngine, SNAPSHOT_VERSION } from './SimulationEngine'
 import { WORLD_CONFIG } from '../config/WorldConfig'
-import { Grass, Sheep, Wolf, Direction } from '../types/SimulationTypes'
+import { Grass, Sheep, Wolf, Direction, SimulationEvent } from '../types/SimulationTypes'
 import { OrganismFactory } from '../utils/OrganismFactory'
+import { WorldInitializer } from '../utils/WorldInitializer'
 
 describe('SimulationEngine', () => {
   let simulationEngine: SimulationEngine
@@ -97,6 +98,17 @@ describe('SimulationEngine', () => {
     expect(simulationEngine.getSpeed()).toBe(2.0)
   })
 
+  it('should clamp speed to the configured range', () => {
+    simulationEngine.setSpeed(WORLD_CONFIG.speed.maxSpeed)
+    expect(simulationEngine.getSpeed()).toBe(WORLD_CONFIG.speed.maxSpeed)
+
+    simulationEngine.setSpeed(1000)
+    expect(simulationEngine.getSpeed()).toBe(WORLD_CONFIG.speed.maxSpeed)
+
+    simulationEngine.setSpeed(0)
+    expect(simulationEngine.getSpeed()).toBe(WORLD_CONFIG.speed.minSpeed)
+  })
+
   it('should reset simulation', () => {
     // Add some organisms
     const grass = OrganismFactory.createGrass({
@@ -176,4 +188,367 @@ describe('SimulationEngine', () => {
     expect(stats.grassCount).toBeGreaterThan(0)
     expect(stats.sheepCount).toBeGreaterThan(0)
   })
+
+  describe('seeded runs', () => {
+    const runSeeded = (seed: number, steps: number) => {
+      const engine = new SimulationEngine(WORLD_CONFIG, { seed })
+      WorldInitializer.createProductionEcosystem(engine.getWorld(), WORLD_CONFIG, engine.getRandom())
+      const history: Array<[number, number, number]> = []
+      for (let i = 0; i < steps; i++) {
+        engine.step()
+        const stats = engine.getStatistics()
+        history.push([stats.grassCount, stats.sheepCount, stats.wolfCount])
+      }
+      const sheepIds = (engine.getWorld().getOrganismsByType('sheep')).map(s => s.id)
+      return { history, sheepIds }
+    }
+
+    it('should reproduce the same run for the same seed', () => {
+      const first = runSeeded(1234, 20)
+      const second = runSeeded(1234, 20)
+
+      expect(second.history).toEqual(first.history)
+      expect(second.sheepIds).toEqual(first.sheepIds)
+    })
+
+    it('should diverge for different seeds', () => {
+      const first = runSeeded(1234, 20)
+      const second = runSeeded(4321, 20)
+
+      expect(second.history).not.toEqual(first.history)
+    })
+
+    it('should take the seed from config when no option is given', () => {
+      const engine = new SimulationEngine({ ...WORLD_CONFIG, seed: 99 })
+      expect(engine.getSeed()).toBe(99)
+      expect(new SimulationEngine({ ...WORLD_CONFIG, seed: 99 }, { seed: 7 }).getSeed()).toBe(7)
+    })
+
+    it('should replay the same run after reset', () => {
+      const engine = new SimulationEngine(WORLD_CONFIG, { seed: 555 })
+      const runOnce = () => {
+        WorldInitializer.createProductionEcosystem(engine.getWorld(), WORLD_CONFIG, engine.getRandom())
+        for (let i = 0; i < 10; i++) engine.step()
+        return engine.getStatistics().sheepCount
+      }
+
+      const before = runOnce()
+      engine.reset()
+      expect(runOnce()).toBe(before)
+    })
+  })
+
+  describe('snapshots', () => {
+    const createSeededEngine = () => {
+      const engine = new SimulationEngine(WORLD_CONFIG, { seed: 2024 })
+      WorldInitializer.createProductionEcosystem(engine.getWorld(), WORLD_CONFIG, engine.getRandom())
+      return engine
+    }
+
+    const populations = (engine: SimulationEngine) => {
+      const stats = engine.getStatistics()
+      return [stats.grassCount, stats.sheepCount, stats.wolfCount]
+    }
+
+    it('should save a versioned snapshot of the run', () => {
+      const engine = createSeededEngine()
+      for (let i = 0; i < 5; i++) engine.step()
+
+      const snapshot = engine.saveSnapshot()
+
+      expect(snapshot.version).toBe(SNAPSHOT_VERSION)
+      expect(snapshot.seed).toBe(2024)
+      expect(snapshot.world.currentStep).toBe(5)
+      expect(snapshot.world.sheep.length).toBe(engine.getStatistics().sheepCount)
+      expect(snapshot.world.sheep[0].reproductionState).toBeDefined()
+      expect(snapshot.analyzer.populationHistory).toHaveLength(5)
+    })
+
+    it('should resume a loaded snapshot exactly where it was saved', () => {
+      const engine = createSeededEngine()
+      for (let i = 0; i < 10; i++) engine.step()
+      const json = JSON.stringify(engine.saveSnapshot())
+
+      for (let i = 0; i < 10; i++) engine.step()
+      const expected = populations(engine)
+      const expectedIds = engine.getWorld().getOrganismsByType('sheep').map(s => s.id)
+
+      const restored = new SimulationEngine(WORLD_CONFIG)
+      restored.loadSnapshot(json)
+      expect(restored.getCurrentStep()).toBe(10)
+
+      for (let i = 0; i < 10; i++) restored.step()
+      expect(populations(restored)).toEqual(expected)
+      expect(restored.getWorld().getOrganismsByType('sheep').map(s => s.id)).toEqual(expectedIds)
+      expect(restored.getOscillationAnalysis()).toEqual(engine.getOscillationAnalysis())
+      expect(restored.getPopulationHistory()).toEqual(engine.getPopulationHistory())
+    })
+
+    it('should answer population history queries for the whole run', () => {
+      const engine = createSeededEngine()
+      for (let i = 0; i < 20; i++) engine.step()
+
+      const history = engine.getPopulationHistory({ resolution: 5 })
+
+      expect(history.map(b => [b.startStep, b.endStep])).toEqual([[1, 4], [5, 9], [10, 14], [15, 19], [20, 20]])
+      expect(history[1].sheep.min).toBeLessThanOrEqual(history[1].sheep.mean)
+      expect(engine.getPopulationHistory({ fromStep: 18 })).toHaveLength(3)
+    })
+
+    it('should not share state between a snapshot and the running engine', () => {
+      const engine = createSeededEngine()
+      const snapshot = engine.saveSnapshot()
+      engine.step()
+
+      expect(snapshot.world.currentStep).toBe(0)
+    })
+
+    it('should load version 1 snapshots, from before terrain, on uniform terrain', () => {
+      const engine = createSeededEngine()
+      for (let i = 0; i < 5; i++) engine.step()
+      const legacy: Record<string, unknown> = { ...engine.saveSnapshot(), version: 1 }
+      delete (legacy.config as Record<string, unknown>).terrain
+      delete (legacy.world as Record<string, unknown>).terrain
+      const rocky = { ...WORLD_CONFIG, terrain: { ...WORLD_CONFIG.terrain, source: 'procedural' as const } }
+      const restored = new SimulationEngine(rocky, { seed: 1 })
+      WorldInitializer.createProductionEcosystem(restored.getWorld(), rocky, restored.getRandom())
+
+      restored.loadSnapshot(JSON.stringify(legacy))
+
+      expect(restored.getConfig().terrain.source).toBe('uniform')
+      expect(restored.getWorld().getTerrainMap().cells.every(type => type === 'grassland')).toBe(true)
+      for (let i = 0; i < 5; i++) {
+        engine.step()
+        restored.step()
+      }
+      expect(populations(restored)).toEqual(populations(engine))
+    })
+
+    it('should reject snapshots with an unknown version', () => {
+      const engine = createSeededEngine()
+      const snapshot = { ...engine.saveSnapshot(), version: SNAPSHOT_VERSION + 1 }
+
+      expect(() => engine.loadSnapshot(snapshot)).toThrow(/Unsupported snapshot version/)
+    })
+  })
+
+  describe('live config updates', () => {
+    const createSeededEngine = () => {
+      const engine = new SimulationEngine(WORLD_CONFIG, { seed: 7 })
+      WorldInitializer.createProductionEcosystem(engine.getWorld(), WORLD_CONFIG, engine.getRandom())
+      return engine
+    }
+
+    it('should apply changes on the next step without resetting the world', () => {
+      const engine = createSeededEngine()
+      for (let i = 0; i < 5; i++) engine.step()
+
+      const sheepIds = engine.getWorld().getOrganismsByType('sheep').map(s => s.id)
+      expect(sheepIds.length).toBeGreaterThan(0)
+
+      engine.updateConfig({ sheep: { energyPerStep: 100 } })
+      expect(engine.getCurrentStep()).toBe(5)
+
+      engine.step()
+      expect(engine.getCurrentStep()).toBe(6)
+      // Every sheep alive before the update starves under the new energy cost
+      const survivors = engine.getWorld().getOrganismsByType('sheep').filter(s => sheepIds.includes(s.id))
+      expect(survivors).toEqual([])
+    })
+
+    it('should record what changed and when in the statistics timeline', () => {
+      const engine = createSeededEngine()
+      for (let i = 0; i < 3; i++) engine.step()
+
+      const changes = engine.updateConfig({ grass: { growthRate: 0.5 }, sheep: { reproductionRate: 0.2 } })
+
+      expect(changes).toEqual([
+        { path: 'grass.growthRate', from: WORLD_CONFIG.grass.growthRate, to: 0.5 },
+        { path: 'sheep.reproductionRate', from: WORLD_CONFIG.sheep.reproductionRate, to: 0.2 }
+      ])
+      expect(engine.getStatistics().configChanges).toEqual([{ step: 4, changes }])
+      expect(engine.getConfig().grass.growthRate).toBe(0.5)
+    })
+
+    it('should not record an event when nothing changed', () => {
+      const engine = createSeededEngine()
+
+      expect(engine.updateConfig({ grass: { growthRate: WORLD_CONFIG.grass.growthRate } })).toEqual([])
+      expect(engine.getStatistics().configChanges).toEqual([])
+    })
+
+    it('should keep recorded changes in snapshots', () => {
+      const engine = createSeededEngine()
+      engine.updateConfig({ wolf: { huntingRadius: 3 } })
+
+      const restored = new SimulationEngine(WORLD_CONFIG)
+      restored.loadSnapshot(JSON.stringify(engine.saveSnapshot()))
+
+      expect(restored.getConfig().wolf.huntingRadius).toBe(3)
+      expect(restored.getStatistics().configChanges).toHaveLength(1)
+    })
+  })
+
+  describe('events', () => {
+    const createSeededEngine = () => {
+      const engine = new SimulationEngine(WORLD_CONFIG, { seed: 11 })
+      WorldInitializer.createProductionEcosystem(engine.getWorld(), WORLD_CONFIG, engine.getRandom())
+      return engine
+    }
+
+    it('should emit births, deaths, moves and feeding while stepping', () => {
+      const engine = createSeededEngine()
+      const events: SimulationEvent[] = []
+      engine.subscribe(event => events.push(event))
+
+      for (let i = 0; i < 20; i++) engine.step()
+
+      const types = new Set(events.map(e => e.type))
+      expect(types).toEqual(new Set(['organism_born', 'organism_died', 'organism_moved', 'organism_reproduced', 'organism_ate']))
+      expect(events.every(e => e.step >= 1 && e.step <= 20)).toBe(true)
+    })
+
+    it('should match deaths to the death statistics', () => {
+      const engine = createSeededEngine()
+      const deaths: SimulationEvent<'organism_died'>[] = []
+      engine.subscribe(event => deaths.push(event), { types: ['organism_died'] })
+
+      for (let i = 0; i < 10; i++) engine.step()
+
+      expect(deaths).toHaveLength(engine.getStatistics().deathStats.totalDeaths)
+      expect(deaths.every(e => typeof e.data.cause === 'string')).toBe(true)
+    })
+
+    it('should only deliver the subscribed species', () => {
+      const engine = createSeededEngine()
+      const species = new Set<string>()
+      engine.subscribe(event => species.add(event.organismType), { species: ['wolf'] })
+
+      for (let i = 0; i < 10; i++) engine.step()
+
+      expect([...species]).toEqual(['wolf'])
+    })
+
+    it('should keep subscriptions across reset and stop after unsubscribing', () => {
+      const engine = createSeededEngine()
+      const listener = vi.fn()
+      engine.subscribe(listener)
+
+      engine.reset()
+      WorldInitializer.createProductionEcosystem(engine.getWorld(), WORLD_CONFIG, engine.getRandom())
+      engine.step()
+      expect(listener).toHaveBeenCalled()
+
+      listener.mockClear()
+      engine.unsubscribe(listener)
+      engine.step()
+      expect(listener).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('step timings', () => {
+    const createSeededEngine = () => {
+      const engine = new SimulationEngine(WORLD_CONFIG, { seed: 13 })
+      WorldInitializer.createProductionEcosystem(engine.getWorld(), WORLD_CONFIG, engine.getRandom())
+      return engine
+    }
+
+    it('should time every phase of the last step', () => {
+      const engine = createSeededEngine()
+      engine.step()
+
+      const timings = engine.getStepTimings()
+      expect(Object.keys(timings).sort()).toEqual(
+        ['analyzer', 'disease', 'grassGrowth', 'grassSpreading', 'migration', 'reproduction', 'sheep', 'statistics', 'wolves']
+      )
+      Object.values(timings).forEach(ms => expect(ms).toBeGreaterThanOrEqual(0))
+      expect(timings.grassGrowth + timings.sheep).toBeGreaterThan(0)
+    })
+
+    it('should summarize timings across steps until reset', () => {
+      const engine = createSeededEngine()
+      for (let i = 0; i < 3; i++) engine.step()
+
+      const summary = engine.getTimingSummary()
+      expect(summary.steps).toBe(3)
+      expect(summary.mean.sheep).toBeCloseTo(summary.total.sheep / 3)
+      expect(summary.meanStepMs).toBeGreaterThan(0)
+
+      engine.reset()
+      expect(engine.getTimingSummary().steps).toBe(0)
+      expect(engine.getStepTimings().sheep).toBe(0)
+    })
+  })
+
+  describe('timeline', () => {
+    const createRecordingEngine = () => {
+      const engine = new SimulationEngine(WORLD_CONFIG, { seed: 17, timeline: { keyframeInterval: 5, maxKeyframes: 3 } })
+      WorldInitializer.createProductionEcosystem(engine.getWorld(), WORLD_CONFIG, engine.getRandom())
+      return engine
+    }
+
+    const populations = (engine: SimulationEngine) => {
+      const stats = engine.getStatistics()
+      return { step: engine.getCurrentStep(), grass: stats.grassCount, sheep: stats.sheepCount, wolves: stats.wolfCount }
+    }
+
+    it('should not record unless the timeline option is set', () => {
+      const engine = new SimulationEngine(WORLD_CONFIG, { seed: 17 })
+      engine.step()
+
+      expect(engine.getTimelineRange()).toBeNull()
+      expect(() => engine.inspectStep(0)).toThrow(/Timeline recording is off/)
+    })
+
+    it('should show earlier steps exactly as they were', () => {
+      const engine = createRecordingEngine()
+      const recorded = []
+      for (let i = 0; i < 8; i++) {
+        engine.step()
+        recorded.push(populations(engine))
+      }
+
+      expect(engine.getTimelineRange()).toEqual({ firstStep: 0, lastStep: 8 })
+      expect(engine.inspectStep(3).populations).toEqual(recorded[2])
+      expect(engine.inspectStep(7).populations).toEqual(recorded[6])
+      // Inspecting leaves the live run alone
+      expect(engine.getCurrentStep()).toBe(8)
+
+      const grid = engine.inspectStep(8).grid
+      const sheepCells = grid.animals.reduce((count, flags) => count + (flags & 1), 0)
+      expect(sheepCells).toBeLessThanOrEqual(recorded[7].sheep)
+      expect(sheepCells).toBeGreaterThan(0)
+    })
+
+    it('should only reach back maxKeyframes keyframes', () => {
+      const engine = createRecordingEngine()
+      for (let i = 0; i < 17; i++) engine.step()
+
+      expect(engine.getTimelineRange()).toEqual({ firstStep: 5, lastStep: 17 })
+      expect(() => engine.inspectStep(2)).toThrow(/outside the recorded timeline/)
+    })
+
+    it('should resume from an earlier step as if the run had never gone further', () => {
+      const engine = createRecordingEngine()
+      for (let i = 0; i < 12; i++) engine.step()
+      const atTwelve = populations(engine)
+
+      engine.branchFrom(7)
+      expect(engine.getCurrentStep()).toBe(7)
+      expect(engine.getTimelineRange()).toEqual({ firstStep: 0, lastStep: 7 })
+
+      for (let i = 0; i < 5; i++) engine.step()
+      expect(populations(engine)).toEqual(atTwelve)
+      expect(engine.getPopulationHistory({ fromStep: 12 })).toHaveLength(1)
+    })
+
+    it('should start over on reset', () => {
+      const engine = createRecordingEngine()
+      for (let i = 0; i < 3; i++) engine.step()
+
+      engine.reset()
+
+      expect(engine.getTimelineRange()).toBeNull()
+    })
+  })
 })
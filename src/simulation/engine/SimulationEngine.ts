@@ -4,9 +4,46 @@
 
 import { World } from './World'
 import { StepProcessor } from './StepProcessor'
-import { WorldConfig } from '../config/WorldConfig'
-import { SimulationState, SimulationStatistics, PopulationHealth, EcosystemAlert, ExtinctionAnalysis, OscillationAnalysis } from '../types/SimulationTypes'
+import { WORLD_CONFIG, WorldConfig, DeepPartial, mergeWorldConfig, diffWorldConfig } from '../config/WorldConfig'
+import { assertValidConfig } from '../config/ConfigValidator'
+import { SimulationState, SimulationStatistics, PopulationHealth, EcosystemAlert, ExtinctionAnalysis, OscillationAnalysis, SimulationSnapshot, ConfigChange, SimulationEventType, StepTimings, StepTimingSummary, PopulationBucket, PopulationHistoryQuery, ReplayLog, ReplayLogEntry } from '../types/SimulationTypes'
 import { EcologicalAnalyzer } from '../analysis/EcologicalAnalyzer'
+import { RandomGenerator } from '../utils/RandomGenerator'
+import { SimulationEventBus, SimulationEventFilter, SimulationEventListener } from './SimulationEventBus'
+import { Logger, LogSink } from '../utils/Logger'
+import { STEP_PHASES, StepTimer, createStepTimings } from '../utils/StepTimer'
+import { Timeline, TimelineFrame, TimelineOptions, TimelineRange } from './Timeline'
+import { hashConfig, hashWorld } from '../utils/StateHash'
+import { createUniformTerrain, formatTerrainMap } from './Terrain'
+
+// Bump when the snapshot layout changes incompatibly
+export const SNAPSHOT_VERSION = 2
+export const REPLAY_LOG_VERSION = 2
+
+export interface SimulationEngineOptions {
+  /** Random seed for the run; overrides config.seed */
+  seed?: number
+  /** Where log entries go (default: the console) */
+  logSinks?: LogSink[]
+  /** Record keyframes and per-step diffs so earlier steps can be inspected and resumed (off by default) */
+  timeline?: TimelineOptions
+  /** Record a replay log (population counts and world hashes per step) for divergence checks (off by default) */
+  recordReplay?: boolean
+}
+
+/**
+ * Version 1 snapshots predate terrain (their worlds are all grassland) and may lack settings added
+ * since, which take their defaults
+ */
+const upgradeSnapshotV1 = (snapshot: SimulationSnapshot): SimulationSnapshot => {
+  const config = mergeWorldConfig(WORLD_CONFIG, snapshot.config)
+  return {
+    ...snapshot,
+    version: SNAPSHOT_VERSION,
+    config: { ...config, terrain: { ...config.terrain, source: 'uniform' } },
+    world: { ...snapshot.world, terrain: formatTerrainMap(createUniformTerrain(snapshot.world.width, snapshot.world.height)) }
+  }
+}
 
 export class SimulationEngine {
   private world: World
@@ -15,12 +52,31 @@ export class SimulationEngine {
   private state: SimulationState
   private intervalId: NodeJS.Timeout | null = null
   private analyzer: EcologicalAnalyzer
-
-  constructor(config: WorldConfig) {
+  private seed: number
+  private rng: RandomGenerator
+  // Outlives world resets and snapshot loads so subscriptions stay in place
+  private events = new SimulationEventBus()
+  private logger: Logger
+  private lastStepTimings: StepTimings = createStepTimings()
+  private timingTotals = new StepTimer()
+  private timedSteps = 0
+  private timeline: Timeline | null
+  private replayEntries: ReplayLogEntry[] | null
+  // Config the replay log starts from; live updates after that are in the statistics' configChanges
+  private replayConfig: WorldConfig
+
+  constructor(config: WorldConfig, options: SimulationEngineOptions = {}) {
+    assertValidConfig(config)
     this.config = config
-    this.world = new World(config)
-    this.stepProcessor = new StepProcessor(this.world, config)
-    this.analyzer = new EcologicalAnalyzer(config)
+    this.seed = options.seed ?? config.seed ?? RandomGenerator.createSeed()
+    this.rng = new RandomGenerator(this.seed)
+    this.logger = Logger.fromConfig(config.debug, options.logSinks)
+    this.world = new World(config, this.events, this.logger)
+    this.stepProcessor = new StepProcessor(this.world, config, this.rng)
+    this.analyzer = new EcologicalAnalyzer(config, this.logger)
+    this.timeline = options.timeline ? new Timeline(options.timeline) : null
+    this.replayEntries = options.recordReplay ? [] : null
+    this.replayConfig = config
     
     this.state = {
       isRunning: false,
@@ -78,10 +134,14 @@ export class SimulationEngine {
   public reset(): void {
     this.stop()
     
-    // Reset world
-    this.world = new World(this.config)
-    this.stepProcessor = new StepProcessor(this.world, this.config)
-    this.analyzer = new EcologicalAnalyzer(this.config) // Reset analyzer
+    // Reset world and restart the random sequence so the same seed replays the same run
+    this.rng = new RandomGenerator(this.seed)
+    this.world = new World(this.config, this.events, this.logger)
+    this.stepProcessor = new StepProcessor(this.world, this.config, this.rng)
+    this.analyzer = new EcologicalAnalyzer(this.config, this.logger) // Reset analyzer
+    this.resetTimings()
+    this.timeline?.clear()
+    if (this.replayEntries) this.replayEntries = []
     
     // Reset state
     this.state = {
@@ -111,7 +171,8 @@ export class SimulationEngine {
   }
 
   public setSpeed(speed: number): void {
-    this.state.speed = Math.max(0.1, Math.min(10.0, speed)) // Clamp between 0.1 and 10.0
+    const { minSpeed, maxSpeed } = this.config.speed
+    this.state.speed = Math.max(minSpeed, Math.min(maxSpeed, speed))
     
     // Restart simulation loop with new speed if running
     if (this.state.isRunning && !this.state.isPaused) {
@@ -124,6 +185,17 @@ export class SimulationEngine {
     return this.world
   }
 
+  public getSeed(): number {
+    return this.seed
+  }
+
+  /**
+   * Shared random generator for this run; pass it to WorldInitializer so setup is seeded too
+   */
+  public getRandom(): RandomGenerator {
+    return this.rng
+  }
+
   public getState(): SimulationState {
     return {
       ...this.state,
@@ -152,14 +224,226 @@ export class SimulationEngine {
     return this.analyzer.getOscillationAnalysis()
   }
 
+  /**
+   * Population counts for the whole run (or a step range), as min/max/mean buckets;
+   * recent steps come back one per bucket, older ones downsampled
+   */
+  public getPopulationHistory(query: PopulationHistoryQuery = {}): PopulationBucket[] {
+    return this.analyzer.queryPopulationHistory(query)
+  }
+
+  /**
+   * Listen for births, deaths, moves, matings and feeding; returns an unsubscribe function
+   */
+  public subscribe<T extends SimulationEventType = SimulationEventType>(
+    listener: SimulationEventListener<T>,
+    filter: SimulationEventFilter<T> = {}
+  ): () => void {
+    return this.events.subscribe(listener, filter)
+  }
+
+  public unsubscribe<T extends SimulationEventType>(listener: SimulationEventListener<T>): void {
+    this.events.unsubscribe(listener)
+  }
+
+  /**
+   * Milliseconds spent in each phase of the most recent step
+   */
+  public getStepTimings(): StepTimings {
+    return { ...this.lastStepTimings }
+  }
+
+  /**
+   * Phase timings summed and averaged over every step since the last reset
+   */
+  public getTimingSummary(): StepTimingSummary {
+    const total = this.timingTotals.getTimings()
+    const mean = createStepTimings()
+    STEP_PHASES.forEach(phase => {
+      mean[phase] = this.timedSteps > 0 ? total[phase] / this.timedSteps : 0
+    })
+
+    return {
+      steps: this.timedSteps,
+      total,
+      mean,
+      meanStepMs: STEP_PHASES.reduce((sum, phase) => sum + mean[phase], 0)
+    }
+  }
+
+  public resetTimings(): void {
+    this.lastStepTimings = createStepTimings()
+    this.timingTotals.reset()
+    this.timedSteps = 0
+  }
+
+  public getLogger(): Logger {
+    return this.logger
+  }
+
   public getConfig(): WorldConfig {
     return this.config
   }
 
-  public updateConfig(newConfig: Partial<WorldConfig>): void {
-    // Update configuration (this would require recreating the world in a real implementation)
-    this.config = { ...this.config, ...newConfig }
+  /**
+   * Capture the full run (world, analyzer history and RNG state) as a versioned JSON-safe document
+   */
+  public saveSnapshot(): SimulationSnapshot {
+    return {
+      version: SNAPSHOT_VERSION,
+      seed: this.seed,
+      rngState: this.rng.getState(),
+      config: JSON.parse(JSON.stringify(this.config)),
+      world: this.world.exportSnapshot(),
+      analyzer: this.analyzer.exportSnapshot()
+    }
+  }
+
+  /**
+   * Resume a run from a snapshot (object or JSON string); stepping continues exactly where it was saved
+   */
+  public loadSnapshot(snapshot: SimulationSnapshot | string): void {
+    const parsed: SimulationSnapshot = typeof snapshot === 'string' ? JSON.parse(snapshot) : snapshot
+    if (parsed.version !== SNAPSHOT_VERSION && parsed.version !== 1) {
+      throw new Error(`Unsupported snapshot version ${parsed.version} (expected ${SNAPSHOT_VERSION})`)
+    }
+    const data = parsed.version === 1 ? upgradeSnapshotV1(parsed) : parsed
+    assertValidConfig(data.config, 'Invalid config in snapshot')
+
+    this.restoreSnapshot(data)
+    this.timeline?.clear()
+    // A replay log has to start from a freshly seeded world, which a loaded run no longer is
+    if (this.replayEntries) this.replayEntries = []
+  }
+
+  /**
+   * Steps the timeline can show, or null when recording is off or nothing has been stepped yet
+   */
+  public getTimelineRange(): TimelineRange | null {
+    return this.timeline?.getRange() ?? null
+  }
+
+  /**
+   * Grid and population counts at an earlier step, without disturbing the live run
+   */
+  public inspectStep(step: number): TimelineFrame {
+    return this.requireTimeline().getFrame(step)
+  }
+
+  /**
+   * Rewind the run to an earlier step and continue from there; everything recorded after it is discarded
+   */
+  public branchFrom(step: number): void {
+    const timeline = this.requireTimeline()
+    const keyframe = timeline.getKeyframe(step)
+    timeline.truncateAfter(keyframe.step)
+    this.restoreSnapshot(keyframe.snapshot)
+    this.replayEntries = this.replayEntries?.filter(entry => entry.step <= keyframe.step) ?? null
+
+    // Same snapshot, same RNG state: re-stepping reproduces the recorded steps exactly
+    while (this.world.getCurrentStep() < step) {
+      this.processStep()
+    }
+  }
+
+  /**
+   * The run so far as a replay log, or null when the engine was created without recordReplay.
+   * The log starts at the world as it was before the first step, with the config it had then
+   * and every updateConfig() made since.
+   */
+  public getReplayLog(): ReplayLog | null {
+    if (!this.replayEntries) return null
+    // Before the first step the log is just the initial world
+    const entries = this.replayEntries.length > 0 ? this.replayEntries.map(entry => ({ ...entry })) : [this.getReplayEntry()]
+    const config = this.replayEntries.length > 0 ? this.replayConfig : this.config
+    return {
+      version: REPLAY_LOG_VERSION,
+      seed: this.seed,
+      configHash: hashConfig(config),
+      config: JSON.parse(JSON.stringify(config)),
+      configChanges: JSON.parse(JSON.stringify(
+        this.world.getState().statistics.configChanges.filter(event => event.step > entries[0].step)
+      )),
+      entries
+    }
+  }
+
+  /**
+   * Population counts and world hashes for the current step, as a replay log records them
+   */
+  public getReplayEntry(): ReplayLogEntry {
+    const stats = this.world.getState().statistics
+    const hash = hashWorld(this.world)
+    return {
+      step: this.world.getCurrentStep(),
+      grass: stats.grassCount,
+      sheep: stats.sheepCount,
+      wolves: stats.wolfCount,
+      worldHash: hash.world,
+      rowHashes: hash.rows,
+      columnHashes: hash.columns
+    }
+  }
+
+  private requireTimeline(): Timeline {
+    if (!this.timeline) {
+      throw new Error('Timeline recording is off; create the engine with the timeline option')
+    }
+    return this.timeline
+  }
+
+  private restoreSnapshot(data: SimulationSnapshot): void {
+    this.stop()
+
+    this.config = JSON.parse(JSON.stringify(data.config))
+    this.seed = data.seed
+    this.rng = new RandomGenerator(this.seed)
+    this.rng.setState(data.rngState)
+
+    this.logger.configure(this.config.debug)
+    this.world = new World(this.config, this.events, this.logger)
+    this.world.restoreSnapshot(data.world)
+    this.stepProcessor = new StepProcessor(this.world, this.config, this.rng)
+    this.analyzer = new EcologicalAnalyzer(this.config, this.logger)
+    this.analyzer.restoreSnapshot(data.analyzer)
+    this.resetTimings()
+
+    this.state = {
+      isRunning: false,
+      isPaused: false,
+      currentStep: this.world.getCurrentStep(),
+      speed: this.state.speed,
+      world: this.world.getState(),
+      config: this.config
+    }
+  }
+
+  /**
+   * Apply config changes to the running simulation from the next step on, without resetting the world.
+   * Grid size and initial populations only take effect on the next reset().
+   * Returns the changed values, which are also recorded in statistics.configChanges.
+   */
+  public updateConfig(newConfig: DeepPartial<WorldConfig>): ConfigChange[] {
+    const merged = mergeWorldConfig(this.config, newConfig)
+    assertValidConfig(merged)
+
+    const changes = diffWorldConfig(this.config, merged)
+    if (changes.length === 0) {
+      return changes
+    }
+
+    this.config = merged
     this.state.config = this.config
+    this.world.setConfig(this.config)
+    this.stepProcessor.setConfig(this.config)
+    this.analyzer.setConfig(this.config)
+    this.logger.configure(this.config.debug)
+    this.addConfigChangeEvent(changes)
+    // Resuming from before the change would replay it with the old values, so start a keyframe here
+    if (this.timeline?.getRange()) {
+      this.timeline.addKeyframe(this.saveSnapshot(), this.world)
+    }
+    return changes
   }
 
   private startSimulationLoop(): void {
@@ -181,6 +465,14 @@ export class SimulationEngine {
   }
 
   private processStep(): void {
+    if (this.replayEntries?.length === 0) {
+      this.replayConfig = this.config
+      this.replayEntries.push(this.getReplayEntry())
+    }
+    if (this.timeline?.needsKeyframe(this.world.getCurrentStep())) {
+      this.timeline.addKeyframe(this.saveSnapshot(), this.world)
+    }
+
     // Process one simulation step
     this.stepProcessor.processStep()
     
@@ -188,6 +480,8 @@ export class SimulationEngine {
     this.state.currentStep = this.world.getCurrentStep()
     this.state.world = this.world.getState()
     
+    const analyzerStart = performance.now()
+    
     // Record population data for analysis
     const stats = this.world.getState().statistics
     this.analyzer.recordPopulation(this.state.currentStep, stats)
@@ -195,12 +489,22 @@ export class SimulationEngine {
     // Check for extinction events and analyze them
     this.checkExtinctionEvents()
     
+    this.recordTimings(performance.now() - analyzerStart)
+    this.timeline?.addStep(this.world)
+    this.replayEntries?.push(this.getReplayEntry())
+    
     // Log debug information if enabled
     if (this.config.debug.showDebugInfo) {
       this.logDebugInfo()
     }
   }
 
+  private recordTimings(analyzerMs: number): void {
+    this.lastStepTimings = { ...this.stepProcessor.getTimings(), analyzer: analyzerMs }
+    STEP_PHASES.forEach(phase => this.timingTotals.add(phase, this.lastStepTimings[phase]))
+    this.timedSteps++
+  }
+
   private checkExtinctionEvents(): void {
     const stats = this.world.getState().statistics
     
@@ -220,7 +524,7 @@ export class SimulationEngine {
       
       // Perform detailed extinction analysis
       const analysis = this.analyzer.analyzeWolfExtinction(this.state.currentStep, stats.deathStats)
-      console.log('🐺 WOLF EXTINCTION ANALYSIS:', analysis)
+      this.logger.info('analysis', '🐺 WOLF EXTINCTION ANALYSIS:', analysis)
     }
     
     // Pause simulation if extinction occurs and debug setting is enabled
@@ -243,6 +547,15 @@ export class SimulationEngine {
     })
   }
 
+  private addConfigChangeEvent(changes: ConfigChange[]): void {
+    const stats = this.world.getState().statistics
+    stats.configChanges.push({
+      // Changes first apply to the step after the current one
+      step: this.world.getCurrentStep() + 1,
+      changes
+    })
+  }
+
   private hasAnyExtinction(): boolean {
     const stats = this.world.getState().statistics
     return stats.extinctionEvents.length > 0
@@ -250,11 +563,12 @@ export class SimulationEngine {
 
   private logDebugInfo(): void {
     const stats = this.world.getState().statistics
-    console.log(`Step ${this.world.getCurrentStep()}: Grass=${stats.grassCount}, Sheep=${stats.sheepCount}, Wolves=${stats.wolfCount}`)
+    this.logger.info('analysis', `Step ${this.world.getCurrentStep()}: Grass=${stats.grassCount}, Sheep=${stats.sheepCount}, Wolves=${stats.wolfCount}`)
   }
 
   public destroy(): void {
     this.stop()
+    this.events.clear()
     // Clean up any resources
   }
 }
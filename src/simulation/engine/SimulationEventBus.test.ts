@@ -0,0 +1,76 @@
+import { describe, it, expect, vi } from 'vitest'
+import { SimulationEventBus } from './SimulationEventBus'
+import { SimulationEvent } from '../types/SimulationTypes'
+
+describe('SimulationEventBus', () => {
+  const born: SimulationEvent = {
+    type: 'organism_born',
+    organismId: 'sheep-1',
+    organismType: 'sheep',
+    step: 3,
+    data: { x: 1, y: 2, parentId: 'sheep-0' }
+  }
+  const died: SimulationEvent = {
+    type: 'organism_died',
+    organismId: 'wolf-1',
+    organismType: 'wolf',
+    step: 3,
+    data: { x: 4, y: 5, cause: 'starvation', age: 20, energy: 0 }
+  }
+
+  it('should deliver every event to unfiltered subscribers', () => {
+    const bus = new SimulationEventBus()
+    const listener = vi.fn()
+    bus.subscribe(listener)
+
+    bus.emit(born)
+    bus.emit(died)
+
+    expect(listener.mock.calls).toEqual([[born], [died]])
+  })
+
+  it('should filter by event type and species', () => {
+    const bus = new SimulationEventBus()
+    const deaths = vi.fn()
+    const sheep = vi.fn()
+    const wolfBirths = vi.fn()
+    bus.subscribe(deaths, { types: ['organism_died'] })
+    bus.subscribe(sheep, { species: ['sheep'] })
+    bus.subscribe(wolfBirths, { types: ['organism_born'], species: ['wolf'] })
+
+    bus.emit(born)
+    bus.emit(died)
+
+    expect(deaths).toHaveBeenCalledExactlyOnceWith(died)
+    expect(sheep).toHaveBeenCalledExactlyOnceWith(born)
+    expect(wolfBirths).not.toHaveBeenCalled()
+  })
+
+  it('should stop delivering after unsubscribing', () => {
+    const bus = new SimulationEventBus()
+    const first = vi.fn()
+    const second = vi.fn()
+    const unsubscribeFirst = bus.subscribe(first)
+    bus.subscribe(second)
+
+    unsubscribeFirst()
+    bus.unsubscribe(second)
+    bus.emit(born)
+
+    expect(first).not.toHaveBeenCalled()
+    expect(second).not.toHaveBeenCalled()
+    expect(bus.hasSubscribers()).toBe(false)
+  })
+
+  it('should let listeners unsubscribe while an event is being delivered', () => {
+    const bus = new SimulationEventBus()
+    const other = vi.fn()
+    const unsubscribe = bus.subscribe(() => unsubscribe())
+    bus.subscribe(other)
+
+    bus.emit(born)
+    bus.emit(died)
+
+    expect(other).toHaveBeenCalledTimes(2)
+  })
+})
@@ -0,0 +1,70 @@
+/**
+ * SimulationEventBus delivers structured simulation events (births, deaths, moves,
+ * matings, grazing and hunts) to subscribers, optionally filtered by event type and species
+ */
+
+import { SimulationEvent, SimulationEventType } from '../types/SimulationTypes'
+
+export interface SimulationEventFilter<T extends SimulationEventType = SimulationEventType> {
+  /** Only deliver these event types (default: all) */
+  types?: T[]
+  /** Only deliver events about these species (default: all) */
+  species?: Array<SimulationEvent['organismType']>
+}
+
+export type SimulationEventListener<T extends SimulationEventType = SimulationEventType> = (event: SimulationEvent<T>) => void
+
+interface Subscription {
+  listener: (event: SimulationEvent) => void
+  types: Set<SimulationEventType> | null
+  species: Set<SimulationEvent['organismType']> | null
+}
+
+export class SimulationEventBus {
+  private subscriptions: Subscription[] = []
+
+  /**
+   * Listen for events matching the filter; returns a function that removes this subscription
+   */
+  public subscribe<T extends SimulationEventType = SimulationEventType>(
+    listener: SimulationEventListener<T>,
+    filter: SimulationEventFilter<T> = {}
+  ): () => void {
+    const subscription: Subscription = {
+      listener: listener as (event: SimulationEvent) => void,
+      types: filter.types ? new Set(filter.types) : null,
+      species: filter.species ? new Set(filter.species) : null
+    }
+    this.subscriptions.push(subscription)
+
+    return () => {
+      this.subscriptions = this.subscriptions.filter(s => s !== subscription)
+    }
+  }
+
+  /**
+   * Remove every subscription of a listener
+   */
+  public unsubscribe<T extends SimulationEventType>(listener: SimulationEventListener<T>): void {
+    this.subscriptions = this.subscriptions.filter(s => s.listener !== listener)
+  }
+
+  public emit(event: SimulationEvent): void {
+    if (this.subscriptions.length === 0) return
+
+    // Iterate over a copy so listeners can unsubscribe while being notified
+    this.subscriptions.slice().forEach(s => {
+      if (s.types && !s.types.has(event.type)) return
+      if (s.species && !s.species.has(event.organismType)) return
+      s.listener(event)
+    })
+  }
+
+  public hasSubscribers(): boolean {
+    return this.subscriptions.length > 0
+  }
+
+  public clear(): void {
+    this.subscriptions = []
+  }
+}
@@ -16,7 +16,7 @@ describe('Simulation Survival', () => {
     const world = sim.getWorld()
     
     // Use centralized stable ecosystem initialization
-    WorldInitializer.createStableTestEcosystem(world, WORLD_CONFIG)
+    WorldInitializer.createStableTestEcosystem(world, WORLD_CONFIG, sim.getRandom())
   }
 
   it('should have animals survive until step 10', () => {
@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest'
+import { SpatialIndex } from './SpatialIndex'
+import { World } from './World'
+import { SimulationEngine } from './SimulationEngine'
+import { WORLD_CONFIG, createWorldConfig } from '../config/WorldConfig'
+import { OrganismFactory } from '../utils/OrganismFactory'
+
+describe('SpatialIndex', () => {
+  const point = (x: number, y: number) => ({ x, y })
+
+  it('should insert, move and remove entities', () => {
+    const index = new SpatialIndex<{ x: number; y: number }>(32, 32)
+    const entity = point(1, 1)
+
+    index.insert(entity)
+    expect(index.query(1, 1, 0)).toEqual([entity])
+
+    entity.x = 20
+    entity.y = 20
+    index.update(entity)
+    expect(index.query(1, 1, 2)).toEqual([])
+    expect(index.query(20, 20, 0)).toEqual([entity])
+
+    expect(index.remove(entity)).toBe(true)
+    expect(index.remove(entity)).toBe(false)
+    expect(index.size()).toBe(0)
+  })
+
+  it('should return neighbors across bucket boundaries sorted by distance', () => {
+    const index = new SpatialIndex<{ x: number; y: number }>(32, 32, 4)
+    const far = point(10, 10)
+    const near = point(8, 7)
+    const middle = point(6, 9)
+    const outside = point(13, 7)
+    ;[far, near, middle, outside].forEach(entity => index.insert(entity))
+
+    expect(index.query(7, 7, 3)).toEqual([near, middle, far])
+  })
+
+  it('should reach across the edges of a wrapping index', () => {
+    // 30 is not a multiple of the bucket size, so the last bucket is partial
+    const index = new SpatialIndex<{ x: number; y: number }>(30, 20, 8, () => 0, true)
+    const acrossX = point(29, 1)
+    const acrossCorner = point(28, 19)
+    const inside = point(2, 2)
+    const outside = point(15, 10)
+    ;[acrossX, acrossCorner, inside, outside].forEach(entity => index.insert(entity))
+
+    expect(index.query(0, 1, 2)).toEqual([acrossX, inside, acrossCorner])
+    expect(new SpatialIndex<{ x: number; y: number }>(30, 20).query(0, 1, 2)).toEqual([])
+  })
+
+  it('should order equally distant entities by the tie comparator, whatever the insertion order', () => {
+    const byId = (a: { id: string }, b: { id: string }) => a.id.localeCompare(b.id)
+    const entities = [
+      { id: 'c', x: 4, y: 5 },
+      { id: 'a', x: 6, y: 5 },
+      { id: 'd', x: 5, y: 4 },
+      { id: 'b', x: 5, y: 6 }
+    ]
+    const forward = new SpatialIndex<{ id: string; x: number; y: number }>(16, 16, 4, byId)
+    const backward = new SpatialIndex<{ id: string; x: number; y: number }>(16, 16, 4, byId)
+    entities.forEach(entity => forward.insert(entity))
+    ;[...entities].reverse().forEach(entity => backward.insert(entity))
+
+    expect(forward.query(5, 5, 1).map(e => e.id)).toEqual(['a', 'b', 'c', 'd'])
+    expect(backward.query(5, 5, 1).map(e => e.id)).toEqual(['a', 'b', 'c', 'd'])
+  })
+
+  it('should search the full square around the origin', () => {
+    const index = new SpatialIndex<{ x: number; y: number }>(16, 16)
+    const corner = point(2, 2)
+    index.insert(corner)
+
+    expect(index.query(0, 0, 2)).toEqual([corner])
+    expect(index.query(0, 0, 1)).toEqual([])
+  })
+})
+
+describe('World spatial index', () => {
+  it('should follow organisms as they are placed, moved and removed', () => {
+    const world = new World(WORLD_CONFIG)
+    const sheep = OrganismFactory.createSheep({ id: 'sheep-1', x: 5, y: 5, energy: 50 })
+    world.setCellContent(5, 5, { sheep })
+
+    expect(world.findNearby('sheep', 5, 5, 1)).toEqual([sheep])
+
+    world.moveOrganism(sheep, 'sheep', 20, 20)
+    expect(world.findNearby('sheep', 5, 5, 3)).toEqual([])
+    expect(world.findNearby('sheep', 21, 21, 1)).toEqual([sheep])
+    expect(world.getCell(5, 5)?.sheep).toBeUndefined()
+
+    world.removeOrganism(20, 20, 'sheep')
+    expect(world.findNearby('sheep', 20, 20, 1)).toEqual([])
+  })
+
+  it('should stay in sync with the grid while a large world runs', () => {
+    const simulation = new SimulationEngine(createWorldConfig({ width: 300, height: 300 }), { seed: 3 })
+    const world = simulation.getWorld()
+    for (let x = 0; x < 300; x += 4) {
+      for (let y = 0; y < 300; y += 4) {
+        world.setCellContent(x, y, { sheep: OrganismFactory.createSheep({ id: `sheep-${x}-${y}`, x, y, energy: 40 }) })
+      }
+    }
+
+    for (let i = 0; i < 5; i++) {
+      simulation.step()
+    }
+
+    const sheep = world.getOrganismsByType('sheep')
+    expect(sheep.length).toBeGreaterThan(1000)
+    sheep.slice(0, 50).forEach(s => {
+      expect(world.findNearby('sheep', s.x, s.y, 0)).toEqual([s])
+    })
+  })
+})
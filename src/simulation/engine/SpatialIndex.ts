@@ -0,0 +1,147 @@
+/**
+ * SpatialIndex keeps positioned entities in a coarse bucket grid so neighbor
+ * queries only touch the buckets overlapping the search radius instead of
+ * scanning every cell (or every organism) in range
+ */
+
+import { wrappedOffset } from './WorldBoundary'
+
+export interface Positioned {
+  x: number;
+  y: number;
+}
+
+/**
+ * Cell ranges covering lo..hi along an axis of the given size, split where it wraps past an edge
+ */
+const wrappedSpans = (lo: number, hi: number, size: number): Array<[number, number]> => {
+  if (hi - lo + 1 >= size) return [[0, size - 1]]
+  if (lo < 0) return [[lo + size, size - 1], [0, hi]]
+  if (hi >= size) return [[lo, size - 1], [0, hi - size]]
+  return [[lo, hi]]
+}
+
+export class SpatialIndex<T extends Positioned> {
+  private width: number
+  private height: number
+  private bucketSize: number
+  private columns: number
+  private rows: number
+  private buckets: T[][]
+  // Bucket each entity was filed under, so removal works even if its x/y already changed
+  private locations = new Map<T, number>()
+  // Orders equally distant entities so results never depend on bucket/insertion order
+  private compareTies: (a: T, b: T) => number
+  // Whether queries reach across the edges to the opposite side (a torus world)
+  private wrap: boolean
+
+  constructor(
+    width: number,
+    height: number,
+    bucketSize: number = 8,
+    compareTies: (a: T, b: T) => number = () => 0,
+    wrap: boolean = false
+  ) {
+    this.width = width
+    this.height = height
+    this.bucketSize = bucketSize
+    this.compareTies = compareTies
+    this.wrap = wrap
+    this.columns = Math.max(1, Math.ceil(width / bucketSize))
+    this.rows = Math.max(1, Math.ceil(height / bucketSize))
+    this.buckets = Array.from({ length: this.columns * this.rows }, () => [])
+  }
+
+  public insert(entity: T): void {
+    if (this.locations.has(entity)) {
+      this.remove(entity)
+    }
+    const bucket = this.bucketIndex(entity.x, entity.y)
+    this.buckets[bucket].push(entity)
+    this.locations.set(entity, bucket)
+  }
+
+  public remove(entity: T): boolean {
+    const bucket = this.locations.get(entity)
+    if (bucket === undefined) return false
+
+    const items = this.buckets[bucket]
+    const index = items.indexOf(entity)
+    if (index !== -1) {
+      items.splice(index, 1)
+    }
+    this.locations.delete(entity)
+    return true
+  }
+
+  /**
+   * Re-file an entity after its x/y changed
+   */
+  public update(entity: T): void {
+    const bucket = this.locations.get(entity)
+    if (bucket === this.bucketIndex(entity.x, entity.y)) return
+    this.insert(entity)
+  }
+
+  public has(entity: T): boolean {
+    return this.locations.has(entity)
+  }
+
+  public size(): number {
+    return this.locations.size
+  }
+
+  public clear(): void {
+    this.buckets.forEach(bucket => { bucket.length = 0 })
+    this.locations.clear()
+  }
+
+  /**
+   * Entities in the (2r+1)² square around (x, y), nearest first by Euclidean distance,
+   * equally distant ones ordered by compareTies; on a wrapping index the square continues across the edges
+   */
+  public query(x: number, y: number, radius: number): T[] {
+    const xSpans: Array<[number, number]> = this.wrap ? wrappedSpans(x - radius, x + radius, this.width) : [[x - radius, x + radius]]
+    const ySpans: Array<[number, number]> = this.wrap ? wrappedSpans(y - radius, y + radius, this.height) : [[y - radius, y + radius]]
+    const offsetX = (entity: T) => this.wrap ? wrappedOffset(x, entity.x, this.width) : entity.x - x
+    const offsetY = (entity: T) => this.wrap ? wrappedOffset(y, entity.y, this.height) : entity.y - y
+
+    const found: Array<{ entity: T; distanceSquared: number }> = []
+    xSpans.forEach(([minX, maxX]) => ySpans.forEach(([minY, maxY]) => {
+      const minColumn = this.clampColumn(Math.floor(minX / this.bucketSize))
+      const maxColumn = this.clampColumn(Math.floor(maxX / this.bucketSize))
+      const minRow = this.clampRow(Math.floor(minY / this.bucketSize))
+      const maxRow = this.clampRow(Math.floor(maxY / this.bucketSize))
+
+      for (let column = minColumn; column <= maxColumn; column++) {
+        for (let row = minRow; row <= maxRow; row++) {
+          this.buckets[row * this.columns + column].forEach(entity => {
+            const dx = offsetX(entity)
+            const dy = offsetY(entity)
+            if (Math.abs(dx) <= radius && Math.abs(dy) <= radius && entity.x >= minX && entity.x <= maxX && entity.y >= minY && entity.y <= maxY) {
+              found.push({ entity, distanceSquared: dx * dx + dy * dy })
+            }
+          })
+        }
+      }
+    }))
+
+    return found
+      .sort((a, b) => a.distanceSquared - b.distanceSquared || this.compareTies(a.entity, b.entity))
+      .map(f => f.entity)
+  }
+
+  private bucketIndex(x: number, y: number): number {
+    const column = this.clampColumn(Math.floor(x / this.bucketSize))
+    const row = this.clampRow(Math.floor(y / this.bucketSize))
+    return row * this.columns + column
+  }
+
+  private clampColumn(column: number): number {
+    return Math.min(this.columns - 1, Math.max(0, column))
+  }
+
+  private clampRow(row: number): number {
+    return Math.min(this.rows - 1, Math.max(0, row))
+  }
+}
@@ -315,4 +315,70 @@ describe('StepProcessor', () => {
     expect(stats.grassCount).toBeGreaterThan(0)
     expect(stats.sheepCount).toBeGreaterThan(0)
   })
-})
\ No newline at end of file
+
+  describe('target selection', () => {
+    // Every compass direction, so a scan-order bias toward any corner would show up
+    const DIRECTIONS = [
+      [-1, -1], [0, -1], [1, -1],
+      [-1, 0], [1, 0],
+      [-1, 1], [0, 1], [1, 1]
+    ]
+
+    const addGrass = (id: string, x: number, y: number, density: number) => {
+      const grass = OrganismFactory.createGrass({ id, x, y, density })
+      world.setCellContent(x, y, { grass })
+      return grass
+    }
+
+    const addHungrySheep = (x: number, y: number) => {
+      const sheep = OrganismFactory.createSheep({ id: 'sheep-1', x, y, energy: 50 })
+      sheep.hunger = WORLD_CONFIG.sheep.hungerThreshold + 5
+      world.setCellContent(x, y, { sheep })
+      return sheep
+    }
+
+    it.each(DIRECTIONS)('should graze the nearest grass in direction (%i, %i)', (dx, dy) => {
+      addHungrySheep(20, 20)
+      const near = addGrass('grass-near', 20 + dx, 20 + dy, 0.3)
+      // Farther away, on the opposite side (scanned first for half of the directions)
+      const far = addGrass('grass-far', 20 - 2 * dx, 20 - 2 * dy, 0.3)
+
+      stepProcessor.processStep()
+
+      // Grass this sparse is grazed away in a single bite
+      expect(world.getCell(near.x, near.y)?.grass).toBeUndefined()
+      expect(world.getCell(far.x, far.y)?.grass).toBe(far)
+    })
+
+    it('should break distance ties by preference, not position', () => {
+      addHungrySheep(20, 20)
+      const west = addGrass('grass-a', 19, 20, 0.4)
+      const east = addGrass('grass-b', 21, 20, 0.3)
+      stepProcessor.processStep()
+      expect(world.getCell(west.x, west.y)?.grass).toBeUndefined()
+      expect(world.getCell(east.x, east.y)?.grass).toBe(east)
+
+      world = new World(WORLD_CONFIG)
+      stepProcessor = new StepProcessor(world, WORLD_CONFIG)
+      addHungrySheep(20, 20)
+      const westPoor = addGrass('grass-a', 19, 20, 0.3)
+      const eastRich = addGrass('grass-b', 21, 20, 0.4)
+      stepProcessor.processStep()
+      expect(world.getCell(eastRich.x, eastRich.y)?.grass).toBeUndefined()
+      expect(world.getCell(westPoor.x, westPoor.y)?.grass).toBe(westPoor)
+    })
+
+    it.each(DIRECTIONS)('should flee from the nearest wolf in direction (%i, %i)', (dx, dy) => {
+      const sheep = OrganismFactory.createSheep({ id: 'sheep-1', x: 30, y: 30, energy: 50 })
+      world.setCellContent(30, 30, { sheep })
+      world.setCellContent(30 + 2 * dx, 30 + 2 * dy, { wolf: OrganismFactory.createWolf({ id: 'wolf-near', x: 30 + 2 * dx, y: 30 + 2 * dy }) })
+      world.setCellContent(30 - 4 * dx, 30 - 4 * dy, { wolf: OrganismFactory.createWolf({ id: 'wolf-far', x: 30 - 4 * dx, y: 30 - 4 * dy }) })
+
+      stepProcessor.processStep()
+
+      const range = WORLD_CONFIG.sheep.movementRange
+      expect(sheep.x).toBe(30 - dx * range)
+      expect(sheep.y).toBe(30 - dy * range)
+    })
+  })
+})
@@ -6,57 +6,103 @@
 import { World } from './World'
 import { WorldConfig } from '../config/WorldConfig'
 import { ReproductionProcessor } from './ReproductionProcessor'
+import { DiseaseProcessor } from './DiseaseProcessor'
+import { MigrationProcessor } from './MigrationProcessor'
+import { RandomGenerator } from '../utils/RandomGenerator'
+import { SimulationEventBus } from './SimulationEventBus'
+import { Logger } from '../utils/Logger'
+import { StepTimer } from '../utils/StepTimer'
 import { 
   Grass, 
   Sheep, 
   Wolf, 
   Direction, 
   Season,
-  WorldCell 
+  WorldCell,
+  StepTimings,
+  Position
 } from '../types/SimulationTypes'
 
 export class StepProcessor {
   private world: World
   private config: WorldConfig
   private reproductionProcessor: ReproductionProcessor
+  private diseaseProcessor: DiseaseProcessor
+  private migrationProcessor: MigrationProcessor
+  private rng: RandomGenerator
+  private events: SimulationEventBus
+  private logger: Logger
   private currentStep: number = 0
+  private timer = new StepTimer()
 
-  constructor(world: World, config: WorldConfig) {
+  constructor(world: World, config: WorldConfig, rng: RandomGenerator = new RandomGenerator()) {
     this.world = world
     this.config = config
-    this.reproductionProcessor = new ReproductionProcessor(world, config)
+    this.rng = rng
+    this.events = world.getEventBus()
+    this.logger = world.getLogger()
+    this.reproductionProcessor = new ReproductionProcessor(world, config, rng)
+    this.diseaseProcessor = new DiseaseProcessor(world, config, rng)
+    this.migrationProcessor = new MigrationProcessor(world, config, rng)
+  }
+
+  /**
+   * Use an updated config from the next step on (reproduction, disease and migration included)
+   */
+  public setConfig(config: WorldConfig): void {
+    this.config = config
+    this.reproductionProcessor.setConfig(config)
+    this.diseaseProcessor.setConfig(config)
+    this.migrationProcessor.setConfig(config)
   }
 
   public processStep(): void {
-    this.currentStep++
+    // Derive from the world so processors stay in sync after a snapshot is loaded
+    this.currentStep = this.world.getCurrentStep() + 1
+    
+    this.timer.reset()
     
     // Process all organisms in batch operations
     this.processGrassBatch()
-    this.processSheepBatch()
-    this.processWolvesBatch()
+    this.timer.measure('sheep', () => this.processSheepBatch())
+    this.timer.measure('wolves', () => this.processWolvesBatch())
+    this.timer.measure('disease', () => this.diseaseProcessor.processDisease())
+    this.timer.measure('migration', () => this.migrationProcessor.processImmigration(this.currentStep))
     
     // Process reproduction for all species
-    this.reproductionProcessor.processReproduction(this.currentStep)
-    
-    // Update world statistics
-    this.world.updateStatistics()
+    this.timer.measure('reproduction', () => this.reproductionProcessor.processReproduction(this.currentStep))
     
-    // Increment world step
-    this.world.incrementStep()
+    this.timer.measure('statistics', () => {
+      // Update world statistics
+      this.world.updateStatistics()
+      
+      // Increment world step
+      this.world.incrementStep()
+    })
+  }
+
+  /**
+   * Time spent in each phase of the last processed step (the analyzer phase is timed by the engine)
+   */
+  public getTimings(): StepTimings {
+    return this.timer.getTimings()
   }
 
   private processGrassBatch(): void {
-    const grass = this.world.getOrganismsByType('grass') as Grass[]
-    if (grass.length === 0) return
+    const grass = this.timer.measure('grassGrowth', () => {
+      const grass = this.world.getOrganismsByType('grass') as Grass[]
 
-    // Batch process grass aging
-    grass.forEach(g => g.age++)
+      // Batch process grass aging
+      grass.forEach(g => g.age++)
 
-    // Batch process grass growth
-    this.processGrassGrowthBatch(grass)
+      // Batch process grass growth
+      this.processGrassGrowthBatch(grass)
+      return grass
+    })
+    if (grass.length === 0) return
 
     // Batch process grass spreading
-    this.processGrassSpreadingBatch(grass)
+    this.timer.measure('grassSpreading', () => this.processGrassSpreadingBatch(grass))
   }
 
   private processGrassGrowthBatch(grass: Grass[]): void {
@@ -70,12 +116,14 @@ export class StepProcessor {
     
     // Process all grass with calculated modifiers
     grass.forEach(g => {
-      if (!g.isAlive || g.density >= this.config.grass.maxDensity) return
+      const terrain = this.world.getTerrainEffects(g.x, g.y)
+      const maxDensity = this.config.grass.maxDensity * terrain.maxDensity
+      if (!g.isAlive || g.density >= maxDensity) return
       
-      const growthRate = baseGrowthRate * seasonalModifier * temperatureModifier
+      const growthRate = baseGrowthRate * seasonalModifier * temperatureModifier * terrain.growth
       
-      if (Math.random() < growthRate) {
-        g.density = Math.min(g.density + 0.05, this.config.grass.maxDensity)
+      if (this.rng.next() < growthRate) {
+        g.density = Math.min(g.density + 0.05, maxDensity)
         g.growthStage = this.getGrowthStage(g.density)
       }
     })
@@ -91,18 +139,13 @@ export class StepProcessor {
     // Process spreading for all mature grass
     matureGrass.forEach(g => {
       for (let i = 0; i < attempts; i++) {
-        const dx = Math.floor(Math.random() * (spreadingRadius * 2 + 1)) - spreadingRadius
-        const dy = Math.floor(Math.random() * (spreadingRadius * 2 + 1)) - spreadingRadius
+        const dx = Math.floor(this.rng.next() * (spreadingRadius * 2 + 1)) - spreadingRadius
+        const dy = Math.floor(this.rng.next() * (spreadingRadius * 2 + 1)) - spreadingRadius
         
-        const newX = g.x + dx
-        const newY = g.y + dy
-        
-        if (this.isValidPosition(newX, newY)) {
-          const targetCell = this.world.getCell(newX, newY)
-          if (targetCell && !targetCell.grass) {
-            this.createNewGrass(newX, newY)
-            break // Only spread once per grass per step
-          }
+        const target = this.resolvePosition(g.x + dx, g.y + dy)
+        if (target && !this.world.hasOrganism(target.x, target.y, 'grass') && this.world.getTerrainEffects(target.x, target.y).maxDensity > 0) {
+          this.createNewGrass(target.x, target.y, g.id)
+          break // Only spread once per grass per step
         }
       }
     })
@@ -148,18 +191,19 @@ export class StepProcessor {
         
         s.energy += consumed * this.config.sheep.energyPerGrass
         s.hunger = 0
+        this.emitAte(s, 'sheep', cell.grass.id, 'grass', consumed * this.config.sheep.energyPerGrass)
 
         if (cell.grass.density <= 0) {
           this.world.recordDeath(cell.grass, 'grazing', `Grazed by sheep ${s.id}`)
-          delete cell.grass // Only remove grass, keep other organisms
+          this.world.removeOrganism(s.x, s.y, 'grass') // Only remove grass, keep other organisms
         }
         return
       }
       
       // If no grass in current cell, try to find grass nearby
       const nearbyGrass = this.findNearbyOrganisms(s.x, s.y, 2, 'grass') as Grass[]
-      if (nearbyGrass.length > 0) {
-        const target = nearbyGrass[0]
+      const target = this.selectTarget(s, nearbyGrass, g => -g.density) // Richest of the nearest patches
+      if (target) {
         const targetCell = this.world.getCell(target.x, target.y)
         if (targetCell?.grass && targetCell.grass.density > 0) {
           const consumed = Math.min(this.config.grass.consumptionRate, targetCell.grass.density)
@@ -168,10 +212,11 @@ export class StepProcessor {
           
           s.energy += consumed * this.config.sheep.energyPerGrass
           s.hunger = 0
+          this.emitAte(s, 'sheep', targetCell.grass.id, 'grass', consumed * this.config.sheep.energyPerGrass)
 
           if (targetCell.grass.density <= 0) {
             this.world.recordDeath(targetCell.grass, 'grazing', `Grazed by sheep ${s.id}`)
-            delete targetCell.grass // Only remove grass, keep other organisms
+            this.world.removeOrganism(target.x, target.y, 'grass') // Only remove grass, keep other organisms
           }
         }
       }
@@ -186,38 +231,38 @@ export class StepProcessor {
     sheep.forEach(s => {
       // First priority: flee from nearby wolves (survival instinct)
       const nearbyWolves = this.findNearbyOrganisms(s.x, s.y, 6, 'wolf') as Wolf[]
-      if (nearbyWolves.length > 0) {
-        // Move away from the nearest wolf (use full movement range for escape)
-        const threat = nearbyWolves[0]
-        const dx = Math.sign(s.x - threat.x) // Opposite direction
-        const dy = Math.sign(s.y - threat.y) // Opposite direction
-        const newX = s.x + dx * movementRange
-        const newY = s.y + dy * movementRange
+      // Move away from the nearest (and, on ties, strongest) wolf using full movement range
+      const threat = this.selectTarget(s, nearbyWolves, w => -w.energy)
+      if (threat) {
+        const away = this.world.getBoundary().offset(threat, s)
+        const newX = s.x + Math.sign(away.dx) * movementRange // Opposite direction
+        const newY = s.y + Math.sign(away.dy) * movementRange
         
-        if (this.isValidPosition(newX, newY)) {
-          const targetCell = this.world.getCell(newX, newY)
-          if (targetCell && !targetCell.sheep && !targetCell.wolf) {
-            this.moveOrganism(s, newX, newY, 'sheep')
+        const target = this.resolvePosition(newX, newY)
+        if (target) {
+          const targetCell = this.world.getCell(target.x, target.y)
+          if (targetCell && !targetCell.sheep && !targetCell.wolf && this.canEnter(targetCell)) {
+            this.moveOrganism(s, target.x, target.y, 'sheep')
             return
           }
+        } else if (this.migrationProcessor.tryEmigrate(s, 'sheep', newX, newY)) {
+          return
         }
       }
       
       // Second priority: If sheep is hungry, try to find grass nearby
       if (s.hunger >= this.config.sheep.hungerThreshold) {
         const nearbyGrass = this.findNearbyOrganisms(s.x, s.y, 3, 'grass') as Grass[]
-        if (nearbyGrass.length > 0) {
-          // Move toward the nearest grass
-          const target = nearbyGrass[0]
-          const dx = Math.sign(target.x - s.x)
-          const dy = Math.sign(target.y - s.y)
-          const newX = s.x + dx
-          const newY = s.y + dy
+        // Move toward the nearest grass
+        const target = this.selectTarget(s, nearbyGrass, g => -g.density)
+        if (target) {
+          const toward = this.world.getBoundary().offset(s, target)
+          const step = this.resolvePosition(s.x + Math.sign(toward.dx), s.y + Math.sign(toward.dy))
           
-          if (this.isValidPosition(newX, newY)) {
-            const targetCell = this.world.getCell(newX, newY)
-            if (targetCell && !targetCell.sheep && !targetCell.wolf) {
-              this.moveOrganism(s, newX, newY, 'sheep')
+          if (step) {
+            const targetCell = this.world.getCell(step.x, step.y)
+            if (targetCell && !targetCell.sheep && !targetCell.wolf && this.canEnter(targetCell)) {
+              this.moveOrganism(s, step.x, step.y, 'sheep')
               return
             }
           }
@@ -226,18 +271,21 @@ export class StepProcessor {
       
       // Random movement if not hungry or no grass found
       for (let i = 0; i < attempts; i++) {
-        const dx = Math.floor(Math.random() * (movementRange * 2 + 1)) - movementRange
-        const dy = Math.floor(Math.random() * (movementRange * 2 + 1)) - movementRange
+        const dx = Math.floor(this.rng.next() * (movementRange * 2 + 1)) - movementRange
+        const dy = Math.floor(this.rng.next() * (movementRange * 2 + 1)) - movementRange
         
         const newX = s.x + dx
         const newY = s.y + dy
         
-        if (this.isValidPosition(newX, newY)) {
-          const targetCell = this.world.getCell(newX, newY)
-          if (targetCell && !targetCell.sheep && !targetCell.wolf) {
-            this.moveOrganism(s, newX, newY, 'sheep')
+        const target = this.resolvePosition(newX, newY)
+        if (target) {
+          const targetCell = this.world.getCell(target.x, target.y)
+          if (targetCell && !targetCell.sheep && !targetCell.wolf && this.canEnter(targetCell)) {
+            this.moveOrganism(s, target.x, target.y, 'sheep')
             break
           }
+        } else if (this.migrationProcessor.tryEmigrate(s, 'sheep', newX, newY)) {
+          break
         }
       }
     })
@@ -245,6 +293,7 @@ export class StepProcessor {
 
   private processSheepReproductionBatch(sheep: Sheep[]): void {
     const eligibleSheep = sheep.filter(s => 
+      s.isAlive &&
       s.reproductionCooldown === 0 && 
       s.energy >= this.config.sheep.reproductionThreshold
     )
@@ -255,7 +304,14 @@ export class StepProcessor {
     const reproductionPairs = this.findReproductionPairs(eligibleSheep, 2)
     
     reproductionPairs.forEach(([parent1, parent2]) => {
-      if (Math.random() < this.config.sheep.reproductionRate) {
+      if (this.rng.next() < this.config.sheep.reproductionRate) {
+        this.events.emit({
+          type: 'organism_reproduced',
+          organismId: parent1.id,
+          organismType: 'sheep',
+          step: this.currentStep,
+          data: { mateId: parent2.id, litterSize: 1 }
+        })
         this.createSheepOffspring(parent1, parent2)
         parent1.reproductionCooldown = 20
         parent2.reproductionCooldown = 20
@@ -295,25 +351,28 @@ export class StepProcessor {
     // Process hunting for all hungry wolves
     hungryWolves.forEach(w => {
       const nearbySheep = this.findNearbyOrganisms(w.x, w.y, huntingRadius, 'sheep') as Sheep[]
+      const target = this.selectTarget(w, nearbySheep, sheep => sheep.energy) // Weakest of the nearest sheep
       
-      if (nearbySheep.length > 0) {
-        const target = nearbySheep[0]
+      if (target) {
         w.huntingTarget = target.id
         
-        const distance = Math.sqrt((target.x - w.x) ** 2 + (target.y - w.y) ** 2)
+        const distance = this.world.getBoundary().distance(w, target)
+        const cover = this.world.getTerrainEffects(target.x, target.y).cover
         
-        if (distance <= 1) {
+        if (distance <= 1 && cover > 0 && this.rng.next() < cover) {
+          // The sheep hides in cover; the wolf loses it for now
+          this.logger.debug('hunting', () => `🌲 WOLF HUNT FOILED: sheep ${target.id} hid from ${w.id} in cover at step ${this.currentStep}`)
+          w.huntingTarget = undefined
+        } else if (distance <= 1) {
           // Eat the sheep
-          console.log(`🍖 WOLF HUNT SUCCESS: ${w.id} caught sheep ${target.id} at step ${this.currentStep} (energy: ${w.energy.toFixed(2)} -> ${(w.energy + this.config.wolf.energyPerSheep).toFixed(2)}, hunger: ${w.hunger} -> 0)`)
+          this.logger.debug('hunting', () => `🍖 WOLF HUNT SUCCESS: ${w.id} caught sheep ${target.id} at step ${this.currentStep} (energy: ${w.energy.toFixed(2)} -> ${(w.energy + this.config.wolf.energyPerSheep).toFixed(2)}, hunger: ${w.hunger} -> 0)`)
           this.world.recordDeath(target, 'hunting', `Hunted by wolf ${w.id}`)
           // Only remove the sheep, keep other organisms in the cell
-          const cell = this.world.getCell(target.x, target.y)
-          if (cell) {
-            delete cell.sheep
-          }
+          this.world.removeOrganism(target.x, target.y, 'sheep')
           w.energy += this.config.wolf.energyPerSheep
           w.hunger = 0
           w.huntingTarget = undefined
+          this.emitAte(w, 'wolf', target.id, 'sheep', this.config.wolf.energyPerSheep)
         } else {
           // Move toward target
           this.moveTowardTarget(w, target.x, target.y)
@@ -321,7 +380,7 @@ export class StepProcessor {
       } else {
         // No sheep found nearby, clear hunting target
         if (w.hunger > 80) {
-          console.log(`🔍 WOLF HUNTING FAILURE: ${w.id} found no sheep within radius ${huntingRadius} at step ${this.currentStep} (energy: ${w.energy.toFixed(2)}, hunger: ${w.hunger})`)
+          this.logger.debug('hunting', () => `🔍 WOLF HUNTING FAILURE: ${w.id} found no sheep within radius ${huntingRadius} at step ${this.currentStep} (energy: ${w.energy.toFixed(2)}, hunger: ${w.hunger})`)
         }
         w.huntingTarget = undefined
       }
@@ -340,22 +399,20 @@ export class StepProcessor {
       const isHungry = w.hunger >= this.config.wolf.hungerThreshold * 0.4
       const searchRadius = isHungry ? huntingRadius : Math.floor(huntingRadius * 0.7)
       const nearbySheep = this.findNearbyOrganisms(w.x, w.y, searchRadius, 'sheep') as Sheep[]
+      // Move toward the nearest sheep (keep original simple logic but use better detection)
+      const target = this.selectTarget(w, nearbySheep, sheep => sheep.energy)
       
-      if (nearbySheep.length > 0) {
-        // Move toward the nearest sheep (keep original simple logic but use better detection)
-        const target = nearbySheep[0]
-        const dx = Math.sign(target.x - w.x)
-        const dy = Math.sign(target.y - w.y)
+      if (target) {
+        const toward = this.world.getBoundary().offset(w, target)
         
         // Use up to 4 cells of movement toward target (balanced for massive world)
         const moveDistance = Math.min(4, movementRange)
-        const newX = w.x + dx * moveDistance
-        const newY = w.y + dy * moveDistance
+        const step = this.resolvePosition(w.x + Math.sign(toward.dx) * moveDistance, w.y + Math.sign(toward.dy) * moveDistance)
         
-        if (this.isValidPosition(newX, newY)) {
-          const targetCell = this.world.getCell(newX, newY)
-          if (targetCell && !targetCell.wolf) {
-            this.moveOrganism(w, newX, newY, 'wolf')
+        if (step) {
+          const targetCell = this.world.getCell(step.x, step.y)
+          if (targetCell && !targetCell.wolf && this.canEnter(targetCell)) {
+            this.moveOrganism(w, step.x, step.y, 'wolf')
             return
           }
         }
@@ -363,18 +420,21 @@ export class StepProcessor {
       
       // Random movement if not hunting or no sheep found (keep original logic)
       for (let i = 0; i < attempts; i++) {
-        const dx = Math.floor(Math.random() * (movementRange * 2 + 1)) - movementRange
-        const dy = Math.floor(Math.random() * (movementRange * 2 + 1)) - movementRange
+        const dx = Math.floor(this.rng.next() * (movementRange * 2 + 1)) - movementRange
+        const dy = Math.floor(this.rng.next() * (movementRange * 2 + 1)) - movementRange
         
         const newX = w.x + dx
         const newY = w.y + dy
         
-        if (this.isValidPosition(newX, newY)) {
-          const targetCell = this.world.getCell(newX, newY)
-          if (targetCell && !targetCell.wolf) {
-            this.moveOrganism(w, newX, newY, 'wolf')
+        const target = this.resolvePosition(newX, newY)
+        if (target) {
+          const targetCell = this.world.getCell(target.x, target.y)
+          if (targetCell && !targetCell.wolf && this.canEnter(targetCell)) {
+            this.moveOrganism(w, target.x, target.y, 'wolf')
             break
           }
+        } else if (this.migrationProcessor.tryEmigrate(w, 'wolf', newX, newY)) {
+          break
         }
       }
     })
@@ -411,9 +471,9 @@ export class StepProcessor {
         this.world.clearCellContent(org.x, org.y)
         this.world.recordDeath(org as unknown as Sheep | Wolf | Grass, deathCause, deathDetails)
         
-        // Debug logging for wolf deaths (can be removed in production)
+        // Debug logging for wolf deaths
         if (type === 'wolf') {
-          console.log(`💀 WOLF DEATH: ${(org as unknown as { id: string }).id} died of ${deathCause} at step ${this.currentStep} (energy: ${org.energy.toFixed(2)}, hunger: ${org.hunger}, age: ${org.age})`)
+          this.logger.debug('deaths', () => `💀 WOLF DEATH: ${(org as unknown as { id: string }).id} died of ${deathCause} at step ${this.currentStep} (energy: ${org.energy.toFixed(2)}, hunger: ${org.hunger}, age: ${org.age})`)
         }
         
         return false
@@ -436,7 +496,7 @@ export class StepProcessor {
       for (let j = i + 1; j < organisms.length; j++) {
         if (used.has(organisms[j].id)) continue
         
-        const distance = Math.sqrt((organisms[i].x - organisms[j].x) ** 2 + (organisms[i].y - organisms[j].y) ** 2)
+        const distance = this.world.getBoundary().distance(organisms[i], organisms[j])
         if (distance <= maxDistance) {
           pairs.push([organisms[i], organisms[j]])
           used.add(organisms[i].id)
@@ -449,9 +509,9 @@ export class StepProcessor {
     return pairs
   }
 
-  private createNewGrass(x: number, y: number): void {
+  private createNewGrass(x: number, y: number, parentId: string): void {
     const newGrass: Grass = {
-      id: `grass-${Date.now()}-${Math.random()}`,
+      id: `grass-${this.currentStep}-${this.rng.nextId()}`,
       x,
       y,
       energy: 0.1,
@@ -467,17 +527,27 @@ export class StepProcessor {
     }
     
     this.world.setCellContent(x, y, { grass: newGrass })
+    this.events.emit({
+      type: 'organism_born',
+      organismId: newGrass.id,
+      organismType: 'grass',
+      step: this.currentStep,
+      data: { x, y, parentId }
+    })
   }
 
   private createSheepOffspring(parent1: Sheep, parent2: Sheep): void {
-    const offspringX = parent1.x + Math.floor(Math.random() * 3) - 1
-    const offspringY = parent1.y + Math.floor(Math.random() * 3) - 1
+    const birthplace = this.resolvePosition(
+      parent1.x + Math.floor(this.rng.next() * 3) - 1,
+      parent1.y + Math.floor(this.rng.next() * 3) - 1
+    )
     
-    if (this.isValidPosition(offspringX, offspringY)) {
+    if (birthplace) {
+      const { x: offspringX, y: offspringY } = birthplace
       const targetCell = this.world.getCell(offspringX, offspringY)
-      if (targetCell && !targetCell.sheep && !targetCell.wolf) {
+      if (targetCell && !targetCell.sheep && !targetCell.wolf && this.world.getTerrainEffects(offspringX, offspringY).passable) {
         const offspring: Sheep = {
-          id: `sheep-${Date.now()}-${Math.random()}`,
+          id: `sheep-${this.currentStep}-${this.rng.nextId()}`,
           x: offspringX,
           y: offspringY,
           energy: 0.5,
@@ -497,6 +567,13 @@ export class StepProcessor {
         }
         
         this.world.setCellContent(offspringX, offspringY, { sheep: offspring })
+        this.events.emit({
+          type: 'organism_born',
+          organismId: offspring.id,
+          organismType: 'sheep',
+          step: this.currentStep,
+          data: { x: offspringX, y: offspringY, parentId: parent1.id, mateId: parent2.id }
+        })
       }
     }
   }
@@ -506,58 +583,68 @@ export class StepProcessor {
     const oldX = organism.x
     const oldY = organism.y
     
-    // Only remove the specific organism from the old cell, keep other organisms
-    const oldCell = this.world.getCell(oldX, oldY)
-    if (oldCell) {
-      delete oldCell[type]
-    }
-    
-    organism.x = newX
-    organism.y = newY
-    organism.lastDirection = this.getDirection(newX - oldX, newY - oldY)
-    this.world.setCellContent(newX, newY, { [type]: organism })
+    const { dx, dy } = this.world.getBoundary().offset(organism, { x: newX, y: newY })
+    this.world.moveOrganism(organism, type, newX, newY)
+    organism.lastDirection = this.getDirection(dx, dy)
+    this.events.emit({
+      type: 'organism_moved',
+      organismId: organism.id,
+      organismType: type,
+      step: this.currentStep,
+      data: { fromX: oldX, fromY: oldY, toX: newX, toY: newY }
+    })
+  }
+
+  private emitAte(eater: Sheep | Wolf, type: 'sheep' | 'wolf', preyId: string, preyType: 'grass' | 'sheep', energyGained: number): void {
+    this.events.emit({
+      type: 'organism_ate',
+      organismId: eater.id,
+      organismType: type,
+      step: this.currentStep,
+      data: { preyId, preyType, energyGained, x: eater.x, y: eater.y }
+    })
   }
 
   private moveTowardTarget(wolf: Wolf, targetX: number, targetY: number): void {
-    const dx = targetX - wolf.x
-    const dy = targetY - wolf.y
-    const moveX = Math.sign(dx)
-    const moveY = Math.sign(dy)
-    const newX = wolf.x + moveX
-    const newY = wolf.y + moveY
+    const { dx, dy } = this.world.getBoundary().offset(wolf, { x: targetX, y: targetY })
+    const step = this.resolvePosition(wolf.x + Math.sign(dx), wolf.y + Math.sign(dy))
     
-    if (this.isValidPosition(newX, newY)) {
-      const targetCell = this.world.getCell(newX, newY)
-      if (targetCell && !targetCell.wolf) {
-        this.moveOrganism(wolf, newX, newY, 'wolf')
+    if (step) {
+      const targetCell = this.world.getCell(step.x, step.y)
+      if (targetCell && !targetCell.wolf && this.canEnter(targetCell)) {
+        this.moveOrganism(wolf, step.x, step.y, 'wolf')
       }
     }
   }
 
+  /**
+   * Organisms of a type within radius of (x, y), nearest first (backed by the world's spatial index)
+   */
   private findNearbyOrganisms(x: number, y: number, radius: number, type: 'grass' | 'sheep' | 'wolf'): (Grass | Sheep | Wolf)[] {
-    const organisms: (Grass | Sheep | Wolf)[] = []
-    
-    for (let dx = -radius; dx <= radius; dx++) {
-      for (let dy = -radius; dy <= radius; dy++) {
-        const checkX = x + dx
-        const checkY = y + dy
-        
-        if (this.isValidPosition(checkX, checkY)) {
-          const cell = this.world.getCell(checkX, checkY)
-          if (cell) {
-            if (type === 'grass' && cell.grass) {
-              organisms.push(cell.grass)
-            } else if (type === 'sheep' && cell.sheep) {
-              organisms.push(cell.sheep)
-            } else if (type === 'wolf' && cell.wolf) {
-              organisms.push(cell.wolf)
-            }
-          }
-        }
+    return this.world.findNearby(type, x, y, radius) as (Grass | Sheep | Wolf)[]
+  }
+
+  /**
+   * Nearest candidate, preferring the lowest `preference` among equally distant ones.
+   * Candidates come nearest first with id-ordered ties, so the choice has no directional bias
+   */
+  private selectTarget<T extends Grass | Sheep | Wolf>(
+    origin: { x: number; y: number },
+    candidates: T[],
+    preference: (candidate: T) => number
+  ): T | undefined {
+    if (candidates.length === 0) return undefined
+
+    const distanceSquared = (c: T) => this.world.getBoundary().distanceSquared(origin, c)
+    const nearestDistance = distanceSquared(candidates[0])
+
+    let best = candidates[0]
+    for (let i = 1; i < candidates.length && distanceSquared(candidates[i]) === nearestDistance; i++) {
+      if (preference(candidates[i]) < preference(best)) {
+        best = candidates[i]
       }
     }
-    
-    return organisms
+    return best
   }
 
   private getSeasonalGrowthModifier(season: Season): number {
@@ -577,8 +664,19 @@ export class StepProcessor {
     return 'dying'
   }
 
-  private isValidPosition(x: number, y: number): boolean {
-    return x >= 0 && x < this.world.getWidth() && y >= 0 && y < this.world.getHeight()
+  /**
+   * Whether an animal may step into a cell: its terrain must be passable, and slow terrain sometimes holds it back
+   */
+  private canEnter(cell: WorldCell): boolean {
+    const terrain = this.world.getTerrainEffects(cell.x, cell.y)
+    return terrain.passable && (terrain.slowdown === 0 || this.rng.next() >= terrain.slowdown)
+  }
+
+  /**
+   * Cell a move to (x, y) lands on under the world's boundary mode, or null when it is off a bounded grid
+   */
+  private resolvePosition(x: number, y: number): Position | null {
+    return this.world.getBoundary().resolve(x, y)
   }
 
   private getDirection(dx: number, dy: number): Direction {
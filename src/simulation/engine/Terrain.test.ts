@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest'
+import { createUniformTerrain, formatTerrainMap, generateTerrain, parseTerrainMap, TerrainMap } from './Terrain'
+import { World } from './World'
+import { StepProcessor } from './StepProcessor'
+import { createWorldConfig, WorldConfig } from '../config/WorldConfig'
+import { OrganismFactory } from '../utils/OrganismFactory'
+import { RandomGenerator } from '../utils/RandomGenerator'
+import { WorldInitializer } from '../utils/WorldInitializer'
+import { TerrainType } from '../types/SimulationTypes'
+
+const BASE_CONFIG = createWorldConfig({ width: 6, height: 6 })
+
+const fillTerrain = (type: TerrainType, except: { x: number; y: number }[] = []): TerrainMap => {
+  const map = createUniformTerrain(6, 6)
+  map.cells.fill(type)
+  except.forEach(({ x, y }) => { map.cells[y * 6 + x] = 'grassland' })
+  return map
+}
+
+const createSetup = (config: WorldConfig, terrain: TerrainMap) => {
+  const world = new World(config)
+  world.setTerrainMap(terrain)
+  return { world, processor: new StepProcessor(world, config, new RandomGenerator(9)) }
+}
+
+describe('Terrain', () => {
+  it('should round-trip maps through text', () => {
+    const text = '.+,\n#~T'
+
+    const map = parseTerrainMap(`${text}\n\n`)
+
+    expect(map).toMatchObject({ width: 3, height: 2 })
+    expect(map.cells).toEqual(['grassland', 'fertile', 'poor', 'rock', 'water', 'forest'])
+    expect(formatTerrainMap(map)).toBe(text)
+  })
+
+  it('should reject malformed maps', () => {
+    expect(() => parseTerrainMap('\n')).toThrow('Terrain map is empty')
+    expect(() => parseTerrainMap('...\n..')).toThrow('Terrain map row 2 has 2 cells; expected 3')
+    expect(() => parseTerrainMap('..x')).toThrow('Unknown terrain symbol "x" at row 1, column 3')
+  })
+
+  it('should generate the configured coverage reproducibly', () => {
+    const coverage = { rock: 0.1, water: 0.2 }
+
+    const map = generateTerrain(20, 20, new RandomGenerator(4), coverage)
+
+    expect(map.cells.filter(type => type === 'rock')).toHaveLength(40)
+    expect(map.cells.filter(type => type === 'water')).toHaveLength(80)
+    expect(generateTerrain(20, 20, new RandomGenerator(4), coverage)).toEqual(map)
+  })
+
+  it('should keep animals off impassable terrain', () => {
+    const { world, processor } = createSetup(BASE_CONFIG, fillTerrain('rock', [{ x: 2, y: 2 }]))
+    const sheep = OrganismFactory.createSheep({ id: 's', x: 2, y: 2, energy: 20 })
+    world.setCellContent(2, 2, { sheep })
+
+    for (let i = 0; i < 10; i++) {
+      processor.processStep()
+      expect(sheep).toMatchObject({ x: 2, y: 2 })
+    }
+  })
+
+  it('should cap grass density by the terrain', () => {
+    const config = { ...BASE_CONFIG, grass: { ...BASE_CONFIG.grass, growthRate: 1 } }
+    const { world, processor } = createSetup(config, fillTerrain('poor'))
+    const grass = OrganismFactory.createGrass({ id: 'g', x: 3, y: 3, density: 0.1 })
+    world.setCellContent(3, 3, { grass })
+
+    for (let i = 0; i < 40; i++) {
+      processor.processStep()
+    }
+
+    expect(grass.density).toBeLessThanOrEqual(config.grass.maxDensity * config.terrain.types.poor.maxDensity)
+    expect(grass.density).toBeGreaterThan(0.1)
+  })
+
+  it('should let sheep hide from wolves in cover', () => {
+    const forest = { ...BASE_CONFIG.terrain.types.forest, cover: 1, slowdown: 1 }
+    const config = { ...BASE_CONFIG, terrain: { ...BASE_CONFIG.terrain, types: { ...BASE_CONFIG.terrain.types, forest } } }
+    const { world, processor } = createSetup(config, fillTerrain('forest'))
+    const sheep = OrganismFactory.createSheep({ id: 's', x: 2, y: 2, energy: 20 })
+    const wolf = OrganismFactory.createWolf({ id: 'w', x: 3, y: 2, energy: 20 })
+    wolf.hunger = config.wolf.hungerThreshold
+    world.setCellContent(2, 2, { sheep })
+    world.setCellContent(3, 2, { wolf })
+
+    for (let i = 0; i < 5; i++) {
+      processor.processStep()
+    }
+
+    expect(sheep.isAlive).toBe(true)
+    expect(world.getDeathStatistics().deathsByCause.hunting).toBeUndefined()
+  })
+
+  it('should lay out mapped terrain before placing organisms', () => {
+    const map = formatTerrainMap(fillTerrain('water', [{ x: 0, y: 0 }, { x: 5, y: 5 }, { x: 1, y: 4 }]))
+    const config = { ...BASE_CONFIG, terrain: { ...BASE_CONFIG.terrain, source: 'map' as const, map } }
+    const world = new World(config)
+
+    WorldInitializer.createProductionEcosystem(world, config, new RandomGenerator(2))
+
+    expect(world.getTerrain(3, 3)).toBe('water')
+    const organisms = [...world.getOrganismsByType('grass'), ...world.getOrganismsByType('sheep'), ...world.getOrganismsByType('wolf')]
+    expect(organisms.length).toBeGreaterThan(0)
+    organisms.forEach(organism => {
+      expect(world.getTerrain(organism.x, organism.y)).toBe('grassland')
+    })
+  })
+})
@@ -0,0 +1,106 @@
+/**
+ * Terrain maps: the ground type of every cell, written as text with one character per cell
+ * (rows top to bottom) so maps can be drawn by hand, stored in configs and snapshots, and
+ * generated procedurally from the simulation seed
+ */
+
+import { TerrainType } from '../types/SimulationTypes'
+import { RandomGenerator } from '../utils/RandomGenerator'
+
+// Order doubles as the numeric code in frame buffers and columnar storage; grassland must stay 0
+export const TERRAIN_TYPES: TerrainType[] = ['grassland', 'fertile', 'poor', 'rock', 'water', 'forest']
+
+export const TERRAIN_SYMBOLS: Record<TerrainType, string> = {
+  grassland: '.',
+  fertile: '+',
+  poor: ',',
+  rock: '#',
+  water: '~',
+  forest: 'T'
+}
+
+const TYPES_BY_SYMBOL = new Map(TERRAIN_TYPES.map(type => [TERRAIN_SYMBOLS[type], type]))
+
+// Random-walk steps per procedural patch
+const PATCH_STEPS = 24
+
+export interface TerrainMap {
+  width: number;
+  height: number;
+  cells: TerrainType[]; // Row-major: cells[y * width + x]
+}
+
+export const terrainCode = (type: TerrainType): number => TERRAIN_TYPES.indexOf(type)
+
+export const terrainFromCode = (code: number): TerrainType => TERRAIN_TYPES[code] ?? 'grassland'
+
+export const createUniformTerrain = (width: number, height: number): TerrainMap =>
+  ({ width, height, cells: new Array<TerrainType>(width * height).fill('grassland') })
+
+/**
+ * Read a map drawn as text; blank lines and trailing spaces are ignored
+ */
+export const parseTerrainMap = (text: string): TerrainMap => {
+  const rows = text.split(/\r?\n/).map(row => row.trimEnd()).filter(row => row.length > 0)
+  if (rows.length === 0) {
+    throw new Error('Terrain map is empty')
+  }
+
+  const width = rows[0].length
+  const cells: TerrainType[] = []
+  rows.forEach((row, y) => {
+    if (row.length !== width) {
+      throw new Error(`Terrain map row ${y + 1} has ${row.length} cells; expected ${width}`)
+    }
+    Array.from(row).forEach((symbol, x) => {
+      const type = TYPES_BY_SYMBOL.get(symbol)
+      if (!type) {
+        throw new Error(`Unknown terrain symbol "${symbol}" at row ${y + 1}, column ${x + 1}`)
+      }
+      cells.push(type)
+    })
+  })
+
+  return { width, height: rows.length, cells }
+}
+
+export const formatTerrainMap = (map: TerrainMap): string =>
+  Array.from({ length: map.height }, (_, y) =>
+    map.cells.slice(y * map.width, (y + 1) * map.width).map(type => TERRAIN_SYMBOLS[type]).join('')
+  ).join('\n')
+
+/**
+ * Scatter patches of each terrain type over grassland until it covers its share of the cells.
+ * Each patch is a short random walk, so types form irregular clumps rather than speckle.
+ */
+export const generateTerrain = (
+  width: number,
+  height: number,
+  rng: RandomGenerator,
+  coverage: Partial<Record<TerrainType, number>>
+): TerrainMap => {
+  const map = createUniformTerrain(width, height)
+  const size = width * height
+
+  TERRAIN_TYPES.forEach(type => {
+    if (type === 'grassland') return
+
+    let remaining = Math.floor((coverage[type] ?? 0) * size)
+    // Bounded so a crowded map (coverage summing near 1) still finishes
+    for (let patch = 0; remaining > 0 && patch < size; patch++) {
+      let x = rng.nextInt(0, width - 1)
+      let y = rng.nextInt(0, height - 1)
+      for (let i = 0; i < PATCH_STEPS && remaining > 0; i++) {
+        const index = y * width + x
+        if (map.cells[index] === 'grassland') {
+          map.cells[index] = type
+          remaining--
+        }
+        x = Math.min(width - 1, Math.max(0, x + rng.nextInt(-1, 1)))
+        y = Math.min(height - 1, Math.max(0, y + rng.nextInt(-1, 1)))
+      }
+    }
+  })
+
+  return map
+}
@@ -0,0 +1,149 @@
+/**
+ * Timeline records a run so earlier steps can be inspected and resumed: a full engine
+ * snapshot every keyframeInterval steps, plus a grid diff and population counts for every
+ * step in between. Inspecting a step replays diffs from the keyframe before it; resuming
+ * restores that keyframe and re-steps, which the seeded engine reproduces exactly.
+ */
+
+import { World } from './World'
+import { PopulationPoint, SimulationSnapshot } from '../types/SimulationTypes'
+import { FrameEncoder } from '../worker/FrameEncoder'
+import { FrameGrid, applyFrameDiff } from '../worker/FrameBuffer'
+import { FrameDiff } from '../worker/WorkerProtocol'
+
+export interface TimelineOptions {
+  /** Steps between keyframe snapshots (default 100) */
+  keyframeInterval?: number
+  /** Keyframes kept before the oldest is dropped, bounding how far back the timeline reaches (default 20) */
+  maxKeyframes?: number
+}
+
+export interface TimelineRange {
+  firstStep: number;
+  lastStep: number;
+}
+
+export interface TimelineFrame {
+  step: number;
+  grid: FrameGrid;
+  populations: PopulationPoint;
+}
+
+interface Keyframe {
+  step: number;
+  snapshot: SimulationSnapshot;
+  frame: FrameDiff;          // Full frame at the keyframe step
+  deltas: FrameDiff[];       // deltas[i] takes the grid from step + i to step + i + 1
+  points: PopulationPoint[]; // points[0] is the keyframe step, then one per delta
+}
+
+const samplePopulation = (world: World): PopulationPoint => {
+  const stats = world.getState().statistics
+  return { step: world.getCurrentStep(), grass: stats.grassCount, sheep: stats.sheepCount, wolves: stats.wolfCount }
+}
+
+export class Timeline {
+  private keyframeInterval: number
+  private maxKeyframes: number
+  private keyframes: Keyframe[] = []
+  private encoder = new FrameEncoder()
+
+  constructor(options: TimelineOptions = {}) {
+    this.keyframeInterval = Math.max(1, Math.floor(options.keyframeInterval ?? 100))
+    this.maxKeyframes = Math.max(1, Math.floor(options.maxKeyframes ?? 20))
+  }
+
+  /**
+   * Whether the world at this step should be captured as a keyframe before stepping on
+   */
+  public needsKeyframe(step: number): boolean {
+    const last = this.keyframes[this.keyframes.length - 1]
+    return !last || (step % this.keyframeInterval === 0 && last.step !== step)
+  }
+
+  public addKeyframe(snapshot: SimulationSnapshot, world: World): void {
+    const step = world.getCurrentStep()
+    // A keyframe replaces everything recorded from its step on
+    this.truncateAfter(step)
+    const last = this.keyframes[this.keyframes.length - 1]
+    if (last?.step === step) {
+      this.keyframes.pop()
+    }
+
+    this.keyframes.push({ step, snapshot, frame: this.encoder.encode(world, true), deltas: [], points: [samplePopulation(world)] })
+    if (this.keyframes.length > this.maxKeyframes) {
+      this.keyframes.shift()
+    }
+  }
+
+  /**
+   * Record the step the world just took
+   */
+  public addStep(world: World): void {
+    const keyframe = this.keyframes[this.keyframes.length - 1]
+    if (!keyframe) return
+
+    keyframe.deltas.push(this.encoder.encode(world))
+    keyframe.points.push(samplePopulation(world))
+  }
+
+  public getRange(): TimelineRange | null {
+    const first = this.keyframes[0]
+    const last = this.keyframes[this.keyframes.length - 1]
+    if (!first || !last) return null
+    return { firstStep: first.step, lastStep: last.step + last.deltas.length }
+  }
+
+  /**
+   * Grid and population counts as they were at a recorded step
+   */
+  public getFrame(step: number): TimelineFrame {
+    const keyframe = this.findKeyframe(step)
+    let grid = applyFrameDiff(null, keyframe.frame)
+    keyframe.deltas.slice(0, step - keyframe.step).forEach(delta => {
+      grid = applyFrameDiff(grid, delta)
+    })
+    return { step, grid, populations: { ...keyframe.points[step - keyframe.step] } }
+  }
+
+  /**
+   * The latest keyframe at or before a recorded step
+   */
+  public getKeyframe(step: number): { step: number; snapshot: SimulationSnapshot } {
+    const keyframe = this.findKeyframe(step)
+    return { step: keyframe.step, snapshot: keyframe.snapshot }
+  }
+
+  /**
+   * Forget everything recorded after a step, so a resumed run records its own future
+   */
+  public truncateAfter(step: number): void {
+    this.keyframes = this.keyframes.filter(k => k.step <= step)
+    const last = this.keyframes[this.keyframes.length - 1]
+    if (last && last.step + last.deltas.length > step) {
+      last.deltas.length = step - last.step
+      last.points.length = step - last.step + 1
+    }
+    // The encoder's previous frame may be from the dropped future; the next delta is a full frame
+    this.encoder.reset()
+  }
+
+  public clear(): void {
+    this.keyframes = []
+    this.encoder.reset()
+  }
+
+  private findKeyframe(step: number): Keyframe {
+    const range = this.getRange()
+    if (!range || step < range.firstStep || step > range.lastStep) {
+      const recorded = range ? `${range.firstStep}–${range.lastStep}` : 'nothing recorded'
+      throw new Error(`Step ${step} is outside the recorded timeline (${recorded})`)
+    }
+
+    let found = this.keyframes[0]
+    this.keyframes.forEach(keyframe => {
+      if (keyframe.step <= step) found = keyframe
+    })
+    return found
+  }
+}
@@ -3,6 +3,14 @@
  */
 
 import { WorldConfig } from '../config/WorldConfig'
+import { SimulationEventBus } from './SimulationEventBus'
+import { Logger } from '../utils/Logger'
+import { SpatialIndex } from './SpatialIndex'
+import { WorldBoundary } from './WorldBoundary'
+import { TerrainMap, createUniformTerrain, formatTerrainMap, parseTerrainMap } from './Terrain'
+import { OrganismKind, WorldStorage } from './WorldStorage'
+import { GridStorage } from './GridStorage'
+import { ColumnarStorage, WorldColumns } from './ColumnarStorage'
 import { 
   WorldState, 
   WorldCell, 
@@ -12,38 +20,73 @@ import {
   Wolf,
   Organism,
   DeathRecord,
-  DeathStatistics
+  DeathStatistics,
+  WorldSnapshot,
+  TerrainType,
+  TerrainEffects
 } from '../types/SimulationTypes'
 
+const compareById = (a: Organism, b: Organism): number => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0)
+
 export class World {
-  private state: WorldState
+  // Cells live in the storage backend; getState() exposes them as `cells`
+  private state: Omit<WorldState, 'cells'>
+  private storage!: WorldStorage
   private config: WorldConfig
-
-  constructor(config: WorldConfig) {
+  private events: SimulationEventBus
+  private logger: Logger
+  // Per-species neighbor lookup, kept in sync by every method that places or removes organisms
+  private spatialIndex!: Record<'grass' | 'sheep' | 'wolf', SpatialIndex<Organism>>
+  private boundary!: WorldBoundary
+
+  constructor(
+    config: WorldConfig,
+    events: SimulationEventBus = new SimulationEventBus(),
+    logger: Logger = Logger.fromConfig(config.debug)
+  ) {
     this.config = config
+    this.events = events
+    this.logger = logger
     this.state = this.initializeWorld()
   }
 
-  private initializeWorld(): WorldState {
-    const cells: WorldCell[][] = []
-    
-    // Initialize empty grid
-    for (let x = 0; x < this.config.width; x++) {
-      cells[x] = []
-      for (let y = 0; y < this.config.height; y++) {
-        cells[x][y] = {
-          x,
-          y,
-          temperature: 20, // Default temperature
-          season: Season.SPRING
-        }
-      }
+  /**
+   * Event bus shared by the world and the processors acting on it
+   */
+  public getEventBus(): SimulationEventBus {
+    return this.events
+  }
+
+  /**
+   * Logger shared by the world and the processors acting on it
+   */
+  public getLogger(): Logger {
+    return this.logger
+  }
+
+  /**
+   * Swap in an updated config; the grid keeps its current dimensions
+   */
+  public setConfig(config: WorldConfig): void {
+    this.config = config
+  }
+
+  private initializeWorld(): Omit<WorldState, 'cells'> {
+    this.storage = this.config.world.storage === 'columnar'
+      ? new ColumnarStorage(this.config.width, this.config.height)
+      : new GridStorage(this.config.width, this.config.height)
+    this.boundary = new WorldBoundary(this.config.width, this.config.height, this.config.world.boundary)
+    const wrap = this.boundary.wraps()
+    this.spatialIndex = {
+      grass: new SpatialIndex(this.config.width, this.config.height, 8, compareById, wrap),
+      sheep: new SpatialIndex(this.config.width, this.config.height, 8, compareById, wrap),
+      wolf: new SpatialIndex(this.config.width, this.config.height, 8, compareById, wrap)
     }
 
+
     return {
       width: this.config.width,
       height: this.config.height,
-      cells,
       currentStep: 0,
       season: Season.SPRING,
       temperature: 20,
@@ -56,8 +99,13 @@ export class World {
         averageGrassDensity: 0,
         averageSheepEnergy: 0,
         averageWolfEnergy: 0,
+        infectedSheep: 0,
+        infectedWolves: 0,
+        immuneSheep: 0,
+        immuneWolves: 0,
+        migration: { sheepEmigrated: 0, wolvesEmigrated: 0, sheepImmigrated: 0, wolvesImmigrated: 0 },
         extinctionEvents: [],
-        populationHistory: [],
+        configChanges: [],
         deathStats: this.initializeDeathStats()
       }
     }
@@ -124,8 +172,16 @@ export class World {
       this.state.statistics.deathStats.grassDeaths++
     }
 
+    this.events.emit({
+      type: 'organism_died',
+      organismId: organism.id,
+      organismType: deathRecord.organismType,
+      step: this.state.currentStep + 1, // Events carry the number of the step being processed
+      data: { x: organism.x, y: organism.y, cause, details, age: organism.age, energy: organism.energy }
+    })
+
     // Log death for debugging
-    console.log(`💀 Death at step ${this.state.currentStep}: ${deathRecord.organismType} ${organism.id} died of ${cause} (energy: ${organism.energy.toFixed(2)}, age: ${organism.age})`)
+    this.logger.debug('deaths', () => `💀 Death at step ${this.state.currentStep}: ${deathRecord.organismType} ${organism.id} died of ${cause} (energy: ${organism.energy.toFixed(2)}, age: ${organism.age})`)
   }
 
   private getOrganismType(organism: Organism): 'grass' | 'sheep' | 'wolf' {
@@ -135,6 +191,18 @@ export class World {
     return 'grass'
   }
 
+  /**
+   * Count an animal leaving through or arriving at the world edge
+   */
+  public recordMigration(type: 'sheep' | 'wolf', direction: 'emigrated' | 'immigrated'): void {
+    const migration = this.state.statistics.migration
+    if (type === 'sheep') {
+      migration[direction === 'emigrated' ? 'sheepEmigrated' : 'sheepImmigrated']++
+    } else {
+      migration[direction === 'emigrated' ? 'wolvesEmigrated' : 'wolvesImmigrated']++
+    }
+  }
+
   public getDeathStatistics(): DeathStatistics {
     return { ...this.state.statistics.deathStats }
   }
@@ -147,15 +215,77 @@ export class World {
     return this.state.height
   }
 
+  /**
+   * Edge behavior every processor moving or searching around the grid should go through
+   */
+  public getBoundary(): WorldBoundary {
+    return this.boundary
+  }
+
+  /**
+   * The whole grid; with columnar storage the first call builds an object for every cell, so prefer getCell
+   */
   public getCells(): WorldCell[][] {
-    return this.state.cells
+    return this.storage.getCells()
   }
 
   public getCell(x: number, y: number): WorldCell | null {
     if (!this.isValidPosition(x, y)) {
       return null
     }
-    return this.state.cells[x][y]
+    return this.storage.getCell(x, y)
+  }
+
+  /**
+   * Whether a cell holds an organism of the given species; cheaper than getCell for occupancy checks
+   */
+  public hasOrganism(x: number, y: number, type: OrganismKind): boolean {
+    return this.isValidPosition(x, y) && this.storage.getOccupant(type, x, y) !== undefined
+  }
+
+  /**
+   * Typed-array view of the world, or null when the grid storage backend is in use
+   */
+  public getColumns(): WorldColumns | null {
+    return this.storage instanceof ColumnarStorage ? this.storage.getColumns() : null
+  }
+
+  /**
+   * Terrain of a cell; off-grid positions read as grassland
+   */
+  public getTerrain(x: number, y: number): TerrainType {
+    return this.isValidPosition(x, y) ? this.storage.getTerrain(x, y) : 'grassland'
+  }
+
+  /**
+   * What the terrain at a cell does to grass growth, movement and hunting, from the current config
+   */
+  public getTerrainEffects(x: number, y: number): TerrainEffects {
+    return this.config.terrain.types[this.getTerrain(x, y)]
+  }
+
+  public getTerrainMap(): TerrainMap {
+    const map = createUniformTerrain(this.state.width, this.state.height)
+    for (let y = 0; y < map.height; y++) {
+      for (let x = 0; x < map.width; x++) {
+        map.cells[y * map.width + x] = this.storage.getTerrain(x, y)
+      }
+    }
+    return map
+  }
+
+  /**
+   * Lay out the terrain of every cell; the map must match the world's size
+   */
+  public setTerrainMap(map: TerrainMap): void {
+    if (map.width !== this.state.width || map.height !== this.state.height) {
+      throw new Error(`Terrain map is ${map.width}x${map.height} but the world is ${this.state.width}x${this.state.height}`)
+    }
+    for (let y = 0; y < map.height; y++) {
+      for (let x = 0; x < map.width; x++) {
+        this.storage.setTerrain(x, y, map.cells[y * map.width + x])
+      }
+    }
   }
 
   public getSeason(): Season {
@@ -171,7 +301,48 @@ export class World {
   }
 
   public getState(): WorldState {
-    return { ...this.state }
+    const storage = this.storage
+    return {
+      ...this.state,
+      get cells() { return storage.getCells() }
+    }
+  }
+
+  /**
+   * Export a detached copy of the world contents for snapshots
+   */
+  public exportSnapshot(): WorldSnapshot {
+    return JSON.parse(JSON.stringify({
+      width: this.state.width,
+      height: this.state.height,
+      currentStep: this.state.currentStep,
+      season: this.state.season,
+      temperature: this.state.temperature,
+      statistics: this.state.statistics,
+      grass: this.getOrganismsByType('grass'),
+      sheep: this.getOrganismsByType('sheep'),
+      wolves: this.getOrganismsByType('wolf'),
+      terrain: formatTerrainMap(this.getTerrainMap())
+    }))
+  }
+
+  /**
+   * Replace the world contents with a previously exported snapshot
+   */
+  public restoreSnapshot(snapshot: WorldSnapshot): void {
+    const copy: WorldSnapshot = JSON.parse(JSON.stringify(snapshot))
+    this.state = this.initializeWorld()
+    this.state.currentStep = copy.currentStep
+    this.state.season = copy.season
+    this.state.temperature = copy.temperature
+    // Counters added after a snapshot was taken start from zero
+    this.state.statistics = { ...this.state.statistics, ...copy.statistics, configChanges: copy.statistics.configChanges ?? [] }
+    this.updateAllCells()
+    this.setTerrainMap(parseTerrainMap(copy.terrain))
+
+    copy.grass.forEach(grass => this.setCellContent(grass.x, grass.y, { grass }))
+    copy.sheep.forEach(sheep => this.setCellContent(sheep.x, sheep.y, { sheep }))
+    copy.wolves.forEach(wolf => this.setCellContent(wolf.x, wolf.y, { wolf }))
   }
 
   public setCellContent(x: number, y: number, content: Partial<WorldCell>): boolean {
@@ -179,24 +350,17 @@ export class World {
       return false
     }
 
-    const cell = this.state.cells[x][y]
-    
     // Update cell content
     if (content.grass !== undefined) {
-      cell.grass = content.grass
+      this.placeInCell(x, y, 'grass', content.grass)
     }
     if (content.sheep !== undefined) {
-      cell.sheep = content.sheep
+      this.placeInCell(x, y, 'sheep', content.sheep)
     }
     if (content.wolf !== undefined) {
-      cell.wolf = content.wolf
-    }
-    if (content.temperature !== undefined) {
-      cell.temperature = content.temperature
-    }
-    if (content.season !== undefined) {
-      cell.season = content.season
+      this.placeInCell(x, y, 'wolf', content.wolf)
     }
+    this.storage.setCellClimate(x, y, content)
 
     return true
   }
@@ -206,14 +370,68 @@ export class World {
       return false
     }
 
-    const cell = this.state.cells[x][y]
-    delete cell.grass
-    delete cell.sheep
-    delete cell.wolf
+    ;(['grass', 'sheep', 'wolf'] as const).forEach(type => {
+      const occupant = this.storage.getOccupant(type, x, y)
+      if (occupant) {
+        this.spatialIndex[type].remove(occupant)
+        this.storage.clearOccupant(type, x, y)
+      }
+    })
+
+    return true
+  }
+
+  /**
+   * Remove one species' organism from a cell, leaving the rest of the cell alone
+   */
+  public removeOrganism(x: number, y: number, type: OrganismKind): boolean {
+    const occupant = this.isValidPosition(x, y) ? this.storage.getOccupant(type, x, y) : undefined
+    if (!occupant) {
+      return false
+    }
+
+    this.spatialIndex[type].remove(occupant)
+    this.storage.clearOccupant(type, x, y)
+    return true
+  }
+
+  /**
+   * Move a sheep or wolf to a new cell, updating its coordinates
+   */
+  public moveOrganism(organism: Sheep | Wolf, type: 'sheep' | 'wolf', newX: number, newY: number): boolean {
+    if (!this.isValidPosition(newX, newY)) {
+      return false
+    }
+
+    // Only remove the specific organism from the old cell, keep other organisms
+    if (this.isValidPosition(organism.x, organism.y) && this.storage.getOccupant(type, organism.x, organism.y) === organism) {
+      this.storage.clearOccupant(type, organism.x, organism.y)
+    }
 
+    organism.x = newX
+    organism.y = newY
+    this.placeInCell(newX, newY, type, organism)
     return true
   }
 
+  /**
+   * Organisms of one species in the (2r+1)² square around (x, y), nearest first;
+   * equally distant organisms are ordered by id, which carries no direction.
+   * On a torus the square continues across the edges.
+   */
+  public findNearby(type: OrganismKind, x: number, y: number, radius: number): Organism[] {
+    return this.spatialIndex[type].query(x, y, radius)
+  }
+
+  private placeInCell(x: number, y: number, type: OrganismKind, organism: Organism): void {
+    const previous = this.storage.getOccupant(type, x, y)
+    if (previous && previous !== organism) {
+      this.spatialIndex[type].remove(previous)
+    }
+    this.storage.setOccupant(type, x, y, organism)
+    this.spatialIndex[type].update(organism)
+  }
+
   public incrementStep(): void {
     this.state.currentStep++
     this.state.statistics.totalSteps++
@@ -228,24 +446,11 @@ export class World {
     this.updateAllCells()
   }
 
-  public getOrganismsByType(type: 'grass' | 'sheep' | 'wolf'): Organism[] {
-    const organisms: Organism[] = []
-    
-    for (let x = 0; x < this.state.width; x++) {
-      for (let y = 0; y < this.state.height; y++) {
-        const cell = this.state.cells[x][y]
-        
-        if (type === 'grass' && cell.grass) {
-          organisms.push(cell.grass)
-        } else if (type === 'sheep' && cell.sheep) {
-          organisms.push(cell.sheep)
-        } else if (type === 'wolf' && cell.wolf) {
-          organisms.push(cell.wolf)
-        }
-      }
-    }
-    
-    return organisms
+  /**
+   * Organisms of one species in column-major scan order, the same for every storage backend
+   */
+  public getOrganismsByType(type: OrganismKind): Organism[] {
+    return this.storage.getOrganisms(type)
   }
 
   public updateStatistics(): void {
@@ -285,6 +490,16 @@ export class World {
     } else {
       this.state.statistics.averageWolfEnergy = 0
     }
+
+    // Count disease states
+    const infected = (animals: (Sheep | Wolf)[]) =>
+      animals.filter(a => a.infection && a.infection.state !== 'recovered').length
+    const immune = (animals: (Sheep | Wolf)[]) =>
+      animals.filter(a => a.infection?.state === 'recovered').length
+    this.state.statistics.infectedSheep = infected(sheep)
+    this.state.statistics.infectedWolves = infected(wolves)
+    this.state.statistics.immuneSheep = immune(sheep)
+    this.state.statistics.immuneWolves = immune(wolves)
   }
 
   private isValidPosition(x: number, y: number): boolean {
@@ -297,28 +512,29 @@ export class World {
     let nearbyPredators = 0
     let localGrassDensity = 0
     let grassCells = 0
+    // A torus wraps the square across the edges; a reflective edge mirrors cells already counted
+    const visited = new Set<number>()
 
     for (let dx = -radius; dx <= radius; dx++) {
       for (let dy = -radius; dy <= radius; dy++) {
-        const x = organism.x + dx
-        const y = organism.y + dy
-        
-        if (!this.isValidPosition(x, y)) continue
-        
-        const cell = this.state.cells[x][y]
+        const cell = this.boundary.resolve(organism.x + dx, organism.y + dy)
+        if (!cell || visited.has(cell.y * this.state.width + cell.x)) continue
+        visited.add(cell.y * this.state.width + cell.x)
+        const { x, y } = cell
         
         // Count grass density
-        if (cell.grass) {
-          localGrassDensity += cell.grass.density
+        const grass = this.storage.getOccupant('grass', x, y) as Grass | undefined
+        if (grass) {
+          localGrassDensity += grass.density
           grassCells++
         }
         
         // Count prey and predators based on organism type
         const organismType = this.getOrganismType(organism)
         if (organismType === 'wolf') {
-          if (cell.sheep) nearbyPrey++
+          if (this.storage.getOccupant('sheep', x, y)) nearbyPrey++
         } else if (organismType === 'sheep') {
-          if (cell.wolf) nearbyPredators++
+          if (this.storage.getOccupant('wolf', x, y)) nearbyPredators++
         }
       }
     }
@@ -385,12 +601,6 @@ export class World {
   }
 
   private updateAllCells(): void {
-    for (let x = 0; x < this.state.width; x++) {
-      for (let y = 0; y < this.state.height; y++) {
-        const cell = this.state.cells[x][y]
-        cell.season = this.state.season
-        cell.temperature = this.state.temperature
-      }
-    }
+    this.storage.setClimate(this.state.season, this.state.temperature)
   }
 }
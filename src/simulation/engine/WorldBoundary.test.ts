@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest'
+import { WorldBoundary } from './WorldBoundary'
+import { SimulationEngine } from './SimulationEngine'
+import { StepProcessor } from './StepProcessor'
+import { World } from './World'
+import { createWorldConfig } from '../config/WorldConfig'
+import { BoundaryMode } from '../types/SimulationTypes'
+import { WorldInitializer } from '../utils/WorldInitializer'
+import { OrganismFactory } from '../utils/OrganismFactory'
+import { RandomGenerator } from '../utils/RandomGenerator'
+
+describe('WorldBoundary', () => {
+  it('should reject off-grid cells when bounded', () => {
+    const boundary = new WorldBoundary(10, 5)
+
+    expect(boundary.resolve(3, 4)).toEqual({ x: 3, y: 4 })
+    expect(boundary.resolve(-1, 2)).toBeNull()
+    expect(boundary.distance({ x: 0, y: 0 }, { x: 9, y: 0 })).toBe(9)
+  })
+
+  it('should wrap around and measure the shorter way round on a torus', () => {
+    const boundary = new WorldBoundary(10, 5, 'torus')
+
+    expect(boundary.resolve(-1, 5)).toEqual({ x: 9, y: 0 })
+    expect(boundary.resolve(23, -7)).toEqual({ x: 3, y: 3 })
+    expect(boundary.offset({ x: 0, y: 0 }, { x: 9, y: 4 })).toEqual({ dx: -1, dy: -1 })
+    expect(boundary.distance({ x: 1, y: 2 }, { x: 8, y: 2 })).toBe(3)
+  })
+
+  it('should bounce moves back off the edge when reflective', () => {
+    const boundary = new WorldBoundary(10, 5, 'reflective')
+
+    expect(boundary.resolve(-1, 2)).toEqual({ x: 1, y: 2 })
+    expect(boundary.resolve(11, 6)).toEqual({ x: 7, y: 2 })
+    expect(boundary.resolve(-20, 0)).toEqual({ x: 2, y: 0 })
+    expect(boundary.distance({ x: 0, y: 0 }, { x: 9, y: 0 })).toBe(9)
+  })
+
+  it('should let a sheep at the edge flee across it on a torus', () => {
+    const base = createWorldConfig({ width: 20, height: 20 })
+    const config = { ...base, world: { ...base.world, boundary: 'torus' as BoundaryMode } }
+    const world = new World(config)
+    const sheep = OrganismFactory.createSheep({ id: 's', x: 0, y: 5, energy: 50 })
+    world.setCellContent(0, 5, { sheep })
+    world.setCellContent(2, 5, { wolf: OrganismFactory.createWolf({ id: 'w', x: 2, y: 5, energy: 50 }) })
+
+    new StepProcessor(world, config, new RandomGenerator(1)).processStep()
+
+    expect(sheep.x).toBe(20 - config.sheep.movementRange)
+    expect(sheep.y).toBe(5)
+  })
+
+  it.each<BoundaryMode>(['torus', 'reflective'])('should keep every organism on the grid in a %s world', mode => {
+    const base = createWorldConfig({ width: 20, height: 20 })
+    const config = { ...base, world: { ...base.world, boundary: mode } }
+    const engine = new SimulationEngine(config, { seed: 9 })
+    WorldInitializer.createProductionEcosystem(engine.getWorld(), config, engine.getRandom())
+
+    for (let i = 0; i < 40; i++) engine.step()
+
+    const world = engine.getWorld()
+    expect(world.getBoundary().getMode()).toBe(mode)
+    ;(['grass', 'sheep', 'wolf'] as const).forEach(kind => {
+      world.getOrganismsByType(kind).forEach(organism => {
+        expect(world.getBoundary().contains(organism.x, organism.y)).toBe(true)
+        expect(world.hasOrganism(organism.x, organism.y, kind)).toBe(true)
+      })
+    })
+  })
+})
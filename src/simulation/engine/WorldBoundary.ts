@@ -0,0 +1,83 @@
+/**
+ * WorldBoundary decides what happens at the grid edge, so movement, neighbor searches and
+ * distances agree on it:
+ * - bounded: off-grid cells don't exist and moves onto them are rejected
+ * - torus: each edge wraps around to the opposite one, and distances take the shorter way round
+ * - reflective: moves past an edge bounce back off it by the distance they overshot
+ */
+
+import { BoundaryMode, Position } from '../types/SimulationTypes'
+
+const wrap = (value: number, size: number): number => ((value % size) + size) % size
+
+const reflect = (value: number, size: number): number => {
+  if (size === 1) return 0
+  const period = (size - 1) * 2
+  const folded = wrap(value, period)
+  return folded < size ? folded : period - folded
+}
+
+// Offset from a to b along one axis, the shorter way round when it wraps
+export const wrappedOffset = (a: number, b: number, size: number): number => {
+  const offset = wrap(b - a, size)
+  return offset > size / 2 ? offset - size : offset
+}
+
+export class WorldBoundary {
+  private width: number
+  private height: number
+  private mode: BoundaryMode
+
+  constructor(width: number, height: number, mode: BoundaryMode = 'bounded') {
+    this.width = width
+    this.height = height
+    this.mode = mode
+  }
+
+  public getMode(): BoundaryMode {
+    return this.mode
+  }
+
+  public wraps(): boolean {
+    return this.mode === 'torus'
+  }
+
+  public contains(x: number, y: number): boolean {
+    return x >= 0 && x < this.width && y >= 0 && y < this.height
+  }
+
+  /**
+   * Cell a move to (x, y) lands on, or null when it is off a bounded grid
+   */
+  public resolve(x: number, y: number): Position | null {
+    if (this.contains(x, y)) return { x, y }
+
+    switch (this.mode) {
+      case 'torus':
+        return { x: wrap(x, this.width), y: wrap(y, this.height) }
+      case 'reflective':
+        return { x: reflect(x, this.width), y: reflect(y, this.height) }
+      default:
+        return null
+    }
+  }
+
+  /**
+   * Offset from one cell to another; across the edge when that is shorter on a torus
+   */
+  public offset(from: Position, to: Position): { dx: number; dy: number } {
+    if (!this.wraps()) {
+      return { dx: to.x - from.x, dy: to.y - from.y }
+    }
+    return { dx: wrappedOffset(from.x, to.x, this.width), dy: wrappedOffset(from.y, to.y, this.height) }
+  }
+
+  public distanceSquared(a: Position, b: Position): number {
+    const { dx, dy } = this.offset(a, b)
+    return dx * dx + dy * dy
+  }
+
+  public distance(a: Position, b: Position): number {
+    return Math.sqrt(this.distanceSquared(a, b))
+  }
+}
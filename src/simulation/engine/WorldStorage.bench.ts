@@ -0,0 +1,61 @@
+import { bench, describe } from 'vitest'
+import { SimulationEngine } from './SimulationEngine'
+import { createWorldConfig, mergeWorldConfig } from '../config/WorldConfig'
+import { WorldStorageBackend } from '../types/SimulationTypes'
+import { WorldInitializer } from '../utils/WorldInitializer'
+
+/**
+ * Compares a simulation step, cell lookups and enumeration on the grid and columnar storage backends.
+ * Run with `npm run bench`.
+ */
+
+const createSimulation = (size: number, storage: WorldStorageBackend) => {
+  const config = mergeWorldConfig(createWorldConfig({ width: size, height: size }), { world: { storage } })
+  const simulation = new SimulationEngine(config, { seed: 1, logSinks: [] })
+  WorldInitializer.createProductionEcosystem(simulation.getWorld(), config, simulation.getRandom())
+  return simulation
+}
+
+const BACKENDS: WorldStorageBackend[] = ['grid', 'columnar']
+
+;[100, 200].forEach(size => {
+  describe(`step on a ${size}x${size} world`, () => {
+    BACKENDS.forEach(storage => {
+      let simulation: SimulationEngine
+
+      bench(storage, () => {
+        simulation.step()
+      }, {
+        iterations: 20,
+        time: 0,
+        setup: () => {
+          simulation = createSimulation(size, storage)
+        }
+      })
+    })
+  })
+})
+
+describe('enumerate grass on a 200x200 world', () => {
+  BACKENDS.forEach(storage => {
+    const world = createSimulation(200, storage).getWorld()
+
+    bench(storage, () => {
+      world.getOrganismsByType('grass')
+    })
+  })
+})
+
+describe('look up every cell on a 200x200 world', () => {
+  BACKENDS.forEach(storage => {
+    const world = createSimulation(200, storage).getWorld()
+
+    bench(storage, () => {
+      for (let x = 0; x < 200; x++) {
+        for (let y = 0; y < 200; y++) {
+          world.getCell(x, y)
+        }
+      }
+    })
+  })
+})
@@ -0,0 +1,27 @@
+/**
+ * WorldStorage is the backend World keeps its cells and organisms in.
+ * Organisms are plain objects that processors mutate in place; a backend only
+ * decides how cells, occupancy and per-species organism lists are stored.
+ */
+
+import { WorldCell, Organism, Season, TerrainType } from '../types/SimulationTypes'
+
+export type OrganismKind = 'grass' | 'sheep' | 'wolf'
+
+export interface WorldStorage {
+  /** Cell view at a valid position (callers check bounds) */
+  getCell(x: number, y: number): WorldCell
+  /** The whole grid as cells, indexed [x][y] */
+  getCells(): WorldCell[][]
+  getOccupant(type: OrganismKind, x: number, y: number): Organism | undefined
+  setOccupant(type: OrganismKind, x: number, y: number, organism: Organism): void
+  clearOccupant(type: OrganismKind, x: number, y: number): void
+  /** Organisms of one species in column-major scan order (x, then y) */
+  getOrganisms(type: OrganismKind): Organism[]
+  count(type: OrganismKind): number
+  setCellClimate(x: number, y: number, climate: { temperature?: number; season?: Season }): void
+  /** Apply the world-wide season and temperature to every cell */
+  setClimate(season: Season, temperature: number): void
+  getTerrain(x: number, y: number): TerrainType
+  setTerrain(x: number, y: number, terrain: TerrainType): void
+}
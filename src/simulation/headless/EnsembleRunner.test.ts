@@ -0,0 +1,156 @@
+import { describe, it, expect } from 'vitest'
+import { mkdtempSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import path from 'path'
+import { EnsembleRunner } from './EnsembleRunner'
+import { parseEnsembleArgs, parseParameter } from './ensembleCli'
+import { WORLD_CONFIG, mergeWorldConfig } from '../config/WorldConfig'
+
+const SMALL_CONFIG = mergeWorldConfig(WORLD_CONFIG, {
+  width: 25,
+  height: 25,
+  initialSheepCount: 15,
+  initialWolfCount: 2
+})
+
+describe('EnsembleRunner', () => {
+  it('should expand the parameter grid into every combination', () => {
+    const sets = EnsembleRunner.expandGrid({
+      'sheep.reproductionRate': [0.1, 0.2],
+      'wolf.energyPerSheep': [4, 6, 8]
+    })
+
+    expect(sets).toHaveLength(6)
+    expect(sets[0]).toEqual({ 'sheep.reproductionRate': 0.1, 'wolf.energyPerSheep': 4 })
+    expect(sets[5]).toEqual({ 'sheep.reproductionRate': 0.2, 'wolf.energyPerSheep': 8 })
+  })
+
+  it('should apply dotted-path parameters without mutating the base config', () => {
+    const config = EnsembleRunner.applyParameters(WORLD_CONFIG, { 'sheep.reproduction.minAge': 5 })
+
+    expect(config.sheep.reproduction.minAge).toBe(5)
+    expect(WORLD_CONFIG.sheep.reproduction.minAge).not.toBe(5)
+  })
+
+  it('should reject unknown parameters', () => {
+    expect(() => EnsembleRunner.applyParameters(WORLD_CONFIG, { 'sheep.reproductionRat': 0.1 }))
+      .toThrow(/Unknown numeric config parameter/)
+  })
+
+  it('should aggregate runs per parameter set', async () => {
+    const result = await EnsembleRunner.run({
+      baseConfig: SMALL_CONFIG,
+      parameters: { 'sheep.reproductionRate': [0.1, 0.2] },
+      runsPerSet: 2,
+      steps: 10,
+      workers: 1
+    })
+
+    expect(result.sets).toHaveLength(2)
+    result.sets.forEach(set => {
+      expect(set.runs).toBe(2)
+      expect(set.summaries.map(s => s.seed)).toEqual([1, 2])
+      expect(set.extinctionProbability).toBeGreaterThanOrEqual(0)
+      expect(set.extinctionProbability).toBeLessThanOrEqual(1)
+    })
+  })
+
+  it('should report extinction probability and time to extinction', async () => {
+    const result = await EnsembleRunner.run({
+      baseConfig: mergeWorldConfig(SMALL_CONFIG, { initialWolfCount: 0 }),
+      parameters: { 'wolf.energyPerSheep': [6] },
+      runsPerSet: 2,
+      steps: 10,
+      workers: 1
+    })
+
+    expect(result.sets[0].extinctionProbability).toBe(1)
+    expect(result.sets[0].meanTimeToExtinction).toBe(1)
+  })
+
+  it('should give the same results on worker threads as on the calling thread', async () => {
+    const options = {
+      baseConfig: SMALL_CONFIG,
+      parameters: { 'sheep.reproductionRate': [0.1, 0.2] },
+      runsPerSet: 2,
+      steps: 10
+    }
+
+    const threaded = await EnsembleRunner.run({ ...options, workers: 2 })
+
+    expect(threaded).toEqual(await EnsembleRunner.run({ ...options, workers: 1 }))
+  }, 60_000)
+
+  it('should start workers from any working directory', async () => {
+    const cwd = process.cwd()
+    const elsewhere = mkdtempSync(path.join(tmpdir(), 'ensemble-'))
+    process.chdir(elsewhere)
+    try {
+      const result = await EnsembleRunner.run({
+        baseConfig: SMALL_CONFIG,
+        parameters: { 'sheep.reproductionRate': [0.1, 0.2] },
+        runsPerSet: 1,
+        steps: 5,
+        workers: 2
+      })
+
+      expect(result.sets.map(set => set.runs)).toEqual([1, 1])
+    } finally {
+      process.chdir(cwd)
+      rmSync(elsewhere, { recursive: true, force: true })
+    }
+  }, 60_000)
+
+  it('should reject, not hang, when a worker fails', async () => {
+    const run = EnsembleRunner.run({
+      baseConfig: SMALL_CONFIG,
+      parameters: { 'sheep.reproductionRate': [0.1, 5] },
+      runsPerSet: 1,
+      steps: 10,
+      workers: 2
+    })
+
+    await expect(run).rejects.toThrow()
+  }, 60_000)
+
+  it('should format a comparison table with the safest sets first', () => {
+    const table = EnsembleRunner.formatTable({
+      steps: 100,
+      runsPerSet: 4,
+      sets: [
+        { parameters: { 'sheep.reproductionRate': 0.1 }, runs: 4, extinctionProbability: 0.5, meanTimeToExtinction: 80, meanStabilityScore: 20, summaries: [] },
+        { parameters: { 'sheep.reproductionRate': 0.2 }, runs: 4, extinctionProbability: 0, meanTimeToExtinction: null, meanStabilityScore: 40, summaries: [] }
+      ]
+    })
+
+    const lines = table.split('\n')
+    expect(lines[0]).toContain('P(extinct)')
+    expect(lines[2]).toContain('0.2')
+    expect(lines[2]).toContain('-')
+    expect(lines[3]).toContain('80.0')
+  })
+
+  describe('ensemble CLI arguments', () => {
+    it('should parse repeated --param options', () => {
+      const options = parseEnsembleArgs([
+        '--param', 'sheep.reproductionRate=0.1,0.14',
+        '--param', 'wolf.energyPerSheep=4,6',
+        '--runs', '5',
+        '--workers', '2'
+      ])
+
+      expect(options.parameters).toEqual({
+        'sheep.reproductionRate': [0.1, 0.14],
+        'wolf.energyPerSheep': [4, 6]
+      })
+      expect(options.runsPerSet).toBe(5)
+      expect(options.workers).toBe(2)
+    })
+
+    it('should reject malformed parameters', () => {
+      expect(() => parseParameter('sheep.reproductionRate')).toThrow(/--param/)
+      expect(() => parseParameter('sheep.reproductionRate=a,b')).toThrow(/--param/)
+      expect(() => parseEnsembleArgs(['--param', 'sheep.bogus=1,2'])).toThrow('Unknown numeric config parameter "sheep.bogus"')
+    })
+  })
+})
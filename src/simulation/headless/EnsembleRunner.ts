@@ -0,0 +1,240 @@
+/**
+ * EnsembleRunner runs Monte Carlo ensembles over a grid of parameter values
+ * and aggregates extinction risk and oscillation stability per parameter set
+ */
+
+import path from 'path'
+import { Worker } from 'worker_threads'
+import { WORLD_CONFIG, WorldConfig } from '../config/WorldConfig'
+import { HeadlessRunner } from './HeadlessRunner'
+
+/** Config paths (e.g. 'sheep.reproductionRate') mapped to the values to try */
+export type ParameterGrid = Record<string, number[]>
+
+export interface EnsembleOptions {
+  /** Config the parameter values are applied to (defaults to WORLD_CONFIG) */
+  baseConfig?: WorldConfig
+  parameters: ParameterGrid
+  /** Number of seeds run for every parameter set */
+  runsPerSet: number
+  /** First seed; run i uses baseSeed + i so every parameter set sees the same seeds */
+  baseSeed?: number
+  steps: number
+  /** Worker threads to use; 1 runs everything on the calling thread */
+  workers?: number
+}
+
+export interface EnsembleJob {
+  index: number;
+  config: WorldConfig;
+  parameters: Record<string, number>;
+  seed: number;
+  steps: number;
+}
+
+export interface EnsembleRunSummary {
+  parameters: Record<string, number>;
+  seed: number;
+  stepsRun: number;
+  extinct: boolean;
+  extinctionStep?: number;
+  stabilityScore: number;
+}
+
+export interface EnsembleSetResult {
+  parameters: Record<string, number>;
+  runs: number;
+  extinctionProbability: number;
+  meanTimeToExtinction: number | null; // null when no run went extinct
+  meanStabilityScore: number;
+  summaries: EnsembleRunSummary[];
+}
+
+export interface EnsembleResult {
+  steps: number;
+  runsPerSet: number;
+  sets: EnsembleSetResult[];
+}
+
+export class EnsembleRunner {
+  /**
+   * Run the full ensemble, spreading runs over worker threads when requested
+   */
+  public static async run(options: EnsembleOptions): Promise<EnsembleResult> {
+    const jobs = EnsembleRunner.createJobs(options)
+    const workers = Math.max(1, Math.min(options.workers ?? 1, jobs.length))
+
+    const summaries = workers > 1
+      ? await EnsembleRunner.runInWorkers(jobs, workers)
+      : jobs.map(job => EnsembleRunner.runJob(job))
+
+    return EnsembleRunner.aggregate(options, summaries)
+  }
+
+  /**
+   * Run a single ensemble member; sheep or wolf extinction ends the run early
+   */
+  public static runJob(job: EnsembleJob): EnsembleRunSummary {
+    const result = HeadlessRunner.run({
+      config: job.config,
+      seed: job.seed,
+      steps: job.steps,
+      stopOnExtinction: true,
+      logSinks: [] // Hundreds of runs would drown the comparison table
+    })
+
+    const extinction = result.populationHistory.find(p => p.sheep === 0 || p.wolves === 0)
+
+    return {
+      parameters: job.parameters,
+      seed: job.seed,
+      stepsRun: result.stepsRun,
+      extinct: extinction !== undefined,
+      extinctionStep: extinction?.step,
+      stabilityScore: result.oscillationAnalysis.stabilityScore
+    }
+  }
+
+  /**
+   * Cartesian product of all parameter values
+   */
+  public static expandGrid(parameters: ParameterGrid): Array<Record<string, number>> {
+    return Object.entries(parameters).reduce<Array<Record<string, number>>>(
+      (sets, [key, values]) => sets.flatMap(set => values.map(value => ({ ...set, [key]: value }))),
+      [{}]
+    )
+  }
+
+  /**
+   * Return a copy of config with dotted-path parameters applied
+   */
+  public static applyParameters(config: WorldConfig, parameters: Record<string, number>): WorldConfig {
+    const copy = JSON.parse(JSON.stringify(config)) as WorldConfig
+
+    Object.entries(parameters).forEach(([key, value]) => {
+      const parts = key.split('.')
+      const target = parts.slice(0, -1).reduce<Record<string, unknown> | undefined>(
+        (obj, part) => obj?.[part] as Record<string, unknown> | undefined,
+        copy as unknown as Record<string, unknown>
+      )
+      const leaf = parts[parts.length - 1]
+
+      if (!target || typeof target[leaf] !== 'number') {
+        throw new Error(`Unknown numeric config parameter "${key}"`)
+      }
+      target[leaf] = value
+    })
+
+    return copy
+  }
+
+  /**
+   * Plain-text comparison table, safest parameter sets first
+   */
+  public static formatTable(result: EnsembleResult): string {
+    const keys = Object.keys(result.sets[0]?.parameters ?? {})
+    const header = [...keys, 'runs', 'P(extinct)', 'mean TTE', 'stability']
+    const sorted = [...result.sets].sort((a, b) =>
+      a.extinctionProbability - b.extinctionProbability || b.meanStabilityScore - a.meanStabilityScore
+    )
+    const rows = sorted.map(set => [
+      ...keys.map(key => String(set.parameters[key])),
+      String(set.runs),
+      set.extinctionProbability.toFixed(2),
+      set.meanTimeToExtinction === null ? '-' : set.meanTimeToExtinction.toFixed(1),
+      set.meanStabilityScore.toFixed(1)
+    ])
+
+    const widths = header.map((h, i) => Math.max(h.length, ...rows.map(row => row[i].length)))
+    const formatRow = (cells: string[]) => `| ${cells.map((c, i) => c.padEnd(widths[i])).join(' | ')} |`
+
+    return [
+      formatRow(header),
+      `|${widths.map(w => '-'.repeat(w + 2)).join('|')}|`,
+      ...rows.map(formatRow)
+    ].join('\n')
+  }
+
+  private static createJobs(options: EnsembleOptions): EnsembleJob[] {
+    const baseConfig = options.baseConfig ?? WORLD_CONFIG
+    const baseSeed = options.baseSeed ?? 1
+    const jobs: EnsembleJob[] = []
+
+    EnsembleRunner.expandGrid(options.parameters).forEach(parameters => {
+      const config = EnsembleRunner.applyParameters(baseConfig, parameters)
+      for (let i = 0; i < options.runsPerSet; i++) {
+        jobs.push({ index: jobs.length, config, parameters, seed: baseSeed + i, steps: options.steps })
+      }
+    })
+
+    return jobs
+  }
+
+  private static aggregate(options: EnsembleOptions, summaries: EnsembleRunSummary[]): EnsembleResult {
+    const sets = EnsembleRunner.expandGrid(options.parameters).map(parameters => {
+      const key = JSON.stringify(parameters)
+      const runs = summaries.filter(s => JSON.stringify(s.parameters) === key)
+      const extinct = runs.filter(r => r.extinct)
+
+      return {
+        parameters,
+        runs: runs.length,
+        extinctionProbability: runs.length > 0 ? extinct.length / runs.length : 0,
+        meanTimeToExtinction: extinct.length > 0
+          ? extinct.reduce((sum, r) => sum + (r.extinctionStep ?? 0), 0) / extinct.length
+          : null,
+        meanStabilityScore: runs.length > 0
+          ? runs.reduce((sum, r) => sum + r.stabilityScore, 0) / runs.length
+          : 0,
+        summaries: runs
+      }
+    })
+
+    return { steps: options.steps, runsPerSet: options.runsPerSet, sets }
+  }
+
+  /**
+   * Split jobs round-robin over worker threads; results come back in job order
+   */
+  private static async runInWorkers(jobs: EnsembleJob[], workerCount: number): Promise<EnsembleRunSummary[]> {
+    const chunks: EnsembleJob[][] = Array.from({ length: workerCount }, () => [])
+    jobs.forEach((job, i) => chunks[i % workerCount].push(job))
+
+    const workerFile = path.join(__dirname, `ensembleWorker${path.extname(__filename)}`)
+    // TypeScript sources need the tsx loader registered inside the worker as well. Eval'd workers resolve
+    // bare specifiers from the working directory, so the loader is resolved here, from this module
+    const workerSource = workerFile.endsWith('.ts')
+      ? `require(${JSON.stringify(require.resolve('tsx/cjs'))}); require(${JSON.stringify(workerFile)})`
+      : `require(${JSON.stringify(workerFile)})`
+
+    const workers: Worker[] = []
+    let results: Array<Array<{ index: number; summary: EnsembleRunSummary }>>
+    try {
+      results = await Promise.all(chunks.map(chunk =>
+        new Promise<Array<{ index: number; summary: EnsembleRunSummary }>>((resolve, reject) => {
+          const worker = new Worker(workerSource, { eval: true, workerData: { jobs: chunk } })
+          workers.push(worker)
+          let received = false
+          worker.once('message', result => {
+            received = true
+            resolve(result)
+          })
+          worker.once('error', reject)
+          // A worker killed or exiting early (e.g. out of memory) never posts; don't wait for it forever
+          worker.once('exit', code => {
+            if (!received) reject(new Error(`Ensemble worker exited with code ${code} before posting its results`))
+          })
+        })
+      ))
+    } finally {
+      // After a failure the other workers' results are of no use; stop them rather than let them run on
+      await Promise.all(workers.map(worker => worker.terminate()))
+    }
+
+    const summaries: EnsembleRunSummary[] = []
+    results.flat().forEach(({ index, summary }) => {
+      summaries[index] = summary
+    })
+    return summaries
+  }
+}
@@ -0,0 +1,27 @@
+/**
+ * Log sink that appends one line per entry to a file (headless runs only; uses fs)
+ */
+
+import { appendFileSync, mkdirSync, writeFileSync } from 'fs'
+import path from 'path'
+import { LogEntry, LogSink } from '../utils/Logger'
+
+export class FileLogSink implements LogSink {
+  private filePath: string
+
+  /** Creates (or truncates) the log file */
+  constructor(filePath: string) {
+    this.filePath = filePath
+    mkdirSync(path.dirname(filePath), { recursive: true })
+    writeFileSync(filePath, '')
+  }
+
+  public write(entry: LogEntry): void {
+    const data = entry.data !== undefined ? ` ${JSON.stringify(entry.data)}` : ''
+    appendFileSync(this.filePath, `${new Date(entry.timestamp).toISOString()} ${entry.level.toUpperCase()} [${entry.category}] ${entry.message}${data}\n`)
+  }
+
+  public getFilePath(): string {
+    return this.filePath
+  }
+}
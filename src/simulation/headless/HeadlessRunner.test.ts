@@ -0,0 +1,116 @@
+import { describe, it, expect, afterEach } from 'vitest'
+import { existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import path from 'path'
+import { HeadlessRunner } from './HeadlessRunner'
+import { parseCliArgs } from './cli'
+import { FileLogSink } from './FileLogSink'
+import { WORLD_CONFIG, mergeWorldConfig } from '../config/WorldConfig'
+
+const SMALL_CONFIG = mergeWorldConfig(WORLD_CONFIG, {
+  width: 30,
+  height: 30,
+  initialSheepCount: 20,
+  initialWolfCount: 3
+})
+
+describe('HeadlessRunner', () => {
+  let tempDir: string | null = null
+
+  afterEach(() => {
+    if (tempDir) {
+      rmSync(tempDir, { recursive: true, force: true })
+      tempDir = null
+    }
+  })
+
+  it('should run the requested number of steps', () => {
+    const result = HeadlessRunner.run({ config: SMALL_CONFIG, seed: 7, steps: 15 })
+
+    expect(result.seed).toBe(7)
+    expect(result.stepsRun).toBe(15)
+    expect(result.populationHistory).toHaveLength(15)
+    expect(result.populationHistory[0].step).toBe(1)
+    expect(result.oscillationAnalysis).toBeDefined()
+  })
+
+  it('should produce identical results for the same seed', () => {
+    const first = HeadlessRunner.run({ config: SMALL_CONFIG, seed: 11, steps: 15 })
+    const second = HeadlessRunner.run({ config: SMALL_CONFIG, seed: 11, steps: 15 })
+
+    expect(second.populationHistory).toEqual(first.populationHistory)
+  })
+
+  it('should write time series, death statistics and oscillation analysis', () => {
+    tempDir = mkdtempSync(path.join(tmpdir(), 'headless-'))
+    const result = HeadlessRunner.run({ config: SMALL_CONFIG, seed: 7, steps: 10 })
+
+    const files = HeadlessRunner.writeResults(result, path.join(tempDir, 'out'))
+
+    expect(files.map(f => path.basename(f))).toEqual(['population.csv', 'deaths.json', 'oscillations.json', 'summary.json'])
+    files.forEach(file => expect(existsSync(file)).toBe(true))
+
+    const csv = readFileSync(files[0], 'utf8').trim().split('\n')
+    expect(csv[0]).toBe('step,grass,sheep,wolves,averageGrassDensity,averageSheepEnergy,averageWolfEnergy')
+    expect(csv).toHaveLength(11)
+
+    const summary = JSON.parse(readFileSync(files[3], 'utf8'))
+    expect(summary.seed).toBe(7)
+    expect(summary.stepsRun).toBe(10)
+  })
+
+  it('should merge partial config files onto the defaults', () => {
+    tempDir = mkdtempSync(path.join(tmpdir(), 'headless-'))
+    const configPath = path.join(tempDir, 'config.json')
+    writeFileSync(configPath, JSON.stringify({ width: 40, sheep: { reproductionRate: 0.2 } }))
+
+    const config = HeadlessRunner.loadConfigFile(configPath)
+
+    expect(config.width).toBe(40)
+    expect(config.height).toBe(WORLD_CONFIG.height)
+    expect(config.sheep.reproductionRate).toBe(0.2)
+    expect(config.sheep.hungerThreshold).toBe(WORLD_CONFIG.sheep.hungerThreshold)
+  })
+
+  it('should run on a terrain map loaded from a file', () => {
+    tempDir = mkdtempSync(path.join(tmpdir(), 'headless-'))
+    const mapPath = path.join(tempDir, 'map.txt')
+    const rows = Array.from({ length: 30 }, (_, y) => (y < 10 ? '~' : '.').repeat(30))
+    writeFileSync(mapPath, rows.join('\n'))
+
+    const config = HeadlessRunner.loadTerrainFile(mapPath, SMALL_CONFIG)
+    const result = HeadlessRunner.run({ config, seed: 7, steps: 5 })
+
+    expect(config.terrain).toMatchObject({ source: 'map', map: rows.join('\n') })
+    expect(result.stepsRun).toBe(5)
+    expect(() => HeadlessRunner.loadTerrainFile(mapPath)).toThrow(/Invalid terrain file/)
+  })
+
+  it('should write log entries to a file sink', () => {
+    tempDir = mkdtempSync(path.join(tmpdir(), 'headless-'))
+    const sink = new FileLogSink(path.join(tempDir, 'logs', 'simulation.log'))
+    const config = mergeWorldConfig(SMALL_CONFIG, { debug: { logLevel: 'debug' } })
+
+    HeadlessRunner.run({ config, seed: 7, steps: 10, logSinks: [sink] })
+
+    const lines = readFileSync(sink.getFilePath(), 'utf8').trim().split('\n')
+    expect(lines.length).toBeGreaterThan(0)
+    expect(lines[0]).toMatch(/^\S+ DEBUG \[\w+\] /)
+  })
+
+  describe('parseCliArgs', () => {
+    it('should parse seed, steps and output directory', () => {
+      const options = parseCliArgs(['--seed', '42', '--steps', '500', '--out', 'results/run-42', '--stop-on-extinction'])
+
+      expect(options.seed).toBe(42)
+      expect(options.steps).toBe(500)
+      expect(options.outputDir).toBe('results/run-42')
+      expect(options.stopOnExtinction).toBe(true)
+      expect(options.config).toBeUndefined()
+    })
+
+    it('should reject invalid step counts', () => {
+      expect(() => parseCliArgs(['--steps', 'abc'])).toThrow(/--steps/)
+    })
+  })
+})
@@ -0,0 +1,153 @@
+/**
+ * HeadlessRunner runs the SimulationEngine without the UI and writes
+ * population time series, death statistics and oscillation analysis to disk
+ */
+
+import { mkdirSync, readFileSync, writeFileSync } from 'fs'
+import path from 'path'
+import { SimulationEngine } from '../engine/SimulationEngine'
+import { WORLD_CONFIG, WorldConfig } from '../config/WorldConfig'
+import { InvalidConfigError, parseWorldConfig } from '../config/ConfigValidator'
+import { DeathStatistics, ExtinctionEvent, OscillationAnalysis } from '../types/SimulationTypes'
+import { WorldInitializer } from '../utils/WorldInitializer'
+import { LogSink } from '../utils/Logger'
+
+export interface HeadlessRunOptions {
+  /** Config to run with (defaults to WORLD_CONFIG) */
+  config?: WorldConfig
+  /** Random seed; overrides config.seed */
+  seed?: number
+  /** Number of steps to run */
+  steps: number
+  /** Stop early once sheep or wolves go extinct */
+  stopOnExtinction?: boolean
+  /** Where simulation log entries go (default: the console) */
+  logSinks?: LogSink[]
+}
+
+export interface PopulationSample {
+  step: number;
+  grass: number;
+  sheep: number;
+  wolves: number;
+  averageGrassDensity: number;
+  averageSheepEnergy: number;
+  averageWolfEnergy: number;
+}
+
+export interface HeadlessRunResult {
+  seed: number;
+  stepsRun: number;
+  config: WorldConfig;
+  populationHistory: PopulationSample[];
+  deathStats: DeathStatistics;
+  extinctionEvents: ExtinctionEvent[];
+  oscillationAnalysis: OscillationAnalysis;
+}
+
+export class HeadlessRunner {
+  /**
+   * Run a single simulation to completion and collect its results
+   */
+  public static run(options: HeadlessRunOptions): HeadlessRunResult {
+    const config = options.config ?? WORLD_CONFIG
+    const simulation = new SimulationEngine(config, { seed: options.seed, logSinks: options.logSinks })
+    WorldInitializer.createProductionEcosystem(simulation.getWorld(), config, simulation.getRandom())
+
+    const populationHistory: PopulationSample[] = []
+
+    for (let i = 0; i < options.steps; i++) {
+      simulation.step()
+
+      const stats = simulation.getStatistics()
+      populationHistory.push({
+        step: simulation.getCurrentStep(),
+        grass: stats.grassCount,
+        sheep: stats.sheepCount,
+        wolves: stats.wolfCount,
+        averageGrassDensity: stats.averageGrassDensity,
+        averageSheepEnergy: stats.averageSheepEnergy,
+        averageWolfEnergy: stats.averageWolfEnergy
+      })
+
+      if (options.stopOnExtinction && (stats.sheepCount === 0 || stats.wolfCount === 0)) {
+        break
+      }
+    }
+
+    const finalStats = simulation.getStatistics()
+
+    return {
+      seed: simulation.getSeed(),
+      stepsRun: populationHistory.length,
+      config,
+      populationHistory,
+      deathStats: simulation.getWorld().getDeathStatistics(),
+      extinctionEvents: [...finalStats.extinctionEvents],
+      oscillationAnalysis: simulation.getOscillationAnalysis()
+    }
+  }
+
+  /**
+   * Write run results to an output directory, returning the written file paths
+   */
+  public static writeResults(result: HeadlessRunResult, outputDir: string): string[] {
+    mkdirSync(outputDir, { recursive: true })
+
+    const last = result.populationHistory[result.populationHistory.length - 1]
+    const files: Record<string, string> = {
+      'population.csv': HeadlessRunner.toCsv(result.populationHistory),
+      'deaths.json': JSON.stringify(result.deathStats, null, 2),
+      'oscillations.json': JSON.stringify(result.oscillationAnalysis, null, 2),
+      'summary.json': JSON.stringify({
+        seed: result.seed,
+        stepsRun: result.stepsRun,
+        finalPopulations: {
+          grass: last?.grass ?? 0,
+          sheep: last?.sheep ?? 0,
+          wolves: last?.wolves ?? 0
+        },
+        extinctionEvents: result.extinctionEvents,
+        stabilityScore: result.oscillationAnalysis.stabilityScore,
+        config: result.config
+      }, null, 2)
+    }
+
+    return Object.entries(files).map(([name, contents]) => {
+      const filePath = path.join(outputDir, name)
+      writeFileSync(filePath, contents)
+      return filePath
+    })
+  }
+
+  /**
+   * Load and validate a JSON config file; partial files are merged onto WORLD_CONFIG
+   */
+  public static loadConfigFile(filePath: string): WorldConfig {
+    const { config, errors } = parseWorldConfig(JSON.parse(readFileSync(filePath, 'utf8')))
+    if (!config) {
+      throw new InvalidConfigError(errors, `Invalid config file ${filePath}`)
+    }
+    return config
+  }
+
+  /**
+   * Use a terrain map drawn in a text file (see Terrain.ts for the symbols) on top of a config
+   */
+  public static loadTerrainFile(filePath: string, base: WorldConfig = WORLD_CONFIG): WorldConfig {
+    const map = readFileSync(filePath, 'utf8')
+    const { config, errors } = parseWorldConfig({ terrain: { source: 'map', map } }, base)
+    if (!config) {
+      throw new InvalidConfigError(errors, `Invalid terrain file ${filePath}`)
+    }
+    return config
+  }
+
+  private static toCsv(samples: PopulationSample[]): string {
+    const header = 'step,grass,sheep,wolves,averageGrassDensity,averageSheepEnergy,averageWolfEnergy'
+    const rows = samples.map(s =>
+      [s.step, s.grass, s.sheep, s.wolves, s.averageGrassDensity, s.averageSheepEnergy, s.averageWolfEnergy].join(',')
+    )
+    return [header, ...rows].join('\n') + '\n'
+  }
+}
@@ -0,0 +1,135 @@
+import { describe, it, expect, afterEach } from 'vitest'
+import { mkdtempSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import path from 'path'
+import { ReplayChecker } from './ReplayChecker'
+import { SimulationEngine } from '../engine/SimulationEngine'
+import { WorldInitializer } from '../utils/WorldInitializer'
+import { parseReplayArgs } from './replayCli'
+import { WORLD_CONFIG, mergeWorldConfig } from '../config/WorldConfig'
+import { ReplayLog } from '../types/SimulationTypes'
+
+const SMALL_CONFIG = mergeWorldConfig(WORLD_CONFIG, {
+  width: 30,
+  height: 30,
+  initialSheepCount: 20,
+  initialWolfCount: 3
+})
+
+const copyLog = (log: ReplayLog): ReplayLog => JSON.parse(JSON.stringify(log))
+
+describe('ReplayChecker', () => {
+  let tempDir: string | null = null
+
+  afterEach(() => {
+    if (tempDir) {
+      rmSync(tempDir, { recursive: true, force: true })
+      tempDir = null
+    }
+  })
+
+  it('should record the initial world and every step', () => {
+    const log = ReplayChecker.record({ config: SMALL_CONFIG, seed: 5, steps: 10 })
+
+    expect(log.seed).toBe(5)
+    expect(log.entries.map(e => e.step)).toEqual([0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10])
+    expect(log.entries[0].rowHashes).toHaveLength(30)
+    expect(log.entries[0].worldHash).toMatch(/^[0-9a-f]{8}$/)
+  })
+
+  it('should match a log recorded with the same code', () => {
+    tempDir = mkdtempSync(path.join(tmpdir(), 'replay-'))
+    const file = path.join(tempDir, 'replay.json')
+    ReplayChecker.writeLog(ReplayChecker.record({ config: SMALL_CONFIG, seed: 5, steps: 10 }), file)
+
+    const result = ReplayChecker.check(ReplayChecker.readLog(file))
+
+    expect(result).toEqual({ matches: true, stepsChecked: 10, configHashMatches: true, divergence: null })
+    expect(ReplayChecker.formatResult(result)).toContain('Replayed 10 steps')
+  })
+
+  it('should replay config updates made during the run', () => {
+    const engine = new SimulationEngine(SMALL_CONFIG, { seed: 5, recordReplay: true })
+    WorldInitializer.createProductionEcosystem(engine.getWorld(), SMALL_CONFIG, engine.getRandom())
+    const step = (count: number) => Array.from({ length: count }, () => engine.step())
+    step(5)
+    engine.updateConfig({ grass: { growthRate: SMALL_CONFIG.grass.growthRate * 2 }, sheep: { reproductionRate: 0.3 } })
+    step(5)
+
+    const log = engine.getReplayLog() as ReplayLog
+
+    expect(log.config).toEqual(SMALL_CONFIG)
+    expect(log.configChanges.map(event => event.step)).toEqual([6])
+    expect(ReplayChecker.check(log).matches).toBe(true)
+    expect(ReplayChecker.check({ ...log, configChanges: [] }).divergence?.step).toBe(6)
+  })
+
+  it('should report the first step and cell that differ', () => {
+    const log = copyLog(ReplayChecker.record({ config: SMALL_CONFIG, seed: 5, steps: 10 }))
+    const entry = log.entries[6]
+    entry.worldHash = '00000000'
+    entry.rowHashes[12] = '00000000'
+    entry.columnHashes[7] = '00000000'
+    entry.sheep += 1
+
+    const result = ReplayChecker.check(log)
+
+    expect(result.matches).toBe(false)
+    expect(result.stepsChecked).toBe(6)
+    expect(result.divergence).toMatchObject({ step: 6, cell: { x: 7, y: 12 }, rows: [12], columns: [7] })
+    expect(result.divergence?.expected.sheep).toBe((result.divergence?.actual.sheep ?? 0) + 1)
+    expect(ReplayChecker.formatResult(result)).toContain('First differing cell: (7, 12)')
+  })
+
+  it('should not guess a cell when several differ', () => {
+    const log = copyLog(ReplayChecker.record({ config: SMALL_CONFIG, seed: 5, steps: 10 }))
+    // Cells (3, 4) and (9, 15) changed: (3, 15) and (9, 4) fall in the same rows and columns
+    const entry = log.entries[4]
+    entry.worldHash = '00000000'
+    ;[4, 15].forEach(y => { entry.rowHashes[y] = '00000000' })
+    ;[3, 9].forEach(x => { entry.columnHashes[x] = '00000000' })
+
+    const result = ReplayChecker.check(log)
+
+    expect(result.divergence).toMatchObject({ step: 4, cell: null, rows: [4, 15], columns: [3, 9] })
+    expect(ReplayChecker.formatResult(result)).toContain('Several cells differ, somewhere in rows 4, 15 and columns 3, 9')
+    expect(ReplayChecker.formatResult(result)).not.toContain('First differing cell')
+  })
+
+  it('should catch runs that behave differently', () => {
+    const log = copyLog(ReplayChecker.record({ config: SMALL_CONFIG, seed: 5, steps: 10 }))
+    // Stands in for a code change: same seed, different behavior
+    log.config = mergeWorldConfig(log.config, { grass: { growthRate: log.config.grass.growthRate * 2 } })
+
+    const result = ReplayChecker.check(log)
+
+    expect(result.configHashMatches).toBe(false)
+    expect(result.matches).toBe(false)
+    expect(result.divergence?.step).toBeGreaterThan(0)
+    expect(result.divergence?.rows.length).toBeGreaterThan(0)
+  })
+
+  it('should reject logs it cannot replay', () => {
+    const log = ReplayChecker.record({ config: SMALL_CONFIG, seed: 5, steps: 2 })
+
+    expect(() => ReplayChecker.check({ ...log, version: 99 })).toThrow(/Unsupported replay log version/)
+    expect(() => ReplayChecker.check({ ...log, entries: log.entries.slice(1) })).toThrow(/must start at step 0/)
+  })
+})
+
+describe('parseReplayArgs', () => {
+  it('should parse record and check commands', () => {
+    expect(parseReplayArgs(['record', '--steps', '50', '--seed', '3', '--out', 'log.json'])).toEqual({
+      command: 'record',
+      options: { config: undefined, seed: 3, steps: 50 },
+      outputFile: 'log.json'
+    })
+    expect(parseReplayArgs(['check', 'log.json'])).toEqual({ command: 'check', logFile: 'log.json' })
+  })
+
+  it('should reject unknown commands and bad values', () => {
+    expect(() => parseReplayArgs(['verify'])).toThrow(/Unknown command/)
+    expect(() => parseReplayArgs(['record', '--steps', '0'])).toThrow(/--steps must be a positive integer/)
+    expect(() => parseReplayArgs(['check'])).toThrow(/exactly one log file/)
+  })
+})
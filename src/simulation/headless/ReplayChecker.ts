@@ -0,0 +1,164 @@
+/**
+ * ReplayChecker records seeded runs as compact replay logs and replays those logs against
+ * the current code, reporting the first step (and, when the hashes pin it down, the cell) where the state stops matching
+ */
+
+import { readFileSync, writeFileSync } from 'fs'
+import { SimulationEngine, REPLAY_LOG_VERSION } from '../engine/SimulationEngine'
+import { WORLD_CONFIG, WorldConfig, DeepPartial } from '../config/WorldConfig'
+import { ConfigChange, ReplayLog, ReplayLogEntry } from '../types/SimulationTypes'
+import { WorldInitializer } from '../utils/WorldInitializer'
+import { hashConfig } from '../utils/StateHash'
+
+export interface ReplayRecordOptions {
+  /** Config to run with (defaults to WORLD_CONFIG) */
+  config?: WorldConfig
+  /** Random seed; overrides config.seed */
+  seed?: number
+  /** Number of steps to record */
+  steps: number
+}
+
+type PopulationCounts = Pick<ReplayLogEntry, 'grass' | 'sheep' | 'wolves'>
+
+export interface ReplayDivergence {
+  step: number;
+  expected: PopulationCounts;
+  actual: PopulationCounts;
+  // The differing cell when exactly one row and one column differ; with more, the hashes cannot tell which of
+  // their crossings changed, so it is null
+  cell: { x: number; y: number } | null;
+  rows: number[];    // y of every row whose hash differs
+  columns: number[]; // x of every column whose hash differs
+}
+
+export interface ReplayCheckResult {
+  matches: boolean;
+  stepsChecked: number;
+  configHashMatches: boolean; // false when the log's config was edited after recording
+  divergence: ReplayDivergence | null;
+}
+
+const differingIndices = (expected: string[], actual: string[]): number[] =>
+  Array.from({ length: Math.max(expected.length, actual.length) }, (_, i) => i)
+    .filter(i => expected[i] !== actual[i])
+
+// Nested overrides setting each changed path to its new value, for updateConfig()
+const toOverrides = (changes: ConfigChange[]): DeepPartial<WorldConfig> => {
+  const overrides: Record<string, unknown> = {}
+  changes.forEach(({ path, to }) => {
+    const keys = path.split('.')
+    const parent = keys.slice(0, -1).reduce<Record<string, unknown>>(
+      (obj, key) => (obj[key] ??= {}) as Record<string, unknown>,
+      overrides
+    )
+    parent[keys[keys.length - 1]] = to
+  })
+  return overrides as DeepPartial<WorldConfig>
+}
+
+const counts = (entry: ReplayLogEntry): PopulationCounts =>
+  ({ grass: entry.grass, sheep: entry.sheep, wolves: entry.wolves })
+
+export class ReplayChecker {
+  /**
+   * Run a seeded production ecosystem and record its replay log
+   */
+  public static record(options: ReplayRecordOptions): ReplayLog {
+    const config = options.config ?? WORLD_CONFIG
+    const engine = new SimulationEngine(config, { seed: options.seed, recordReplay: true })
+    WorldInitializer.createProductionEcosystem(engine.getWorld(), config, engine.getRandom())
+
+    for (let i = 0; i < options.steps; i++) {
+      engine.step()
+    }
+    return engine.getReplayLog() as ReplayLog
+  }
+
+  /**
+   * Replay a log with the same seed and config, re-applying its live config updates, and compare every step against it
+   */
+  public static check(log: ReplayLog): ReplayCheckResult {
+    if (log.version !== REPLAY_LOG_VERSION) {
+      throw new Error(`Unsupported replay log version ${log.version} (expected ${REPLAY_LOG_VERSION})`)
+    }
+    if (log.entries[0]?.step !== 0) {
+      throw new Error('Replay log must start at step 0')
+    }
+
+    const engine = new SimulationEngine(log.config, { seed: log.seed })
+    WorldInitializer.createProductionEcosystem(engine.getWorld(), log.config, engine.getRandom())
+    const configHashMatches = hashConfig(log.config) === log.configHash
+
+    for (let i = 0; i < log.entries.length; i++) {
+      const expected = log.entries[i]
+      if (i > 0) {
+        log.configChanges
+          .filter(event => event.step === expected.step)
+          .forEach(event => engine.updateConfig(toOverrides(event.changes)))
+        engine.step()
+      }
+
+      const actual = engine.getReplayEntry()
+      if (actual.worldHash !== expected.worldHash || actual.step !== expected.step) {
+        return { matches: false, stepsChecked: i, configHashMatches, divergence: ReplayChecker.describeDivergence(expected, actual) }
+      }
+    }
+
+    return { matches: true, stepsChecked: log.entries.length - 1, configHashMatches, divergence: null }
+  }
+
+  public static readLog(filePath: string): ReplayLog {
+    return JSON.parse(readFileSync(filePath, 'utf8'))
+  }
+
+  public static writeLog(log: ReplayLog, filePath: string): void {
+    writeFileSync(filePath, JSON.stringify(log))
+  }
+
+  /**
+   * One-paragraph summary of a check, for the command line
+   */
+  public static formatResult(result: ReplayCheckResult): string {
+    const lines: string[] = []
+    if (!result.configHashMatches) {
+      lines.push('⚠️  The log\'s config does not match its recorded hash; it was changed after recording')
+    }
+
+    const divergence = result.divergence
+    if (!divergence) {
+      lines.push(`✅ Replayed ${result.stepsChecked} steps; every step matches the log`)
+      return lines.join('\n')
+    }
+
+    lines.push(`❌ Diverged at step ${divergence.step} (${result.stepsChecked} steps matched)`)
+    if (divergence.cell) {
+      lines.push(`  First differing cell: (${divergence.cell.x}, ${divergence.cell.y})`)
+    } else if (divergence.rows.length === 0) {
+      lines.push('  No cell differs; the step, season or temperature does')
+    } else {
+      lines.push(`  Several cells differ, somewhere in rows ${divergence.rows.join(', ')} and columns ${divergence.columns.join(', ')}`)
+    }
+    lines.push(`  Differing rows: ${divergence.rows.length}, columns: ${divergence.columns.length}`)
+    ;(['grass', 'sheep', 'wolves'] as const).forEach(species => {
+      const before = divergence.expected[species]
+      const after = divergence.actual[species]
+      lines.push(`  ${species}: ${before}${before === after ? '' : ` → ${after}`}`)
+    })
+    return lines.join('\n')
+  }
+
+  private static describeDivergence(expected: ReplayLogEntry, actual: ReplayLogEntry): ReplayDivergence {
+    const rows = differingIndices(expected.rowHashes, actual.rowHashes)
+    const columns = differingIndices(expected.columnHashes, actual.columnHashes)
+
+    return {
+      step: expected.step,
+      expected: counts(expected),
+      actual: counts(actual),
+      cell: rows.length === 1 && columns.length === 1 ? { x: columns[0], y: rows[0] } : null,
+      rows,
+      columns
+    }
+  }
+}
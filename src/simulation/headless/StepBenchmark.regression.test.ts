@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest'
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs'
+import path from 'path'
+import { StepBenchmark, StepBenchmarkBaseline } from './StepBenchmark'
+
+/**
+ * Step throughput regression check. Skipped in normal test runs:
+ * - `npm run bench:baseline` records benchmarks/step-baseline.json on this machine
+ * - `npm run bench:check` fails if any size got slower than the baseline threshold allows,
+ *   or if there is no baseline to compare against
+ */
+
+const BENCHMARK_DIR = path.join(process.cwd(), 'benchmarks')
+const BASELINE_PATH = path.join(BENCHMARK_DIR, 'step-baseline.json')
+const LATEST_PATH = path.join(BENCHMARK_DIR, 'step-latest.json')
+const DEFAULT_THRESHOLD = 0.25
+
+const mode = process.env.MODE
+
+describe.runIf(mode === 'benchmark' || mode === 'benchmark-baseline')('step throughput', () => {
+  it('should not regress against the recorded baseline', () => {
+    if (mode === 'benchmark' && !existsSync(BASELINE_PATH)) {
+      throw new Error(`No step baseline at ${path.relative(process.cwd(), BASELINE_PATH)}; record one with npm run bench:baseline`)
+    }
+
+    const results = StepBenchmark.run({ sizes: [50, 100, 200], steps: 20, warmupSteps: 5, seed: 1 })
+    console.log(StepBenchmark.formatResults(results))
+
+    mkdirSync(BENCHMARK_DIR, { recursive: true })
+    writeFileSync(LATEST_PATH, JSON.stringify(results, null, 2))
+
+    if (mode === 'benchmark-baseline') {
+      const baseline: StepBenchmarkBaseline = { threshold: DEFAULT_THRESHOLD, results }
+      writeFileSync(BASELINE_PATH, JSON.stringify(baseline, null, 2))
+      return
+    }
+
+    const baseline: StepBenchmarkBaseline = JSON.parse(readFileSync(BASELINE_PATH, 'utf8'))
+    expect(StepBenchmark.findRegressions(results, baseline)).toEqual([])
+  }, 300_000)
+})
@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'vitest'
+import { StepBenchmark, StepBenchmarkResult } from './StepBenchmark'
+import { createStepTimings, STEP_PHASES } from '../utils/StepTimer'
+
+describe('StepBenchmark', () => {
+  const result = (size: number, stepsPerSecond: number): StepBenchmarkResult => ({
+    size,
+    storage: 'grid',
+    steps: 10,
+    stepsPerSecond,
+    meanStepMs: 1000 / stepsPerSecond,
+    phases: createStepTimings()
+  })
+
+  it('should time each world size with per-phase means', () => {
+    const [small] = StepBenchmark.run({ sizes: [20], steps: 3, warmupSteps: 1, seed: 3 })
+
+    expect(small).toMatchObject({ size: 20, storage: 'grid', steps: 3 })
+    expect(small.stepsPerSecond).toBeGreaterThan(0)
+    STEP_PHASES.forEach(phase => expect(small.phases[phase]).toBeGreaterThanOrEqual(0))
+    expect(StepBenchmark.formatResults([small])).toContain('20x20 (grid)')
+  })
+
+  it('should flag sizes that slowed down beyond the threshold', () => {
+    const baseline = { threshold: 0.25, results: [result(50, 100), result(100, 20)] }
+
+    const regressions = StepBenchmark.findRegressions([result(50, 80), result(100, 10), result(200, 1)], baseline)
+
+    expect(regressions).toHaveLength(1)
+    expect(regressions[0]).toMatchObject({ size: 100, baselineStepsPerSecond: 20, stepsPerSecond: 10, slowdown: 0.5 })
+  })
+})
@@ -0,0 +1,113 @@
+/**
+ * StepBenchmark measures steps per second and per-phase step timings across
+ * world sizes, and compares runs against a recorded baseline
+ */
+
+import { SimulationEngine } from '../engine/SimulationEngine'
+import { createWorldConfig, mergeWorldConfig } from '../config/WorldConfig'
+import { StepTimings, WorldStorageBackend } from '../types/SimulationTypes'
+import { WorldInitializer } from '../utils/WorldInitializer'
+
+export interface StepBenchmarkOptions {
+  /** Square world sizes to run, in cells per side */
+  sizes: number[]
+  /** Timed steps per size */
+  steps: number
+  /** Untimed steps run first so the JIT and populations settle */
+  warmupSteps?: number
+  seed?: number
+  storage?: WorldStorageBackend
+}
+
+export interface StepBenchmarkResult {
+  size: number;
+  storage: WorldStorageBackend;
+  steps: number;
+  stepsPerSecond: number;
+  meanStepMs: number;
+  phases: StepTimings;      // Mean milliseconds per step
+}
+
+export interface StepBenchmarkBaseline {
+  /** Allowed slowdown before a size counts as regressed (0.25 = 25% fewer steps/second) */
+  threshold: number;
+  results: StepBenchmarkResult[];
+}
+
+export interface BenchmarkRegression {
+  size: number;
+  storage: WorldStorageBackend;
+  baselineStepsPerSecond: number;
+  stepsPerSecond: number;
+  slowdown: number;         // Fraction of baseline throughput lost
+}
+
+export class StepBenchmark {
+  /**
+   * Run a seeded production ecosystem at each size and time its steps
+   */
+  public static run(options: StepBenchmarkOptions): StepBenchmarkResult[] {
+    const storage = options.storage ?? 'grid'
+
+    return options.sizes.map(size => {
+      const config = mergeWorldConfig(createWorldConfig({ width: size, height: size }), { world: { storage } })
+      const simulation = new SimulationEngine(config, { seed: options.seed ?? 1, logSinks: [] })
+      WorldInitializer.createProductionEcosystem(simulation.getWorld(), config, simulation.getRandom())
+
+      for (let i = 0; i < (options.warmupSteps ?? 0); i++) {
+        simulation.step()
+      }
+      simulation.resetTimings()
+
+      const start = performance.now()
+      for (let i = 0; i < options.steps; i++) {
+        simulation.step()
+      }
+      const elapsedMs = performance.now() - start
+      const summary = simulation.getTimingSummary()
+
+      return {
+        size,
+        storage,
+        steps: options.steps,
+        stepsPerSecond: elapsedMs > 0 ? options.steps / (elapsedMs / 1000) : Infinity,
+        meanStepMs: elapsedMs / options.steps,
+        phases: summary.mean
+      }
+    })
+  }
+
+  /**
+   * Sizes whose throughput dropped by more than the baseline threshold; sizes missing from the baseline are skipped
+   */
+  public static findRegressions(results: StepBenchmarkResult[], baseline: StepBenchmarkBaseline): BenchmarkRegression[] {
+    return results.flatMap(result => {
+      const reference = baseline.results.find(r => r.size === result.size && r.storage === result.storage)
+      if (!reference) return []
+
+      const slowdown = 1 - result.stepsPerSecond / reference.stepsPerSecond
+      return slowdown > baseline.threshold
+        ? [{
+          size: result.size,
+          storage: result.storage,
+          baselineStepsPerSecond: reference.stepsPerSecond,
+          stepsPerSecond: result.stepsPerSecond,
+          slowdown
+        }]
+        : []
+    })
+  }
+
+  /**
+   * Plain-text table of throughput and the slowest phases, for console output
+   */
+  public static formatResults(results: StepBenchmarkResult[]): string {
+    return results.map(result => {
+      const phases = Object.entries(result.phases)
+        .sort(([, a], [, b]) => b - a)
+        .map(([phase, ms]) => `${phase} ${ms.toFixed(2)}ms`)
+        .join(', ')
+      return `${result.size}x${result.size} (${result.storage}): ${result.stepsPerSecond.toFixed(1)} steps/s, ${result.meanStepMs.toFixed(2)}ms/step [${phases}]`
+    }).join('\n')
+  }
+}
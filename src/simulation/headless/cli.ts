@@ -0,0 +1,88 @@
+/**
+ * Command-line entry point for headless batch runs
+ *
+ * Usage: npm run simulate -- --steps 1000 --seed 42 --config my-config.json --terrain map.txt --out results/run-42
+ */
+
+import path from 'path'
+import { parseArgs } from 'util'
+import { HeadlessRunner, HeadlessRunOptions } from './HeadlessRunner'
+import { FileLogSink } from './FileLogSink'
+
+export interface CliOptions extends HeadlessRunOptions {
+  outputDir: string
+}
+
+const USAGE = `Usage: simulate [options]
+
+  --config <file>        JSON config (partial configs are merged onto the defaults)
+  --terrain <file>       Terrain map as text, one symbol per cell: . grassland, + fertile, , poor, # rock, ~ water, T forest
+  --seed <number>        Random seed (defaults to config.seed or a random seed)
+  --steps <number>       Number of steps to run (default 1000)
+  --out <dir>            Output directory (default ./simulation-output); logs go to simulation.log there
+  --stop-on-extinction   Stop early once sheep or wolves go extinct
+  --help                 Show this message`
+
+export const parseCliArgs = (args: string[]): CliOptions => {
+  const { values } = parseArgs({
+    args,
+    options: {
+      config: { type: 'string' },
+      terrain: { type: 'string' },
+      seed: { type: 'string' },
+      steps: { type: 'string', default: '1000' },
+      out: { type: 'string', default: './simulation-output' },
+      'stop-on-extinction': { type: 'boolean', default: false }
+    }
+  })
+
+  const steps = Number(values.steps)
+  if (!Number.isInteger(steps) || steps <= 0) {
+    throw new Error(`--steps must be a positive integer (got "${values.steps}")`)
+  }
+
+  const seed = values.seed !== undefined ? Number(values.seed) : undefined
+  if (seed !== undefined && !Number.isInteger(seed)) {
+    throw new Error(`--seed must be an integer (got "${values.seed}")`)
+  }
+
+  const config = values.config ? HeadlessRunner.loadConfigFile(values.config) : undefined
+
+  return {
+    config: values.terrain ? HeadlessRunner.loadTerrainFile(values.terrain, config) : config,
+    seed,
+    steps,
+    outputDir: values.out as string,
+    stopOnExtinction: values['stop-on-extinction'] as boolean
+  }
+}
+
+const main = (args: string[]): number => {
+  if (args.includes('--help')) {
+    console.log(USAGE)
+    return 0
+  }
+
+  let options: CliOptions
+  try {
+    options = parseCliArgs(args)
+  } catch (error) {
+    console.error(`❌ ${(error as Error).message}\n\n${USAGE}`)
+    return 1
+  }
+
+  const startTime = Date.now()
+  const logSink = new FileLogSink(path.join(options.outputDir, 'simulation.log'))
+  const result = HeadlessRunner.run({ ...options, logSinks: [logSink] })
+  const files = HeadlessRunner.writeResults(result, options.outputDir)
+  const elapsed = ((Date.now() - startTime) / 1000).toFixed(1)
+
+  console.log(`✅ Ran ${result.stepsRun} steps with seed ${result.seed} in ${elapsed}s`)
+  files.concat(logSink.getFilePath()).forEach(file => console.log(`  ${file}`))
+  return 0
+}
+
+// Run when executed directly
+if (require.main === module) {
+  process.exitCode = main(process.argv.slice(2))
+}
@@ -0,0 +1,122 @@
+/**
+ * Command-line entry point for parameter sweeps / Monte Carlo ensembles
+ *
+ * Usage: npm run ensemble -- --param sheep.reproductionRate=0.10,0.14 --param wolf.energyPerSheep=4,6 --runs 10 --steps 1000
+ */
+
+import { mkdirSync, writeFileSync } from 'fs'
+import { availableParallelism } from 'os'
+import path from 'path'
+import { parseArgs } from 'util'
+import { EnsembleOptions, EnsembleRunner, ParameterGrid } from './EnsembleRunner'
+import { HeadlessRunner } from './HeadlessRunner'
+import { WORLD_CONFIG } from '../config/WorldConfig'
+
+export interface EnsembleCliOptions extends EnsembleOptions {
+  outputDir?: string
+}
+
+const USAGE = `Usage: ensemble [options]
+
+  --param <path=v1,v2>   Config parameter and values to sweep (repeatable)
+  --runs <number>        Seeds per parameter set (default 10)
+  --seed <number>        First seed (default 1)
+  --steps <number>       Steps per run (default 1000)
+  --config <file>        Base JSON config (partial configs are merged onto the defaults)
+  --workers <number>     Worker threads (default: available CPUs)
+  --out <dir>            Also write ensemble.json and table.md to this directory
+  --help                 Show this message`
+
+const parsePositiveInt = (name: string, value: string): number => {
+  const parsed = Number(value)
+  if (!Number.isInteger(parsed) || parsed <= 0) {
+    throw new Error(`--${name} must be a positive integer (got "${value}")`)
+  }
+  return parsed
+}
+
+export const parseParameter = (spec: string): [string, number[]] => {
+  const [key, list] = spec.split('=')
+  const values = (list ?? '').split(',').filter(v => v.trim() !== '').map(Number)
+  if (!key || values.length === 0 || values.some(v => Number.isNaN(v))) {
+    throw new Error(`--param must look like path=value1,value2 (got "${spec}")`)
+  }
+  return [key.trim(), values]
+}
+
+export const parseEnsembleArgs = (args: string[]): EnsembleCliOptions => {
+  const { values } = parseArgs({
+    args,
+    options: {
+      param: { type: 'string', multiple: true, default: [] },
+      runs: { type: 'string', default: '10' },
+      seed: { type: 'string', default: '1' },
+      steps: { type: 'string', default: '1000' },
+      config: { type: 'string' },
+      workers: { type: 'string' },
+      out: { type: 'string' }
+    }
+  })
+
+  const parameters: ParameterGrid = Object.fromEntries((values.param as string[]).map(parseParameter))
+  if (Object.keys(parameters).length === 0) {
+    throw new Error('At least one --param is required')
+  }
+
+  const baseConfig = values.config ? HeadlessRunner.loadConfigFile(values.config) : undefined
+  // Unknown paths would otherwise only surface once the run starts
+  Object.entries(parameters).forEach(([key, [value]]) => {
+    EnsembleRunner.applyParameters(baseConfig ?? WORLD_CONFIG, { [key]: value })
+  })
+
+  const seed = Number(values.seed)
+  if (!Number.isInteger(seed)) {
+    throw new Error(`--seed must be an integer (got "${values.seed}")`)
+  }
+
+  return {
+    parameters,
+    runsPerSet: parsePositiveInt('runs', values.runs as string),
+    baseSeed: seed,
+    steps: parsePositiveInt('steps', values.steps as string),
+    baseConfig,
+    workers: values.workers ? parsePositiveInt('workers', values.workers) : availableParallelism(),
+    outputDir: values.out
+  }
+}
+
+const main = async (args: string[]): Promise<number> => {
+  if (args.includes('--help')) {
+    console.log(USAGE)
+    return 0
+  }
+
+  let options: EnsembleCliOptions
+  try {
+    options = parseEnsembleArgs(args)
+  } catch (error) {
+    console.error(`❌ ${(error as Error).message}\n\n${USAGE}`)
+    return 1
+  }
+
+  const result = await EnsembleRunner.run(options)
+  const table = EnsembleRunner.formatTable(result)
+  console.log(table)
+
+  if (options.outputDir) {
+    mkdirSync(options.outputDir, { recursive: true })
+    writeFileSync(path.join(options.outputDir, 'ensemble.json'), JSON.stringify(result, null, 2))
+    writeFileSync(path.join(options.outputDir, 'table.md'), table + '\n')
+  }
+  return 0
+}
+
+// Run when executed directly
+if (require.main === module) {
+  main(process.argv.slice(2)).then(code => {
+    process.exitCode = code
+  }).catch(error => {
+    console.error(`❌ ${(error as Error).message}`)
+    process.exitCode = 1
+  })
+}
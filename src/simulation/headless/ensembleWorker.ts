@@ -0,0 +1,10 @@
+/**
+ * Worker thread entry for EnsembleRunner: runs its share of jobs and posts the summaries back
+ */
+
+import { parentPort, workerData } from 'worker_threads'
+import { EnsembleJob, EnsembleRunner } from './EnsembleRunner'
+
+const jobs = (workerData as { jobs: EnsembleJob[] }).jobs
+
+parentPort?.postMessage(jobs.map(job => ({ index: job.index, summary: EnsembleRunner.runJob(job) })))
@@ -0,0 +1,103 @@
+/**
+ * Command-line entry point for recording replay logs and checking them against the current code
+ *
+ * Usage: npm run replay -- record --steps 500 --seed 42 --out replay.json
+ *        npm run replay -- check replay.json
+ */
+
+import { parseArgs } from 'util'
+import { HeadlessRunner } from './HeadlessRunner'
+import { ReplayChecker, ReplayRecordOptions } from './ReplayChecker'
+
+export type ReplayCliCommand =
+  | { command: 'record'; options: ReplayRecordOptions; outputFile: string }
+  | { command: 'check'; logFile: string }
+
+const USAGE = `Usage: replay record [options]
+       replay check <log file>
+
+record options:
+  --config <file>        JSON config (partial configs are merged onto the defaults)
+  --seed <number>        Random seed (defaults to config.seed or a random seed)
+  --steps <number>       Number of steps to record (default 1000)
+  --out <file>           Where to write the log (default ./replay.json)
+
+check replays the log with its seed and config and reports the first step and cell that differ.
+Exits with 1 when the run diverges.`
+
+export const parseReplayArgs = (args: string[]): ReplayCliCommand => {
+  const [command, ...rest] = args
+
+  if (command === 'check') {
+    const { positionals } = parseArgs({ args: rest, allowPositionals: true })
+    if (positionals.length !== 1) {
+      throw new Error('check needs exactly one log file')
+    }
+    return { command: 'check', logFile: positionals[0] }
+  }
+
+  if (command !== 'record') {
+    throw new Error(`Unknown command "${command ?? ''}" (expected record or check)`)
+  }
+
+  const { values } = parseArgs({
+    args: rest,
+    options: {
+      config: { type: 'string' },
+      seed: { type: 'string' },
+      steps: { type: 'string', default: '1000' },
+      out: { type: 'string', default: './replay.json' }
+    }
+  })
+
+  const steps = Number(values.steps)
+  if (!Number.isInteger(steps) || steps <= 0) {
+    throw new Error(`--steps must be a positive integer (got "${values.steps}")`)
+  }
+
+  const seed = values.seed !== undefined ? Number(values.seed) : undefined
+  if (seed !== undefined && !Number.isInteger(seed)) {
+    throw new Error(`--seed must be an integer (got "${values.seed}")`)
+  }
+
+  return {
+    command: 'record',
+    options: {
+      config: values.config ? HeadlessRunner.loadConfigFile(values.config) : undefined,
+      seed,
+      steps
+    },
+    outputFile: values.out as string
+  }
+}
+
+const main = (args: string[]): number => {
+  if (args.includes('--help')) {
+    console.log(USAGE)
+    return 0
+  }
+
+  let parsed: ReplayCliCommand
+  try {
+    parsed = parseReplayArgs(args)
+  } catch (error) {
+    console.error(`❌ ${(error as Error).message}\n\n${USAGE}`)
+    return 1
+  }
+
+  if (parsed.command === 'record') {
+    const log = ReplayChecker.record(parsed.options)
+    ReplayChecker.writeLog(log, parsed.outputFile)
+    console.log(`✅ Recorded ${log.entries.length - 1} steps with seed ${log.seed} to ${parsed.outputFile}`)
+    return 0
+  }
+
+  const result = ReplayChecker.check(ReplayChecker.readLog(parsed.logFile))
+  console.log(ReplayChecker.formatResult(result))
+  return result.matches ? 0 : 1
+}
+
+// Run when executed directly
+if (require.main === module) {
+  process.exitCode = main(process.argv.slice(2))
+}
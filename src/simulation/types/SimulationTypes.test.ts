@@ -69,7 +69,8 @@ describe('SimulationTypes', () => {
         x: 5,
         y: 5,
         temperature: 20,
-        season: Season.SPRING
+        season: Season.SPRING,
+        terrain: 'grassland'
       }
 
       expect(cell.x).toBeGreaterThanOrEqual(0)
@@ -94,8 +95,13 @@ describe('SimulationTypes', () => {
           averageGrassDensity: 0,
           averageSheepEnergy: 0,
           averageWolfEnergy: 0,
+          infectedSheep: 0,
+          infectedWolves: 0,
+          immuneSheep: 0,
+          immuneWolves: 0,
+          migration: { sheepEmigrated: 0, wolvesEmigrated: 0, sheepImmigrated: 0, wolvesImmigrated: 0 },
           extinctionEvents: [],
-          populationHistory: [],
+          configChanges: [],
           deathStats: {
             totalDeaths: 0,
             deathsByCause: {},
@@ -137,7 +143,9 @@ describe('SimulationTypes', () => {
       expect(SimulationActionType.START_SIMULATION).toBe('START_SIMULATION')
       expect(SimulationActionType.PAUSE_SIMULATION).toBe('PAUSE_SIMULATION')
       expect(SimulationActionType.STOP_SIMULATION).toBe('STOP_SIMULATION')
-      expect(Object.keys(SimulationActionType)).toHaveLength(9)
+      expect(SimulationActionType.APPLY_CONFIG).toBe('APPLY_CONFIG')
+      expect(SimulationActionType.FAST_FORWARD).toBe('FAST_FORWARD')
+      expect(Object.keys(SimulationActionType)).toHaveLength(19)
     })
   })
 })
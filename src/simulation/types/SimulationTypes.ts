@@ -53,6 +53,12 @@ export interface Offspring {
   dependencyPeriod: number;    // Steps needing parental care
 }
 
+// Disease progress (SIR); sheep and wolves without one are susceptible
+export interface Infection {
+  state: 'exposed' | 'infectious' | 'recovered';
+  stepsRemaining: number; // Until the next state; recovered animals turn susceptible again at 0
+}
+
 // Sheep-specific interface
 export interface Sheep extends Organism {
   hunger: number;         // Steps since last meal
@@ -62,6 +68,7 @@ export interface Sheep extends Organism {
   grazingEfficiency: number;
   reproductionState: ReproductionState;
   offspring?: Offspring[];     // Current offspring being cared for
+  infection?: Infection;
 }
 
 // Wolf-specific interface
@@ -76,6 +83,7 @@ export interface Wolf extends Organism {
   offspring?: Offspring[];     // Current offspring being cared for
   packRole: 'alpha' | 'beta' | 'omega'; // Pack hierarchy
   territoryCenter?: { x: number; y: number }; // Territory center
+  infection?: Infection;
 }
 
 // Direction enum for movement
@@ -99,6 +107,19 @@ export interface WorldCell {
   wolf?: Wolf;
   temperature: number;    // Environmental temperature
   season: Season;
+  terrain: TerrainType;
+}
+
+// Ground a cell is made of; grassland behaves like a world without terrain
+export type TerrainType = 'grassland' | 'fertile' | 'poor' | 'rock' | 'water' | 'forest';
+
+// How a terrain type shapes life on it (configured per type under config.terrain.types)
+export interface TerrainEffects {
+  growth: number;     // Multiplier on the grass growth rate
+  maxDensity: number; // Multiplier on grass.maxDensity; 0 means nothing grows here
+  passable: boolean;  // Whether sheep and wolves can enter
+  slowdown: number;   // Chance a move into the cell fails
+  cover: number;      // Chance a sheep here escapes a wolf that reached it
 }
 
 // Season enum
@@ -130,11 +151,24 @@ export interface SimulationStatistics {
   averageGrassDensity: number;
   averageSheepEnergy: number;
   averageWolfEnergy: number;
+  infectedSheep: number;  // Exposed or infectious
+  infectedWolves: number;
+  immuneSheep: number;    // Recovered and still immune
+  immuneWolves: number;
+  migration: MigrationStatistics;
   extinctionEvents: ExtinctionEvent[];
-  populationHistory: PopulationSnapshot[];
+  configChanges: ConfigChangeEvent[];
   deathStats: DeathStatistics;
 }
 
+// Animals that crossed the world edge since the run started
+export interface MigrationStatistics {
+  sheepEmigrated: number;
+  wolvesEmigrated: number;
+  sheepImmigrated: number;
+  wolvesImmigrated: number;
+}
+
 // Extinction event
 export interface ExtinctionEvent {
   species: 'grass' | 'sheep' | 'wolf';
@@ -142,20 +176,58 @@ export interface ExtinctionEvent {
   cause: 'starvation' | 'disease' | 'predation' | 'environmental';
 }
 
-// Population snapshot for history
-export interface PopulationSnapshot {
+// Single config value changed while the simulation was running
+export interface ConfigChange {
+  path: string; // Dotted config path, e.g. 'sheep.reproductionRate'
+  from: unknown;
+  to: unknown;
+}
+
+// Live config update, applied from the given step onwards
+export interface ConfigChangeEvent {
   step: number;
-  grassCount: number;
-  sheepCount: number;
-  wolfCount: number;
-  averageEnergy: number;
+  changes: ConfigChange[];
+}
+
+// Population counts at one step
+export interface PopulationPoint {
+  step: number;
+  grass: number;
+  sheep: number;
+  wolves: number;
+}
+
+export type PopulationSpecies = 'grass' | 'sheep' | 'wolves'
+
+export interface PopulationRange {
+  min: number;
+  max: number;
+  mean: number;
+}
+
+// Population counts over a run of steps (a single step at full resolution)
+export interface PopulationBucket {
+  startStep: number;
+  endStep: number;          // Inclusive
+  samples: number;          // Steps recorded in the bucket
+  grass: PopulationRange;
+  sheep: PopulationRange;
+  wolves: PopulationRange;
+}
+
+// Population history query; buckets partly inside the step range are returned whole
+export interface PopulationHistoryQuery {
+  fromStep?: number;
+  toStep?: number;
+  resolution?: number;      // Minimum steps per returned bucket (default 1)
+  maxPoints?: number;       // Coarsen the resolution so the range fits in about this many buckets
 }
 
 // Death tracking interfaces
 export interface DeathRecord {
   organismId: string;
   organismType: 'grass' | 'sheep' | 'wolf';
-  cause: 'hunger' | 'hunting' | 'age' | 'starvation' | 'grazing' | 'reproduction_failure' | 'isolation' | 'territorial_conflict' | 'other';
+  cause: 'hunger' | 'hunting' | 'age' | 'starvation' | 'grazing' | 'reproduction_failure' | 'isolation' | 'territorial_conflict' | 'disease' | 'other';
   step: number;
   energy: number;
   age: number;
@@ -274,6 +346,70 @@ export interface SimulationState {
   config: WorldConfig;    // WorldConfig type
 }
 
+// Serialized world contents (organisms are stored sparsely and placed back on the grid)
+export interface WorldSnapshot {
+  width: number;
+  height: number;
+  currentStep: number;
+  season: Season;
+  temperature: number;
+  statistics: SimulationStatistics;
+  grass: Grass[];
+  sheep: Sheep[];
+  wolves: Wolf[];
+  terrain: string; // Terrain map rows (see Terrain.formatTerrainMap)
+}
+
+// Trend tracking used by oscillation detection
+export interface SpeciesTrendState {
+  trend: 'increasing' | 'decreasing' | 'stable';
+  trendStartStep: number;
+  trendStartPopulation: number;
+  peakInTrend?: number;
+  minInTrend?: number;
+}
+
+// Serialized EcologicalAnalyzer history
+export interface AnalyzerSnapshot {
+  populationHistory: PopulationPoint[];         // Full-resolution recent steps
+  populationBuckets?: PopulationBucket[][];     // Downsampled older steps, finest level first
+  alerts: EcosystemAlert[];
+  extinctionAnalyses: ExtinctionAnalysis[];
+  oscillationCycles: OscillationCycle[];
+  speciesStates: Record<string, SpeciesTrendState>;
+}
+
+// Versioned, JSON-safe document capturing everything needed to resume a run
+export interface SimulationSnapshot {
+  version: number;
+  seed: number;
+  rngState: number;
+  config: WorldConfig;
+  world: WorldSnapshot;
+  analyzer: AnalyzerSnapshot;
+}
+
+// One step of a replay log; hashes come from StateHash.hashWorld
+export interface ReplayLogEntry {
+  step: number;
+  grass: number;
+  sheep: number;
+  wolves: number;
+  worldHash: string;
+  rowHashes: string[];
+  columnHashes: string[];
+}
+
+// Compact record of a seeded run, for checking that later code reproduces it step by step
+export interface ReplayLog {
+  version: number;
+  seed: number;
+  configHash: string;
+  config: WorldConfig; // As the run started
+  configChanges: ConfigChangeEvent[]; // Live updates made during the run, re-applied when replaying
+  entries: ReplayLogEntry[]; // From the initial world (step 0) on
+}
+
 // Action types for Redux
 export enum SimulationActionType {
   START_SIMULATION = 'START_SIMULATION',
@@ -285,69 +421,65 @@ export enum SimulationActionType {
   UPDATE_STATISTICS = 'UPDATE_STATISTICS',
   SET_SPEED = 'SET_SPEED',
   SET_CONFIG = 'SET_CONFIG',
+  APPLY_CONFIG = 'APPLY_CONFIG',
+  FAST_FORWARD = 'FAST_FORWARD',
+  CANCEL_FAST_FORWARD = 'CANCEL_FAST_FORWARD',
+  UPDATE_FAST_FORWARD = 'UPDATE_FAST_FORWARD',
+  SEEK_TIMELINE = 'SEEK_TIMELINE',
+  UPDATE_INSPECTION = 'UPDATE_INSPECTION',
+  BRANCH_TIMELINE = 'BRANCH_TIMELINE',
+  RETURN_TO_LIVE = 'RETURN_TO_LIVE',
+  REPORT_ERROR = 'REPORT_ERROR',
+  DISMISS_ERROR = 'DISMISS_ERROR',
+}
+
+// Data carried by each simulation event type
+export interface SimulationEventDataMap {
+  organism_born: {
+    x: number;
+    y: number;
+    parentId: string; // Spreading grass patch for seedlings
+    mateId?: string;
+  };
+  organism_died: {
+    x: number;
+    y: number;
+    cause: DeathRecord['cause'];
+    details?: string;
+    age: number;
+    energy: number;
+  };
+  organism_moved: {
+    fromX: number;
+    fromY: number;
+    toX: number;
+    toY: number;
+  };
+  organism_reproduced: {
+    mateId: string;
+    litterSize: number;
+  };
+  organism_ate: {
+    preyId: string;
+    preyType: 'grass' | 'sheep';
+    energyGained: number;
+    x: number;
+    y: number;
+  };
 }
 
-// Redux actions
-export interface StartSimulationAction {
-  type: SimulationActionType.START_SIMULATION;
-}
-
-export interface PauseSimulationAction {
-  type: SimulationActionType.PAUSE_SIMULATION;
-}
-
-export interface StopSimulationAction {
-  type: SimulationActionType.STOP_SIMULATION;
-}
-
-export interface StepSimulationAction {
-  type: SimulationActionType.STEP_SIMULATION;
-}
-
-export interface ResetSimulationAction {
-  type: SimulationActionType.RESET_SIMULATION;
-}
-
-export interface UpdateWorldAction {
-  type: SimulationActionType.UPDATE_WORLD;
-  payload: WorldState;
-}
-
-export interface UpdateStatisticsAction {
-  type: SimulationActionType.UPDATE_STATISTICS;
-  payload: SimulationStatistics;
-}
-
-export interface SetSpeedAction {
-  type: SimulationActionType.SET_SPEED;
-  payload: number;
-}
-
-export interface SetConfigAction {
-  type: SimulationActionType.SET_CONFIG;
-  payload: WorldConfig;
-}
-
-// Union type for all actions
-export type SimulationAction =
-  | StartSimulationAction
-  | PauseSimulationAction
-  | StopSimulationAction
-  | StepSimulationAction
-  | ResetSimulationAction
-  | UpdateWorldAction
-  | UpdateStatisticsAction
-  | SetSpeedAction
-  | SetConfigAction;
+export type SimulationEventType = keyof SimulationEventDataMap;
 
-// Event types for simulation events
-export interface SimulationEvent {
-  type: 'organism_born' | 'organism_died' | 'organism_moved' | 'organism_reproduced' | 'organism_ate';
-  organismId: string;
-  organismType: 'grass' | 'sheep' | 'wolf';
-  step: number;
-  data?: Record<string, unknown>;
-}
+// Event types for simulation events; narrowing on `type` gives the matching data
+export type SimulationEvent<T extends SimulationEventType = SimulationEventType> = {
+  [K in T]: {
+    type: K;
+    organismId: string;
+    organismType: 'grass' | 'sheep' | 'wolf';
+    step: number;
+    data: SimulationEventDataMap[K];
+  }
+}[T];
 
 // Utility types
 export type Position = {
@@ -359,5 +491,23 @@ export type EnergyLevel = 'low' | 'medium' | 'high';
 
 export type HealthStatus = 'healthy' | 'hungry' | 'starving' | 'dying';
 
+export type WorldStorageBackend = 'grid' | 'columnar';
+
+// What lies past the grid edge: nothing (moves off it are rejected), the opposite edge, or a mirror
+export type BoundaryMode = 'bounded' | 'torus' | 'reflective';
+
+// Phases of a simulation step, timed by the engine
+export type StepPhase = 'grassGrowth' | 'grassSpreading' | 'sheep' | 'wolves' | 'disease' | 'migration' | 'reproduction' | 'statistics' | 'analyzer';
+
+// Milliseconds spent in each phase
+export type StepTimings = Record<StepPhase, number>;
+
+export interface StepTimingSummary {
+  steps: number;
+  total: StepTimings;       // Summed over all timed steps
+  mean: StepTimings;        // Per step
+  meanStepMs: number;
+}
+
 // Configuration types (re-exported from WorldConfig)
 export type { WorldConfig, GrassConfig, SheepConfig, WolfConfig, WorldParams, VisualizationConfig, DebugConfig } from '../config/WorldConfig';
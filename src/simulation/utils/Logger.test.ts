@@ -0,0 +1,104 @@
+import { describe, it, expect, vi } from 'vitest'
+import { Logger, RingBufferSink, ConsoleSink } from './Logger'
+import { WORLD_CONFIG, mergeWorldConfig } from '../config/WorldConfig'
+import { SimulationEngine } from '../engine/SimulationEngine'
+import { WorldInitializer } from './WorldInitializer'
+
+describe('Logger', () => {
+  it('should drop entries below the configured level', () => {
+    const sink = new RingBufferSink()
+    const logger = new Logger({ level: 'warn', sinks: [sink] })
+
+    logger.debug('deaths', 'debug')
+    logger.info('analysis', 'info')
+    logger.warn('analysis', 'warn')
+    logger.error('hunting', 'error')
+
+    expect(sink.getEntries().map(e => e.message)).toEqual(['warn', 'error'])
+  })
+
+  it('should only emit enabled categories', () => {
+    const sink = new RingBufferSink()
+    const logger = new Logger({ level: 'debug', categories: ['hunting'], sinks: [sink] })
+
+    logger.debug('deaths', 'death')
+    logger.debug('hunting', 'hunt')
+
+    expect(sink.getEntries()).toEqual([expect.objectContaining({ level: 'debug', category: 'hunting', message: 'hunt' })])
+  })
+
+  it('should not build lazy messages that are filtered out', () => {
+    const logger = new Logger({ level: 'info', sinks: [new RingBufferSink()] })
+    const message = vi.fn(() => 'expensive')
+
+    logger.debug('deaths', message)
+
+    expect(message).not.toHaveBeenCalled()
+  })
+
+  it('should configure level and categories from the debug config', () => {
+    const sink = new RingBufferSink()
+    const debug = mergeWorldConfig(WORLD_CONFIG, {
+      debug: { logLevel: 'debug', logCategories: { deaths: false } }
+    }).debug
+    const logger = Logger.fromConfig(debug, [sink])
+
+    logger.debug('deaths', 'death')
+    logger.debug('reproduction', 'birth')
+
+    expect(logger.getLevel()).toBe('debug')
+    expect(sink.getEntries().map(e => e.message)).toEqual(['birth'])
+  })
+
+  it('should keep only the most recent entries in a ring buffer', () => {
+    const sink = new RingBufferSink(3)
+    const logger = new Logger({ sinks: [sink] })
+
+    for (let i = 0; i < 5; i++) logger.info('analysis', `entry ${i}`)
+
+    expect(sink.getEntries().map(e => e.message)).toEqual(['entry 2', 'entry 3', 'entry 4'])
+  })
+
+  it('should write to the console with the matching method', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+    const logger = new Logger({ sinks: [new ConsoleSink()] })
+
+    logger.warn('analysis', 'careful', { step: 3 })
+
+    expect(warn).toHaveBeenCalledWith('careful', { step: 3 })
+    warn.mockRestore()
+  })
+
+  describe('simulation logging', () => {
+    const runSteps = (logLevel: string) => {
+      const sink = new RingBufferSink(10000)
+      const config = mergeWorldConfig(WORLD_CONFIG, { debug: { logLevel } })
+      const engine = new SimulationEngine(config, { seed: 5, logSinks: [sink] })
+      WorldInitializer.createProductionEcosystem(engine.getWorld(), config, engine.getRandom())
+      for (let i = 0; i < 10; i++) engine.step()
+      return { engine, entries: sink.getEntries() }
+    }
+
+    it('should route per-organism logging through the logger at debug level', () => {
+      const { engine, entries } = runSteps('debug')
+
+      const deaths = entries.filter(e => e.category === 'deaths')
+      expect(deaths.length).toBeGreaterThanOrEqual(engine.getStatistics().deathStats.totalDeaths)
+      expect(entries.some(e => e.category === 'reproduction')).toBe(true)
+    })
+
+    it('should stay quiet about individual organisms at the default info level', () => {
+      const { entries } = runSteps('info')
+
+      expect(entries.filter(e => e.level === 'debug')).toEqual([])
+    })
+
+    it('should follow live debug config updates', () => {
+      const { engine } = runSteps('info')
+
+      engine.updateConfig({ debug: { logLevel: 'error' } })
+
+      expect(engine.getLogger().getLevel()).toBe('error')
+    })
+  })
+})
@@ -0,0 +1,164 @@
+/**
+ * Logger provides levelled, categorised logging with pluggable sinks.
+ * Level and enabled categories come from WorldConfig.debug.
+ */
+
+import type { DebugConfig } from '../config/WorldConfig'
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error'
+
+export type LogCategory = 'deaths' | 'hunting' | 'reproduction' | 'analysis' | 'worker'
+
+export interface LogEntry {
+  level: LogLevel;
+  category: LogCategory;
+  message: string;
+  timestamp: number;
+  data?: unknown;
+}
+
+export interface LogSink {
+  write(entry: LogEntry): void
+}
+
+export interface LoggerOptions {
+  level?: LogLevel
+  /** Categories to emit (default: all) */
+  categories?: LogCategory[]
+  sinks?: LogSink[]
+}
+
+// Messages may be built lazily so disabled debug logging costs nothing in hot loops
+export type LogMessage = string | (() => string)
+
+const LEVEL_PRIORITY: Record<LogLevel, number> = {
+  debug: 0,
+  info: 1,
+  warn: 2,
+  error: 3
+}
+
+export const LOG_CATEGORIES: LogCategory[] = ['deaths', 'hunting', 'reproduction', 'analysis', 'worker']
+
+/**
+ * Writes entries to the console, matching the console method to the level
+ */
+export class ConsoleSink implements LogSink {
+  public write(entry: LogEntry): void {
+    const method = entry.level === 'error' ? console.error : entry.level === 'warn' ? console.warn : console.log
+    if (entry.data !== undefined) {
+      method(entry.message, entry.data)
+    } else {
+      method(entry.message)
+    }
+  }
+}
+
+/**
+ * Keeps the most recent entries in memory (e.g. for a UI log view or tests)
+ */
+export class RingBufferSink implements LogSink {
+  private entries: LogEntry[] = []
+  private capacity: number
+
+  constructor(capacity: number = 1000) {
+    this.capacity = capacity
+  }
+
+  public write(entry: LogEntry): void {
+    this.entries.push(entry)
+    if (this.entries.length > this.capacity) {
+      this.entries.shift()
+    }
+  }
+
+  public getEntries(): LogEntry[] {
+    return [...this.entries]
+  }
+
+  public clear(): void {
+    this.entries = []
+  }
+}
+
+export class Logger {
+  private level: LogLevel
+  private categories: Set<LogCategory>
+  private sinks: LogSink[]
+
+  constructor(options: LoggerOptions = {}) {
+    this.level = options.level ?? 'info'
+    this.categories = new Set(options.categories ?? LOG_CATEGORIES)
+    this.sinks = options.sinks ?? [new ConsoleSink()]
+  }
+
+  /**
+   * Create a logger configured from the debug section of a WorldConfig
+   */
+  public static fromConfig(debug: DebugConfig, sinks?: LogSink[]): Logger {
+    const logger = new Logger({ sinks })
+    logger.configure(debug)
+    return logger
+  }
+
+  /**
+   * Apply level and category settings from the debug config; sinks are kept
+   */
+  public configure(debug: DebugConfig): void {
+    this.level = debug.logLevel as LogLevel
+    this.categories = new Set(LOG_CATEGORIES.filter(category => debug.logCategories[category]))
+  }
+
+  public getLevel(): LogLevel {
+    return this.level
+  }
+
+  public setLevel(level: LogLevel): void {
+    this.level = level
+  }
+
+  public addSink(sink: LogSink): void {
+    this.sinks.push(sink)
+  }
+
+  public removeSink(sink: LogSink): void {
+    this.sinks = this.sinks.filter(s => s !== sink)
+  }
+
+  public setSinks(sinks: LogSink[]): void {
+    this.sinks = [...sinks]
+  }
+
+  public isEnabled(level: LogLevel, category: LogCategory): boolean {
+    return LEVEL_PRIORITY[level] >= LEVEL_PRIORITY[this.level] && this.categories.has(category) && this.sinks.length > 0
+  }
+
+  public log(level: LogLevel, category: LogCategory, message: LogMessage, data?: unknown): void {
+    if (!this.isEnabled(level, category)) return
+
+    const entry: LogEntry = {
+      level,
+      category,
+      message: typeof message === 'function' ? message() : message,
+      timestamp: Date.now(),
+      data
+    }
+    this.sinks.forEach(sink => sink.write(entry))
+  }
+
+  public debug(category: LogCategory, message: LogMessage, data?: unknown): void {
+    this.log('debug', category, message, data)
+  }
+
+  public info(category: LogCategory, message: LogMessage, data?: unknown): void {
+    this.log('info', category, message, data)
+  }
+
+  public warn(category: LogCategory, message: LogMessage, data?: unknown): void {
+    this.log('warn', category, message, data)
+  }
+
+  public error(category: LogCategory, message: LogMessage, data?: unknown): void {
+    this.log('error', category, message, data)
+  }
+}
@@ -0,0 +1,61 @@
+/**
+ * RandomGenerator provides a single seedable source of randomness for the simulation
+ * so that a seed fully determines a run (world setup, processing order, offspring IDs)
+ */
+
+export class RandomGenerator {
+  private seed: number
+  private state: number
+
+  constructor(seed: number = RandomGenerator.createSeed()) {
+    this.seed = seed >>> 0
+    this.state = this.seed
+  }
+
+  /**
+   * Create a fresh seed for runs that do not request a specific one
+   */
+  static createSeed(): number {
+    return Math.floor(Math.random() * 0x100000000) >>> 0
+  }
+
+  /**
+   * Next float in [0, 1) using the mulberry32 algorithm
+   */
+  public next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0
+    let t = this.state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 0x100000000
+  }
+
+  /**
+   * Next integer in [min, max] (inclusive)
+   */
+  public nextInt(min: number, max: number): number {
+    return Math.floor(this.next() * (max - min + 1)) + min
+  }
+
+  /**
+   * Short random suffix for organism IDs
+   */
+  public nextId(): string {
+    return Math.floor(this.next() * 0x100000000).toString(36).padStart(7, '0')
+  }
+
+  public getSeed(): number {
+    return this.seed
+  }
+
+  /**
+   * Internal generator state, used to resume a run from the exact same point
+   */
+  public getState(): number {
+    return this.state
+  }
+
+  public setState(state: number): void {
+    this.state = state >>> 0
+  }
+}
@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest'
+import { hashConfig, hashWorld, stableStringify } from './StateHash'
+import { World } from '../engine/World'
+import { OrganismFactory } from './OrganismFactory'
+import { createWorldConfig, mergeWorldConfig } from '../config/WorldConfig'
+
+const config = createWorldConfig({ width: 6, height: 5 })
+
+const createWorld = (sheepEnergy: number = 0.8) => {
+  const world = new World(config)
+  world.setCellContent(1, 1, { grass: OrganismFactory.createGrass({ id: 'g1', x: 1, y: 1 }) })
+  world.setCellContent(4, 3, { sheep: OrganismFactory.createSheep({ id: 's1', x: 4, y: 3, energy: sheepEnergy }) })
+  return world
+}
+
+describe('StateHash', () => {
+  it('should serialize objects the same way whatever their key order', () => {
+    expect(stableStringify({ b: 1, a: [{ d: 2, c: 3 }] })).toBe(stableStringify({ a: [{ c: 3, d: 2 }], b: 1 }))
+    expect(stableStringify({ a: 1, b: undefined })).toBe('{"a":1}')
+  })
+
+  it('should hash equal configs and worlds equally', () => {
+    expect(hashConfig(config)).toBe(hashConfig(createWorldConfig({ width: 6, height: 5 })))
+    expect(hashConfig(config)).not.toBe(hashConfig(mergeWorldConfig(config, { grass: { growthRate: 0.5 } })))
+    expect(hashWorld(createWorld())).toEqual(hashWorld(createWorld()))
+  })
+
+  it('should pin a changed cell to one row and one column', () => {
+    const expected = hashWorld(createWorld())
+    const actual = hashWorld(createWorld(0.5))
+
+    expect(actual.world).not.toBe(expected.world)
+    expect(actual.rows).toHaveLength(5)
+    expect(actual.columns).toHaveLength(6)
+    expect(actual.rows.flatMap((row, y) => row === expected.rows[y] ? [] : [y])).toEqual([3])
+    expect(actual.columns.flatMap((column, x) => column === expected.columns[x] ? [] : [x])).toEqual([4])
+  })
+})
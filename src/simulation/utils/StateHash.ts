@@ -0,0 +1,83 @@
+/**
+ * StateHash fingerprints configs and world state so two runs can be compared step by step
+ * without keeping either run's full state. Hashes are 32-bit FNV-1a, written as 8 hex digits.
+ */
+
+import { WorldConfig } from '../config/WorldConfig'
+import { World } from '../engine/World'
+import { OrganismKind } from '../engine/WorldStorage'
+
+export interface WorldHash {
+  world: string;     // Whole world: every cell plus step, season and temperature
+  rows: string[];    // rows[y] covers the cells (0..width-1, y)
+  columns: string[]; // columns[x] covers the cells (x, 0..height-1)
+}
+
+const FNV_OFFSET = 0x811c9dc5
+const FNV_PRIME = 0x01000193
+const ORGANISM_KINDS: OrganismKind[] = ['grass', 'sheep', 'wolf']
+
+const fnv1a = (text: string, hash: number = FNV_OFFSET): number => {
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i)
+    hash = Math.imul(hash, FNV_PRIME) >>> 0
+  }
+  return hash >>> 0
+}
+
+const toHex = (hash: number): string => hash.toString(16).padStart(8, '0')
+
+export const hashString = (text: string): string => toHex(fnv1a(text))
+
+/**
+ * JSON with object keys sorted, so equal values always serialize (and hash) the same way
+ */
+export const stableStringify = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(item => stableStringify(item ?? null)).join(',')}]`
+  }
+  if (value !== null && typeof value === 'object') {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .sort()
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .map(key => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`)
+    return `{${entries.join(',')}}`
+  }
+  return JSON.stringify(value)
+}
+
+export const hashConfig = (config: WorldConfig): string => hashString(stableStringify(config))
+
+/**
+ * Hash every cell's occupants, then fold the cell hashes by row, by column and over the whole grid.
+ * A single differing cell shows up in exactly one row hash and one column hash.
+ */
+export const hashWorld = (world: World): WorldHash => {
+  const width = world.getWidth()
+  const height = world.getHeight()
+  const cellText = new Map<number, string>()
+
+  ORGANISM_KINDS.forEach(kind => {
+    world.getOrganismsByType(kind).forEach(organism => {
+      const index = organism.y * width + organism.x
+      cellText.set(index, `${cellText.get(index) ?? ''}${kind}${stableStringify(organism)}`)
+    })
+  })
+
+  const rows = new Array<number>(height).fill(FNV_OFFSET)
+  const columns = new Array<number>(width).fill(FNV_OFFSET)
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const text = cellText.get(y * width + x)
+      if (text === undefined) continue
+
+      const cell = `${x},${y}:${text};`
+      rows[y] = fnv1a(cell, rows[y])
+      columns[x] = fnv1a(cell, columns[x])
+    }
+  }
+
+  const header = `${world.getCurrentStep()}|${world.getSeason()}|${world.getTemperature()}|`
+  const worldHash = rows.reduce((hash, row) => fnv1a(toHex(row), hash), fnv1a(header))
+  return { world: toHex(worldHash), rows: rows.map(toHex), columns: columns.map(toHex) }
+}
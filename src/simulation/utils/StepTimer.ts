@@ -0,0 +1,48 @@
+/**
+ * StepTimer accumulates wall-clock time per step phase
+ */
+
+import { StepPhase, StepTimings } from '../types/SimulationTypes'
+
+export const STEP_PHASES: StepPhase[] = [
+  'grassGrowth',
+  'grassSpreading',
+  'sheep',
+  'wolves',
+  'disease',
+  'migration',
+  'reproduction',
+  'statistics',
+  'analyzer'
+]
+
+export const createStepTimings = (): StepTimings =>
+  Object.fromEntries(STEP_PHASES.map(phase => [phase, 0])) as StepTimings
+
+export class StepTimer {
+  private timings = createStepTimings()
+
+  /**
+   * Run fn and add its duration to the phase
+   */
+  public measure<T>(phase: StepPhase, fn: () => T): T {
+    const start = performance.now()
+    try {
+      return fn()
+    } finally {
+      this.timings[phase] += performance.now() - start
+    }
+  }
+
+  public add(phase: StepPhase, ms: number): void {
+    this.timings[phase] += ms
+  }
+
+  public getTimings(): StepTimings {
+    return { ...this.timings }
+  }
+
+  public reset(): void {
+    this.timings = createStepTimings()
+  }
+}
@@ -6,6 +6,11 @@
 import { World } from '../engine/World'
 import { WorldConfig } from '../config/WorldConfig'
 import { OrganismFactory } from './OrganismFactory'
+import { RandomGenerator } from './RandomGenerator'
+import { createUniformTerrain, generateTerrain, parseTerrainMap, TerrainMap } from '../engine/Terrain'
+import { generateLandscape } from '../engine/Landscape'
+import { OrganismKind } from '../engine/WorldStorage'
+import { TerrainEffects } from '../types/SimulationTypes'
 
 export interface InitializationOptions {
   /** Override default grass coverage (0-1) */
@@ -20,13 +25,23 @@ export interface InitializationOptions {
   seed?: number
 }
 
+// How well a cell suits each kind of organism, given its terrain and soil fertility (0-1)
+const HABITAT: Record<OrganismKind, (terrain: TerrainEffects, fertility: number) => number> = {
+  grass: (terrain, fertility) => terrain.growth * terrain.maxDensity * fertility,
+  // Good grazing, better still with somewhere to hide
+  sheep: (terrain, fertility) => terrain.passable ? terrain.growth * terrain.maxDensity * fertility * (1 + terrain.cover) : 0,
+  // Open ground to hunt over
+  wolf: terrain => terrain.passable ? 1 - terrain.slowdown : 0
+}
+
 export class WorldInitializer {
   private config: WorldConfig
-  private rng: () => number
+  private rng: RandomGenerator
+  private fertility: Float32Array | null = null // Soil fertility per cell (row-major) for landscapes
 
-  constructor(config: WorldConfig) {
+  constructor(config: WorldConfig, rng: RandomGenerator = new RandomGenerator()) {
     this.config = config
-    this.rng = Math.random
+    this.rng = rng
   }
 
   /**
@@ -35,11 +50,12 @@ export class WorldInitializer {
   public initializeWorld(world: World, options: InitializationOptions = {}): void {
     // Set up deterministic random if requested
     if (options.deterministic && options.seed !== undefined) {
-      this.rng = this.createSeededRandom(options.seed)
+      this.rng = new RandomGenerator(options.seed)
     }
 
     // Clear the world first
     this.clearWorld(world)
+    this.initializeTerrain(world)
 
     // Initialize organisms
     this.initializeGrass(world, options.grassCoverage)
@@ -50,6 +66,31 @@ export class WorldInitializer {
     world.updateStatistics()
   }
 
+  /**
+   * Lay out the ground before anything is placed on it; uniform terrain draws no random numbers
+   */
+  private initializeTerrain(world: World): void {
+    this.fertility = null
+    world.setTerrainMap(this.createTerrain())
+  }
+
+  private createTerrain(): TerrainMap {
+    const { width, height, terrain } = this.config
+    switch (terrain.source) {
+      case 'map':
+        return parseTerrainMap(terrain.map)
+      case 'procedural':
+        return generateTerrain(width, height, this.rng, terrain.coverage)
+      case 'landscape': {
+        const landscape = generateLandscape(width, height, this.rng, { ...terrain.landscape, coverage: terrain.coverage })
+        this.fertility = landscape.fertility
+        return landscape.terrain
+      }
+      default:
+        return createUniformTerrain(width, height)
+    }
+  }
+
   /**
    * Initialize grass coverage
    */
@@ -57,9 +98,10 @@ export class WorldInitializer {
     const coverage = coverageOverride ?? this.config.initialGrassCoverage
     const totalCells = this.config.width * this.config.height
     const grassCells = Math.floor(totalCells * coverage)
+    const sites = this.findHabitatSites(world, 'grass', grassCells)
 
     for (let i = 0; i < grassCells; i++) {
-      const position = this.findEmptyPosition(world)
+      const position = sites ? sites[i] : this.findEmptyPosition(world, 'grass')
       if (!position) continue
 
       const grass = OrganismFactory.createGrass({
@@ -67,7 +109,7 @@ export class WorldInitializer {
         x: position.x,
         y: position.y,
         energy: 0.8,
-        density: this.rng() * 0.6 + 0.4, // 0.4-1.0 density
+        density: this.rng.next() * 0.6 + 0.4, // 0.4-1.0 density
         growthStage: 'mature'
       })
 
@@ -80,9 +122,10 @@ export class WorldInitializer {
    */
   private initializeSheep(world: World, countOverride?: number): void {
     const count = countOverride ?? this.config.initialSheepCount
+    const sites = this.findHabitatSites(world, 'sheep', count)
 
     for (let i = 0; i < count; i++) {
-      const position = this.findEmptyPosition(world)
+      const position = sites ? sites[i] : this.findEmptyPosition(world)
       if (!position) continue
 
       const sheep = OrganismFactory.createSheep({
@@ -90,7 +133,7 @@ export class WorldInitializer {
         x: position.x,
         y: position.y,
         energy: 0.8, // Good starting energy
-        age: Math.floor(this.rng() * 20), // Varied ages
+        age: Math.floor(this.rng.next() * 20), // Varied ages
         grazingEfficiency: this.config.sheep.grazingEfficiency
       })
 
@@ -103,9 +146,10 @@ export class WorldInitializer {
    */
   private initializeWolves(world: World, countOverride?: number): void {
     const count = countOverride ?? this.config.initialWolfCount
+    const sites = this.findHabitatSites(world, 'wolf', count)
 
     for (let i = 0; i < count; i++) {
-      const position = this.findEmptyPosition(world)
+      const position = sites ? sites[i] : this.findEmptyPosition(world)
       if (!position) continue
 
       const wolf = OrganismFactory.createWolf({
@@ -113,7 +157,7 @@ export class WorldInitializer {
         x: position.x,
         y: position.y,
         energy: 0.9, // High starting energy
-        age: Math.floor(this.rng() * 30), // Varied ages
+        age: Math.floor(this.rng.next() * 30), // Varied ages
         packRole: i < 2 ? 'alpha' : 'omega', // First two are alphas
         packId: `pack-${Math.floor(i / 5)}` // Create packs of ~5 wolves each
       })
@@ -123,18 +167,48 @@ export class WorldInitializer {
   }
 
   /**
-   * Find an empty position in the world
+   * Cells for up to `count` organisms chosen by habitat suitability, or null on uniform terrain,
+   * where organisms are scattered with findEmptyPosition instead. Grass takes cells without grass
+   * and animals cells without animals, so sheep can start out on their pasture.
    */
-  private findEmptyPosition(world: World): { x: number; y: number } | null {
+  private findHabitatSites(world: World, kind: OrganismKind, count: number): { x: number; y: number }[] | null {
+    if (this.config.terrain.source === 'uniform') return null
+
+    const candidates: { x: number; y: number; key: number }[] = []
+    for (let y = 0; y < this.config.height; y++) {
+      for (let x = 0; x < this.config.width; x++) {
+        const cell = world.getCell(x, y)
+        const free = kind === 'grass' ? !cell?.grass : !cell?.sheep && !cell?.wolf
+        const fertility = this.fertility ? this.fertility[y * this.config.width + x] : 1
+        const suitability = HABITAT[kind](world.getTerrainEffects(x, y), fertility)
+        if (cell && free && suitability > 0) {
+          // Weighted sampling without replacement: the largest of these keys favour the best habitat
+          candidates.push({ x, y, key: Math.log(this.rng.next()) / suitability })
+        }
+      }
+    }
+
+    return candidates
+      .sort((a, b) => b.key - a.key)
+      .slice(0, count)
+      .map(({ x, y }) => ({ x, y }))
+  }
+
+  /**
+   * Find an empty position in the world whose terrain suits the organism
+   */
+  private findEmptyPosition(world: World, organism: 'grass' | 'animal' = 'animal'): { x: number; y: number } | null {
     let attempts = 0
     const maxAttempts = 100
 
     while (attempts < maxAttempts) {
-      const x = Math.floor(this.rng() * this.config.width)
-      const y = Math.floor(this.rng() * this.config.height)
+      const x = Math.floor(this.rng.next() * this.config.width)
+      const y = Math.floor(this.rng.next() * this.config.height)
       
       const cell = world.getCell(x, y)
-      if (cell && !cell.grass && !cell.sheep && !cell.wolf) {
+      const terrain = world.getTerrainEffects(x, y)
+      const suitable = organism === 'grass' ? terrain.maxDensity > 0 : terrain.passable
+      if (cell && !cell.grass && !cell.sheep && !cell.wolf && suitable) {
         return { x, y }
       }
       
@@ -155,22 +229,12 @@ export class WorldInitializer {
     }
   }
 
-  /**
-   * Create a seeded random number generator for deterministic tests
-   */
-  private createSeededRandom(seed: number): () => number {
-    let current = seed
-    return () => {
-      current = (current * 9301 + 49297) % 233280
-      return current / 233280
-    }
-  }
-
   /**
    * Create a stable ecosystem for testing (high density, good spacing)
    */
-  public static createStableTestEcosystem(world: World, config: WorldConfig): void {
-    const initializer = new WorldInitializer(config)
+  public static createStableTestEcosystem(world: World, config: WorldConfig, rng?: RandomGenerator): void {
+    const initializer = new WorldInitializer(config, rng)
+    initializer.initializeTerrain(world)
     
     // Dense grass coverage
     initializer.initializeGrass(world, 0.9)
@@ -186,9 +250,10 @@ export class WorldInitializer {
 
   /**
    * Create a production ecosystem matching current config
+   * Pass the engine's RandomGenerator so the seed also determines the initial layout
    */
-  public static createProductionEcosystem(world: World, config: WorldConfig): void {
-    const initializer = new WorldInitializer(config)
+  public static createProductionEcosystem(world: World, config: WorldConfig, rng?: RandomGenerator): void {
+    const initializer = new WorldInitializer(config, rng)
     initializer.initializeWorld(world)
   }
 
@@ -0,0 +1,89 @@
+/**
+ * FrameBuffer holds the page-side copy of the grid, rebuilt from the frame diffs the worker streams
+ */
+
+import { TerrainType } from '../types/SimulationTypes'
+import { terrainFromCode } from '../engine/Terrain'
+import { ANIMAL_INFECTED, ANIMAL_SHEEP, ANIMAL_WOLF, FrameDiff } from './WorkerProtocol'
+
+export interface FrameCell {
+  grassDensity: number;     // 0 when the cell has no grass
+  hasGrass: boolean;
+  hasSheep: boolean;
+  hasWolf: boolean;
+  isInfected: boolean;      // An animal in the cell carries the disease
+  terrain: TerrainType;
+}
+
+// Plain-data grid, indexed like FrameDiff (x * height + y)
+export interface FrameGrid {
+  width: number;
+  height: number;
+  grass: Uint8Array;
+  animals: Uint8Array;
+  terrain: Uint8Array;
+}
+
+/**
+ * Apply a frame to a grid without modifying it, returning the updated grid
+ */
+export const applyFrameDiff = (grid: FrameGrid | null, frame: FrameDiff): FrameGrid => {
+  if (frame.full) {
+    return { width: frame.width, height: frame.height, grass: frame.grass.slice(), animals: frame.animals.slice(), terrain: frame.terrain.slice() }
+  }
+
+  if (!grid || frame.width !== grid.width || frame.height !== grid.height) {
+    const size = grid ? `${grid.width}x${grid.height}` : 'empty'
+    throw new Error(`Partial ${frame.width}x${frame.height} frame does not match the ${size} buffer`)
+  }
+
+  const grass = grid.grass.slice()
+  const animals = grid.animals.slice()
+  const terrain = grid.terrain.slice()
+  frame.indices.forEach((index, i) => {
+    grass[index] = frame.grass[i]
+    animals[index] = frame.animals[i]
+    terrain[index] = frame.terrain[i]
+  })
+  return { width: grid.width, height: grid.height, grass, animals, terrain }
+}
+
+export const getFrameCell = (grid: FrameGrid, x: number, y: number): FrameCell => {
+  const index = x * grid.height + y
+  const grass = grid.grass[index]
+  return {
+    grassDensity: grass / 255,
+    hasGrass: grass > 0,
+    hasSheep: (grid.animals[index] & ANIMAL_SHEEP) !== 0,
+    hasWolf: (grid.animals[index] & ANIMAL_WOLF) !== 0,
+    isInfected: (grid.animals[index] & ANIMAL_INFECTED) !== 0,
+    terrain: terrainFromCode(grid.terrain[index])
+  }
+}
+
+export class FrameBuffer {
+  private grid: FrameGrid | null = null
+
+  public apply(frame: FrameDiff): void {
+    this.grid = applyFrameDiff(this.grid, frame)
+  }
+
+  public getWidth(): number {
+    return this.grid?.width ?? 0
+  }
+
+  public getHeight(): number {
+    return this.grid?.height ?? 0
+  }
+
+  public getGrid(): FrameGrid | null {
+    return this.grid
+  }
+
+  public getCell(x: number, y: number): FrameCell {
+    if (!this.grid) {
+      return { grassDensity: 0, hasGrass: false, hasSheep: false, hasWolf: false, isInfected: false, terrain: 'grassland' }
+    }
+    return getFrameCell(this.grid, x, y)
+  }
+}
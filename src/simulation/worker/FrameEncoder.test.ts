@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest'
+import { FrameEncoder } from './FrameEncoder'
+import { FrameBuffer } from './FrameBuffer'
+import { World } from '../engine/World'
+import { createWorldConfig } from '../config/WorldConfig'
+import { parseTerrainMap } from '../engine/Terrain'
+import { OrganismFactory } from '../utils/OrganismFactory'
+
+describe('FrameEncoder', () => {
+  const createWorld = () => new World(createWorldConfig({ width: 6, height: 4 }))
+
+  it('should encode the whole grid on the first frame', () => {
+    const world = createWorld()
+    world.setCellContent(1, 2, { grass: OrganismFactory.createGrass({ id: 'g', x: 1, y: 2, density: 0.5 }) })
+    world.setCellContent(3, 0, { sheep: OrganismFactory.createSheep({ id: 's', x: 3, y: 0, energy: 5 }) })
+
+    const frame = new FrameEncoder().encode(world)
+
+    expect(frame.full).toBe(true)
+    expect(frame.grass).toHaveLength(24)
+    expect(frame.grass[1 * 4 + 2]).toBe(128)
+    expect(frame.animals[3 * 4 + 0]).toBe(1)
+  })
+
+  it('should only send cells that changed since the previous frame', () => {
+    const world = createWorld()
+    const encoder = new FrameEncoder()
+    const sheep = OrganismFactory.createSheep({ id: 's', x: 0, y: 0, energy: 5 })
+    world.setCellContent(0, 0, { sheep })
+    world.setCellContent(5, 3, { wolf: OrganismFactory.createWolf({ id: 'w', x: 5, y: 3 }) })
+    encoder.encode(world)
+
+    world.moveOrganism(sheep, 'sheep', 0, 1)
+    const diff = encoder.encode(world)
+
+    expect(diff.full).toBe(false)
+    expect(Array.from(diff.indices)).toEqual([0, 1])
+    expect(Array.from(diff.animals)).toEqual([0, 1])
+    expect(encoder.encode(world).indices).toHaveLength(0)
+  })
+
+  it('should rebuild the grid on the page from a full frame and diffs', () => {
+    const world = createWorld()
+    const encoder = new FrameEncoder()
+    const buffer = new FrameBuffer()
+    buffer.apply(encoder.encode(world))
+
+    world.setCellContent(2, 1, { grass: OrganismFactory.createGrass({ id: 'g', x: 2, y: 1, density: 1 }) })
+    world.setCellContent(2, 1, { wolf: OrganismFactory.createWolf({ id: 'w', x: 2, y: 1 }) })
+    buffer.apply(encoder.encode(world))
+
+    expect(buffer.getWidth()).toBe(6)
+    expect(buffer.getHeight()).toBe(4)
+    expect(buffer.getCell(2, 1)).toEqual({ grassDensity: 1, hasGrass: true, hasSheep: false, hasWolf: true, isInfected: false, terrain: 'grassland' })
+    expect(buffer.getCell(0, 0)).toEqual({ grassDensity: 0, hasGrass: false, hasSheep: false, hasWolf: false, isInfected: false, terrain: 'grassland' })
+  })
+
+  it('should flag cells with an infected animal but not a recovered one', () => {
+    const world = createWorld()
+    const buffer = new FrameBuffer()
+    const sick = OrganismFactory.createSheep({ id: 's', x: 1, y: 1, energy: 5 })
+    const recovered = OrganismFactory.createWolf({ id: 'w', x: 4, y: 2 })
+    sick.infection = { state: 'infectious', stepsRemaining: 3 }
+    recovered.infection = { state: 'recovered', stepsRemaining: 10 }
+    world.setCellContent(1, 1, { sheep: sick })
+    world.setCellContent(4, 2, { wolf: recovered })
+
+    buffer.apply(new FrameEncoder().encode(world))
+
+    expect(buffer.getCell(1, 1).isInfected).toBe(true)
+    expect(buffer.getCell(4, 2)).toMatchObject({ hasWolf: true, isInfected: false })
+  })
+
+  it('should send terrain with the first frame and when it changes', () => {
+    const world = createWorld()
+    const encoder = new FrameEncoder()
+    const buffer = new FrameBuffer()
+    world.setTerrainMap(parseTerrainMap('~.....\n......\n......\n.....#'))
+    buffer.apply(encoder.encode(world))
+    expect(encoder.encode(world).indices).toHaveLength(0)
+
+    const map = world.getTerrainMap()
+    map.cells[1 * 6 + 2] = 'forest'
+    world.setTerrainMap(map)
+    buffer.apply(encoder.encode(world))
+
+    expect(buffer.getCell(0, 0).terrain).toBe('water')
+    expect(buffer.getCell(5, 3).terrain).toBe('rock')
+    expect(buffer.getCell(2, 1).terrain).toBe('forest')
+    expect(buffer.getCell(1, 1).terrain).toBe('grassland')
+  })
+
+  it('should reject a diff for a different grid size', () => {
+    const buffer = new FrameBuffer()
+    buffer.apply(new FrameEncoder().encode(createWorld()))
+
+    const encoder = new FrameEncoder()
+    const other = new World(createWorldConfig({ width: 3, height: 3 }))
+    encoder.encode(other)
+
+    expect(() => buffer.apply(encoder.encode(other))).toThrow('does not match')
+  })
+})
@@ -0,0 +1,93 @@
+/**
+ * FrameEncoder turns the world into compact frame diffs against the last frame it produced
+ */
+
+import { World } from '../engine/World'
+import { terrainCode } from '../engine/Terrain'
+import { Grass, Sheep, Wolf } from '../types/SimulationTypes'
+import { ANIMAL_INFECTED, ANIMAL_SHEEP, ANIMAL_WOLF, FrameDiff } from './WorkerProtocol'
+
+const infectedFlag = (animal: Sheep | Wolf): number =>
+  animal.infection && animal.infection.state !== 'recovered' ? ANIMAL_INFECTED : 0
+
+export class FrameEncoder {
+  private previous: { width: number; height: number; grass: Uint8Array; animals: Uint8Array; terrain: Uint8Array } | null = null
+
+  /**
+   * Encode the world, as a full frame when requested or when there is nothing to diff against
+   */
+  public encode(world: World, full: boolean = false): FrameDiff {
+    const width = world.getWidth()
+    const height = world.getHeight()
+    const size = width * height
+    const grass = new Uint8Array(size)
+    const animals = new Uint8Array(size)
+    const terrain = new Uint8Array(size)
+
+    for (let x = 0; x < width; x++) {
+      for (let y = 0; y < height; y++) {
+        terrain[x * height + y] = terrainCode(world.getTerrain(x, y))
+      }
+    }
+
+    ;(world.getOrganismsByType('grass') as Grass[]).forEach(g => {
+      grass[g.x * height + g.y] = Math.max(1, Math.round(Math.min(1, g.density) * 255))
+    })
+    ;(world.getOrganismsByType('sheep') as Sheep[]).forEach(s => {
+      animals[s.x * height + s.y] |= ANIMAL_SHEEP | infectedFlag(s)
+    })
+    ;(world.getOrganismsByType('wolf') as Wolf[]).forEach(w => {
+      animals[w.x * height + w.y] |= ANIMAL_WOLF | infectedFlag(w)
+    })
+
+    const previous = this.previous
+    this.previous = { width, height, grass, animals, terrain }
+
+    if (full || !previous || previous.width !== width || previous.height !== height) {
+      // Copies, so transferring the buffers doesn't detach the encoder's own state
+      return { width, height, full: true, indices: new Uint32Array(0), grass: grass.slice(), animals: animals.slice(), terrain: terrain.slice() }
+    }
+
+    const differs = (i: number) =>
+      grass[i] !== previous.grass[i] || animals[i] !== previous.animals[i] || terrain[i] !== previous.terrain[i]
+
+    let changed = 0
+    for (let i = 0; i < size; i++) {
+      if (differs(i)) changed++
+    }
+
+    const diff: FrameDiff = {
+      width,
+      height,
+      full: false,
+      indices: new Uint32Array(changed),
+      grass: new Uint8Array(changed),
+      animals: new Uint8Array(changed),
+      terrain: new Uint8Array(changed)
+    }
+    let next = 0
+    for (let i = 0; i < size; i++) {
+      if (differs(i)) {
+        diff.indices[next] = i
+        diff.grass[next] = grass[i]
+        diff.animals[next] = animals[i]
+        diff.terrain[next] = terrain[i]
+        next++
+      }
+    }
+    return diff
+  }
+
+  /**
+   * Forget the last frame so the next one is full
+   */
+  public reset(): void {
+    this.previous = null
+  }
+}
+
+/**
+ * Buffers a frame diff carries, for postMessage transfer lists
+ */
+export const frameTransferables = (frame: FrameDiff): ArrayBuffer[] =>
+  [frame.indices.buffer, frame.grass.buffer, frame.animals.buffer, frame.terrain.buffer] as ArrayBuffer[]
@@ -0,0 +1,196 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { SimulationHost } from './SimulationHost'
+import { FastForwardProgress, FrameStats, WorkerMessage } from './WorkerProtocol'
+import { createWorldConfig } from '../config/WorldConfig'
+
+describe('SimulationHost', () => {
+  const config = createWorldConfig({ width: 20, height: 20 })
+  let messages: WorkerMessage[]
+  let host: SimulationHost
+
+  const frames = () => messages.filter((m): m is Extract<WorkerMessage, { type: 'frame' }> => m.type === 'frame')
+  const lastStats = (): FrameStats => frames()[frames().length - 1].stats
+  const progress = (): FastForwardProgress[] =>
+    messages.flatMap(m => m.type === 'progress' ? [m.progress] : [])
+
+  beforeEach(() => {
+    vi.useFakeTimers()
+    messages = []
+    host = new SimulationHost(message => messages.push(message))
+    host.handle({ type: 'init', config, seed: 7 })
+  })
+
+  afterEach(() => {
+    host.destroy()
+    vi.useRealTimers()
+  })
+
+  it('should send the config and a full first frame on init', () => {
+    expect(messages[0]).toEqual({ type: 'config', config })
+    expect(frames()).toHaveLength(1)
+    expect(frames()[0].frame.full).toBe(true)
+    expect(lastStats()).toMatchObject({ generation: 1, step: 0, isRunning: false })
+    expect(lastStats().populations).toHaveLength(1)
+  })
+
+  it('should hold back frames until the previous one is acknowledged', () => {
+    host.handle({ type: 'step' })
+    host.handle({ type: 'step', count: 2 })
+    expect(frames()).toHaveLength(1)
+
+    host.handle({ type: 'frameAck' })
+
+    expect(frames()).toHaveLength(2)
+    expect(frames()[1].frame.full).toBe(false)
+    // Every step taken while waiting is still reported
+    expect(lastStats().step).toBe(3)
+    expect(lastStats().populations.map(p => p.step)).toEqual([1, 2, 3])
+  })
+
+  it('should keep a bounded number of steps while frames go unacknowledged', () => {
+    host.handle({ type: 'step', count: 150 })
+
+    host.handle({ type: 'frameAck' })
+
+    expect(lastStats().step).toBe(150)
+    expect(lastStats().populations).toHaveLength(100)
+    expect(lastStats().populations[99].step).toBe(150)
+    expect(lastStats().history[lastStats().history.length - 1].endStep).toBe(150)
+  })
+
+  it('should step on a timer at the requested speed while running', () => {
+    host.handle({ type: 'setSpeed', speed: 5 })
+    host.handle({ type: 'start' })
+    host.handle({ type: 'frameAck' })
+
+    vi.advanceTimersByTime(1000)
+    host.handle({ type: 'frameAck' })
+    expect(lastStats()).toMatchObject({ step: 5, isRunning: true, speed: 5 })
+
+    host.handle({ type: 'pause' })
+    vi.advanceTimersByTime(1000)
+    host.handle({ type: 'frameAck' })
+    expect(lastStats()).toMatchObject({ step: 5, isRunning: false })
+  })
+
+  it('should clamp speed to the configured range', () => {
+    host.handle({ type: 'setSpeed', speed: 1000 })
+    host.handle({ type: 'frameAck' })
+
+    expect(lastStats().speed).toBe(config.speed.maxSpeed)
+  })
+
+  it('should restart the world with a new generation on reset', () => {
+    host.handle({ type: 'step', count: 4 })
+    host.handle({ type: 'reset' })
+
+    expect(lastStats()).toMatchObject({ generation: 2, step: 0 })
+    expect(frames()[frames().length - 1].frame.full).toBe(true)
+  })
+
+  it('should apply config changes live or with a reset', () => {
+    host.handle({ type: 'step' })
+    host.handle({ type: 'setConfig', config: { grass: { growthRate: 0.2 } }, mode: 'live' })
+
+    const applied = messages[messages.length - 1]
+    expect(applied.type === 'config' && applied.config.grass.growthRate).toBe(0.2)
+
+    host.handle({ type: 'frameAck' })
+    host.handle({ type: 'setConfig', config: { width: 10 }, mode: 'reset' })
+
+    expect(frames()[frames().length - 1].frame.width).toBe(10)
+    expect(lastStats()).toMatchObject({ generation: 2, step: 0 })
+  })
+
+  it('should report invalid commands as errors', () => {
+    host.handle({ type: 'setConfig', config: { grass: { growthRate: 2 } }, mode: 'live' })
+
+    expect(messages[messages.length - 1]).toEqual({ type: 'error', message: expect.stringContaining('grass.growthRate') })
+
+    const uninitialized = new SimulationHost(message => messages.push(message))
+    uninitialized.handle({ type: 'start' })
+    expect(messages[messages.length - 1]).toEqual({ type: 'error', message: "Received 'start' before 'init'" })
+  })
+
+  describe('fast-forward', () => {
+    it('should run the requested number of steps without drawing each one', () => {
+      host.handle({ type: 'frameAck' })
+      host.handle({ type: 'fastForward', options: { steps: 40 } })
+      vi.runAllTimers()
+
+      expect(progress()[progress().length - 1]).toEqual({ stepsRun: 40, stepsTotal: 40, step: 40, done: true, reason: 'completed' })
+      expect(frames()).toHaveLength(2)
+      expect(lastStats().step).toBe(40)
+      // The single frame still carries every step for the charts
+      expect(lastStats().populations).toHaveLength(40)
+    })
+
+    it('should stop at whichever target comes first', () => {
+      host.handle({ type: 'step', count: 5 })
+      host.handle({ type: 'fastForward', options: { steps: 100, untilStep: 12 } })
+      vi.runAllTimers()
+
+      expect(progress()[progress().length - 1]).toMatchObject({ stepsRun: 7, stepsTotal: 7, step: 12, reason: 'completed' })
+    })
+
+    it('should stop early on extinction when asked to', () => {
+      host.handle({ type: 'init', config: createWorldConfig({ width: 20, height: 20, wolfDensity: 0 }), seed: 7 })
+      host.handle({ type: 'fastForward', options: { steps: 500, stopOnExtinction: true } })
+      vi.runAllTimers()
+
+      expect(progress()[progress().length - 1]).toMatchObject({ stepsRun: 1, done: true, reason: 'extinction' })
+    })
+
+    it('should be cancelled by other playback commands', () => {
+      host.handle({ type: 'fastForward', options: { untilStep: 5000 } })
+      expect(progress()[0]).toEqual({ stepsRun: 0, stepsTotal: 5000, step: 0, done: false })
+
+      host.handle({ type: 'pause' })
+      vi.runAllTimers()
+
+      expect(progress()[progress().length - 1]).toMatchObject({ done: true, reason: 'cancelled', step: 0 })
+    })
+
+    it('should require a target', () => {
+      host.handle({ type: 'fastForward', options: { stopOnExtinction: true } })
+
+      expect(messages[messages.length - 1]).toEqual({ type: 'error', message: 'fastForward needs steps or untilStep' })
+    })
+  })
+
+  describe('timeline', () => {
+    const inspections = () => messages.flatMap(m => m.type === 'inspection' ? [m.inspection] : [])
+
+    it('should pause and send back an earlier step on seek', () => {
+      host.handle({ type: 'step', count: 6 })
+      host.handle({ type: 'frameAck' })
+      const atThree = lastStats().populations.find(p => p.step === 3)
+      expect(lastStats().timeline).toEqual({ firstStep: 0, lastStep: 6 })
+
+      host.handle({ type: 'start' })
+      host.handle({ type: 'seek', step: 3 })
+
+      expect(inspections()).toHaveLength(1)
+      expect(inspections()[0].populations).toEqual(atThree)
+      expect(inspections()[0].frame).toMatchObject({ full: true, width: 20, height: 20 })
+      host.handle({ type: 'frameAck' })
+      expect(lastStats()).toMatchObject({ isRunning: false, step: 6 })
+    })
+
+    it('should resume from an earlier step on branch', () => {
+      host.handle({ type: 'step', count: 6 })
+      host.handle({ type: 'branch', step: 2 })
+      host.handle({ type: 'frameAck' })
+
+      expect(lastStats().step).toBe(2)
+      expect(lastStats().timeline).toEqual({ firstStep: 0, lastStep: 2 })
+      expect(frames()[frames().length - 1].frame.full).toBe(true)
+    })
+
+    it('should report steps outside the timeline as errors', () => {
+      host.handle({ type: 'seek', step: 50 })
+
+      expect(messages[messages.length - 1]).toEqual({ type: 'error', message: 'Step 50 is outside the recorded timeline (nothing recorded)' })
+    })
+  })
+})
@@ -0,0 +1,380 @@
+/**
+ * SimulationHost owns the SimulationEngine inside the worker: it runs the step loop,
+ * answers WorkerCommands and posts a frame (grid diff plus statistics) whenever the
+ * page has acknowledged the previous one, so a slow page never queues up frames
+ */
+
+import { SimulationEngine } from '../engine/SimulationEngine'
+import { WorldConfig } from '../config/WorldConfig'
+import { WorldInitializer } from '../utils/WorldInitializer'
+import { FrameEncoder, frameTransferables } from './FrameEncoder'
+import { PopulationPoint } from '../types/SimulationTypes'
+import { FastForwardOptions, FastForwardStopReason, WorkerCommand, WorkerMessage } from './WorkerProtocol'
+
+export type PostMessage = (message: WorkerMessage, transfer?: Transferable[]) => void
+
+// How long one loop turn may keep stepping at unlimited speed before yielding to incoming commands
+const UNLIMITED_SLICE_MS = 16
+// Fast-forward steps in longer slices and only redraws this often
+const FAST_FORWARD_SLICE_MS = 50
+const FAST_FORWARD_REDRAW_MS = 500
+// Keyframe every 100 steps, keeping the last 5000 steps rewindable
+const TIMELINE_OPTIONS = { keyframeInterval: 100, maxKeyframes: 50 }
+// Points in the downsampled whole-run history sent with each frame (what the population chart shows)
+const CHART_HISTORY_POINTS = 100
+// Per-step points kept while the page has not acknowledged a frame; older ones are dropped, `history` covers them
+const MAX_PENDING_POPULATIONS = 100
+
+interface FastForwardRun {
+  startStep: number;
+  targetStep: number;
+  stopOnExtinction: boolean;
+  lastRedraw: number;
+}
+
+export class SimulationHost {
+  private engine: SimulationEngine | null = null
+  private encoder = new FrameEncoder()
+  private post: PostMessage
+  private running = false
+  private speed = 1
+  private timer: ReturnType<typeof setTimeout> | null = null
+  private awaitingAck = false
+  private dirty = false
+  private generation = 0
+  private pendingPopulations: PopulationPoint[] = []
+  private fastForward: FastForwardRun | null = null
+
+  constructor(post: PostMessage) {
+    this.post = post
+  }
+
+  public handle(command: WorkerCommand): void {
+    try {
+      this.dispatch(command)
+    } catch (error) {
+      this.post({ type: 'error', message: error instanceof Error ? error.message : String(error) })
+    }
+  }
+
+  public destroy(): void {
+    this.fastForward = null
+    this.stopLoop()
+    this.engine?.destroy()
+    this.engine = null
+  }
+
+  private dispatch(command: WorkerCommand): void {
+    if (command.type === 'init') {
+      this.init(command.config, command.seed)
+      return
+    }
+
+    const engine = this.engine
+    if (!engine) {
+      throw new Error(`Received '${command.type}' before 'init'`)
+    }
+
+    // Any other playback command takes over from a fast-forward in progress
+    if (['start', 'pause', 'step', 'reset', 'cancelFastForward', 'seek', 'branch'].includes(command.type)) {
+      this.finishFastForward(engine, 'cancelled')
+    }
+
+    switch (command.type) {
+      case 'start':
+        this.running = true
+        this.scheduleLoop()
+        this.markDirty()
+        break
+      case 'pause':
+        this.running = false
+        this.stopLoop()
+        this.markDirty()
+        break
+      case 'step':
+        for (let i = 0; i < (command.count ?? 1); i++) {
+          this.stepOnce(engine)
+        }
+        this.markDirty()
+        break
+      case 'reset':
+        this.resetWorld(engine)
+        break
+      case 'setSpeed':
+        this.speed = this.clampSpeed(command.speed, engine.getConfig())
+        if (this.running) {
+          this.stopLoop()
+          this.scheduleLoop()
+        }
+        this.markDirty()
+        break
+      case 'setConfig':
+        // Live changes take effect on the next step; 'reset' restarts the world with them
+        engine.updateConfig(command.config)
+        this.post({ type: 'config', config: engine.getConfig() })
+        if (command.mode === 'reset') {
+          this.resetWorld(engine)
+        }
+        break
+      case 'fastForward':
+        this.startFastForward(engine, command.options)
+        break
+      case 'cancelFastForward':
+        break
+      case 'seek':
+        this.inspect(engine, command.step)
+        break
+      case 'branch':
+        this.branch(engine, command.step)
+        break
+      case 'frameAck':
+        this.awaitingAck = false
+        if (this.dirty) {
+          this.flush()
+        }
+        break
+    }
+  }
+
+  private init(config: WorldConfig, seed?: number): void {
+    this.destroy()
+    this.engine = new SimulationEngine(config, { seed, timeline: TIMELINE_OPTIONS })
+    this.speed = this.clampSpeed(config.speed.defaultSpeed, config)
+    this.running = false
+    this.post({ type: 'config', config: this.engine.getConfig() })
+    this.resetWorld(this.engine)
+  }
+
+  private resetWorld(engine: SimulationEngine): void {
+    this.finishFastForward(engine, 'cancelled')
+    this.running = false
+    this.stopLoop()
+    engine.reset()
+    WorldInitializer.createProductionEcosystem(engine.getWorld(), engine.getConfig(), engine.getRandom())
+
+    this.generation++
+    this.pendingPopulations = [this.samplePopulation(engine)]
+    this.encoder.reset()
+    // Frames from before the reset may still be unacknowledged; send the new world right away
+    this.awaitingAck = false
+    this.markDirty()
+  }
+
+  private inspect(engine: SimulationEngine, step: number): void {
+    const { grid, populations } = engine.inspectStep(step)
+    this.running = false
+    this.stopLoop()
+    this.markDirty()
+
+    const frame = { width: grid.width, height: grid.height, full: true, indices: new Uint32Array(0), grass: grid.grass, animals: grid.animals, terrain: grid.terrain }
+    this.post({ type: 'inspection', inspection: { step, frame, populations } }, frameTransferables(frame))
+  }
+
+  private branch(engine: SimulationEngine, step: number): void {
+    this.running = false
+    this.stopLoop()
+    engine.branchFrom(step)
+
+    // Steps sampled since the last frame belong to the discarded future
+    this.pendingPopulations = [this.samplePopulation(engine)]
+    this.encoder.reset()
+    this.markDirty()
+  }
+
+  private clampSpeed(speed: number, config: WorldConfig): number {
+    return Math.max(config.speed.minSpeed, Math.min(config.speed.maxSpeed, speed))
+  }
+
+  private scheduleLoop(): void {
+    if (this.timer !== null) return
+
+    if (this.fastForward) {
+      this.timer = setTimeout(() => {
+        this.timer = null
+        this.fastForwardSlice()
+      }, 0)
+      return
+    }
+
+    if (!this.running) return
+
+    const unlimited = this.speed >= (this.engine?.getConfig().speed.maxSpeed ?? Infinity)
+    this.timer = setTimeout(() => {
+      this.timer = null
+      this.tick(unlimited)
+    }, unlimited ? 0 : 1000 / this.speed)
+  }
+
+  private stopLoop(): void {
+    if (this.timer !== null) {
+      clearTimeout(this.timer)
+      this.timer = null
+    }
+  }
+
+  private tick(unlimited: boolean): void {
+    const engine = this.engine
+    if (!engine || !this.running) return
+
+    try {
+      if (unlimited) {
+        const sliceEnd = Date.now() + UNLIMITED_SLICE_MS
+        do {
+          this.stepOnce(engine)
+        } while (Date.now() < sliceEnd)
+      } else {
+        this.stepOnce(engine)
+      }
+    } catch (error) {
+      this.running = false
+      this.post({ type: 'error', message: error instanceof Error ? error.message : String(error) })
+    }
+
+    this.markDirty()
+    this.scheduleLoop()
+  }
+
+  private startFastForward(engine: SimulationEngine, options: FastForwardOptions): void {
+    const startStep = engine.getCurrentStep()
+    const targetStep = Math.min(
+      options.steps !== undefined ? startStep + options.steps : Infinity,
+      options.untilStep ?? Infinity
+    )
+    if (!Number.isFinite(targetStep)) {
+      throw new Error('fastForward needs steps or untilStep')
+    }
+
+    this.finishFastForward(engine, 'cancelled')
+    this.running = false
+    this.stopLoop()
+    this.fastForward = { startStep, targetStep, stopOnExtinction: options.stopOnExtinction ?? false, lastRedraw: Date.now() }
+
+    if (startStep >= targetStep) {
+      this.finishFastForward(engine, 'completed')
+      return
+    }
+    this.postProgress(engine, this.fastForward)
+    this.scheduleLoop()
+  }
+
+  private fastForwardSlice(): void {
+    const engine = this.engine
+    const run = this.fastForward
+    if (!engine || !run) return
+
+    let reason: FastForwardStopReason | null = null
+    try {
+      const sliceEnd = Date.now() + FAST_FORWARD_SLICE_MS
+      do {
+        this.stepOnce(engine)
+        if (run.stopOnExtinction && this.isExtinct(engine)) {
+          reason = 'extinction'
+        } else if (engine.getCurrentStep() >= run.targetStep) {
+          reason = 'completed'
+        }
+      } while (!reason && Date.now() < sliceEnd)
+    } catch (error) {
+      this.post({ type: 'error', message: error instanceof Error ? error.message : String(error) })
+      reason = 'cancelled'
+    }
+
+    if (reason) {
+      this.finishFastForward(engine, reason)
+      return
+    }
+
+    this.postProgress(engine, run)
+    if (Date.now() - run.lastRedraw >= FAST_FORWARD_REDRAW_MS) {
+      run.lastRedraw = Date.now()
+      this.markDirty()
+    }
+    this.scheduleLoop()
+  }
+
+  private finishFastForward(engine: SimulationEngine, reason: FastForwardStopReason): void {
+    const run = this.fastForward
+    if (!run) return
+
+    this.fastForward = null
+    this.stopLoop()
+    this.postProgress(engine, run, reason)
+    this.markDirty()
+  }
+
+  private postProgress(engine: SimulationEngine, run: FastForwardRun, reason?: FastForwardStopReason): void {
+    const step = engine.getCurrentStep()
+    this.post({
+      type: 'progress',
+      progress: {
+        stepsRun: step - run.startStep,
+        stepsTotal: run.targetStep - run.startStep,
+        step,
+        done: reason !== undefined,
+        ...(reason && { reason })
+      }
+    })
+  }
+
+  private isExtinct(engine: SimulationEngine): boolean {
+    const stats = engine.getStatistics()
+    return stats.sheepCount === 0 || stats.wolfCount === 0
+  }
+
+  private stepOnce(engine: SimulationEngine): void {
+    engine.step()
+    this.pendingPopulations.push(this.samplePopulation(engine))
+    if (this.pendingPopulations.length > MAX_PENDING_POPULATIONS) {
+      this.pendingPopulations.shift()
+    }
+  }
+
+  private samplePopulation(engine: SimulationEngine): PopulationPoint {
+    const stats = engine.getStatistics()
+    return {
+      step: engine.getCurrentStep(),
+      grass: stats.grassCount,
+      sheep: stats.sheepCount,
+      wolves: stats.wolfCount
+    }
+  }
+
+  private markDirty(): void {
+    this.dirty = true
+    if (!this.awaitingAck) {
+      this.flush()
+    }
+  }
+
+  /**
+   * Post the current world and everything sampled since the last frame
+   */
+  private flush(): void {
+    const engine = this.engine
+    if (!engine) return
+
+    const frame = this.encoder.encode(engine.getWorld())
+    const populations = this.pendingPopulations
+    this.pendingPopulations = []
+    this.dirty = false
+    this.awaitingAck = true
+
+    this.post({
+      type: 'frame',
+      frame,
+      stats: {
+        generation: this.generation,
+        step: engine.getCurrentStep(),
+        isRunning: this.running,
+        speed: this.speed,
+        populations,
+        history: engine.getPopulationHistory({ maxPoints: CHART_HISTORY_POINTS }),
+        populationHealth: engine.getPopulationHealth(),
+        alerts: engine.getEcosystemAlerts(),
+        extinctionAnalysis: engine.getExtinctionAnalysis(),
+        oscillationAnalysis: engine.getOscillationAnalysis(),
+        timings: engine.getStepTimings(),
+        timeline: engine.getTimelineRange()
+      }
+    }, frameTransferables(frame))
+  }
+}
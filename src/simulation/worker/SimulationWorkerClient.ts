@@ -0,0 +1,175 @@
+/**
+ * SimulationWorkerClient is the page-side handle on the simulation worker: it sends
+ * WorkerCommands, keeps a FrameBuffer up to date from the streamed frame diffs and
+ * acknowledges each frame once listeners have handled it
+ */
+
+import { WorldConfig, DeepPartial } from '../config/WorldConfig'
+import { FrameBuffer } from './FrameBuffer'
+import { SimulationHost } from './SimulationHost'
+import { ConfigApplyMode, FastForwardOptions, FastForwardProgress, FrameDiff, FrameStats, TimelineInspection, WorkerCommand, WorkerMessage } from './WorkerProtocol'
+
+export interface SimulationTransport {
+  send(command: WorkerCommand): void;
+  onMessage(listener: (message: WorkerMessage) => void): void;
+  terminate(): void;
+}
+
+export type FrameListener = (buffer: FrameBuffer, stats: FrameStats, frame: FrameDiff) => void
+export type ConfigListener = (config: WorldConfig) => void
+export type ErrorListener = (message: string) => void
+export type ProgressListener = (progress: FastForwardProgress) => void
+export type InspectionListener = (inspection: TimelineInspection) => void
+
+/**
+ * Runs the simulation in a dedicated Web Worker
+ */
+export const createWorkerTransport = (): SimulationTransport => {
+  const worker = new Worker(new URL('./simulation.worker.ts', import.meta.url))
+  return {
+    send: command => worker.postMessage(command),
+    onMessage: listener => worker.addEventListener('message', (event: MessageEvent<WorkerMessage>) => listener(event.data)),
+    terminate: () => worker.terminate()
+  }
+}
+
+/**
+ * Runs the SimulationHost on the current thread, for environments without Web Workers (SSR, tests).
+ * Messages are still delivered asynchronously so callers see the same ordering as with a worker.
+ */
+export const createInProcessTransport = (): SimulationTransport => {
+  const listeners: Array<(message: WorkerMessage) => void> = []
+  const host = new SimulationHost(message => {
+    setTimeout(() => listeners.forEach(listener => listener(message)), 0)
+  })
+  return {
+    send: command => { setTimeout(() => host.handle(command), 0) },
+    onMessage: listener => { listeners.push(listener) },
+    terminate: () => host.destroy()
+  }
+}
+
+export class SimulationWorkerClient {
+  private transport: SimulationTransport
+  private buffer = new FrameBuffer()
+  private frameListeners: FrameListener[] = []
+  private configListeners: ConfigListener[] = []
+  private errorListeners: ErrorListener[] = []
+  private progressListeners: ProgressListener[] = []
+  private inspectionListeners: InspectionListener[] = []
+
+  constructor(transport: SimulationTransport = typeof Worker !== 'undefined' ? createWorkerTransport() : createInProcessTransport()) {
+    this.transport = transport
+    this.transport.onMessage(message => this.receive(message))
+  }
+
+  public init(config: WorldConfig, seed?: number): void {
+    this.transport.send({ type: 'init', config, seed })
+  }
+
+  public start(): void {
+    this.transport.send({ type: 'start' })
+  }
+
+  public pause(): void {
+    this.transport.send({ type: 'pause' })
+  }
+
+  public step(count: number = 1): void {
+    this.transport.send({ type: 'step', count })
+  }
+
+  public reset(): void {
+    this.transport.send({ type: 'reset' })
+  }
+
+  public setSpeed(speed: number): void {
+    this.transport.send({ type: 'setSpeed', speed })
+  }
+
+  public setConfig(config: DeepPartial<WorldConfig>, mode: ConfigApplyMode): void {
+    this.transport.send({ type: 'setConfig', config, mode })
+  }
+
+  public fastForward(options: FastForwardOptions): void {
+    this.transport.send({ type: 'fastForward', options })
+  }
+
+  public cancelFastForward(): void {
+    this.transport.send({ type: 'cancelFastForward' })
+  }
+
+  /**
+   * Pause and fetch an earlier step from the timeline; it arrives through onInspection
+   */
+  public seek(step: number): void {
+    this.transport.send({ type: 'seek', step })
+  }
+
+  /**
+   * Rewind the run to an earlier step and continue from there
+   */
+  public branch(step: number): void {
+    this.transport.send({ type: 'branch', step })
+  }
+
+  public getFrame(): FrameBuffer {
+    return this.buffer
+  }
+
+  public onFrame(listener: FrameListener): () => void {
+    this.frameListeners.push(listener)
+    return () => { this.frameListeners = this.frameListeners.filter(l => l !== listener) }
+  }
+
+  public onConfig(listener: ConfigListener): () => void {
+    this.configListeners.push(listener)
+    return () => { this.configListeners = this.configListeners.filter(l => l !== listener) }
+  }
+
+  public onError(listener: ErrorListener): () => void {
+    this.errorListeners.push(listener)
+    return () => { this.errorListeners = this.errorListeners.filter(l => l !== listener) }
+  }
+
+  public onProgress(listener: ProgressListener): () => void {
+    this.progressListeners.push(listener)
+    return () => { this.progressListeners = this.progressListeners.filter(l => l !== listener) }
+  }
+
+  public onInspection(listener: InspectionListener): () => void {
+    this.inspectionListeners.push(listener)
+    return () => { this.inspectionListeners = this.inspectionListeners.filter(l => l !== listener) }
+  }
+
+  public destroy(): void {
+    this.progressListeners = []
+    this.inspectionListeners = []
+    this.frameListeners = []
+    this.configListeners = []
+    this.errorListeners = []
+    this.transport.terminate()
+  }
+
+  private receive(message: WorkerMessage): void {
+    switch (message.type) {
+      case 'frame':
+        this.buffer.apply(message.frame)
+        this.frameListeners.forEach(listener => listener(this.buffer, message.stats, message.frame))
+        this.transport.send({ type: 'frameAck' })
+        break
+      case 'config':
+        this.configListeners.forEach(listener => listener(message.config))
+        break
+      case 'progress':
+        this.progressListeners.forEach(listener => listener(message.progress))
+        break
+      case 'inspection':
+        this.inspectionListeners.forEach(listener => listener(message.inspection))
+        break
+      case 'error':
+        this.errorListeners.forEach(listener => listener(message.message))
+        break
+    }
+  }
+}
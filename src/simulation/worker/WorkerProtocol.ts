@@ -0,0 +1,94 @@
+/**
+ * Messages exchanged between the page and the simulation worker
+ */
+
+import { WorldConfig, DeepPartial } from '../config/WorldConfig'
+import { PopulationHealth, EcosystemAlert, ExtinctionAnalysis, OscillationAnalysis, StepTimings, PopulationPoint, PopulationBucket } from '../types/SimulationTypes'
+import { TimelineRange } from '../engine/Timeline'
+
+export type ConfigApplyMode = 'live' | 'reset'
+
+/**
+ * Run steps back to back without pacing, redrawing only now and then.
+ * With both steps and untilStep set, whichever target comes first wins.
+ */
+export interface FastForwardOptions {
+  steps?: number;           // Run this many steps
+  untilStep?: number;       // Run until the world reaches this step
+  stopOnExtinction?: boolean; // Stop early once sheep or wolves die out
+}
+
+export type FastForwardStopReason = 'completed' | 'extinction' | 'cancelled'
+
+export interface FastForwardProgress {
+  stepsRun: number;
+  stepsTotal: number;
+  step: number;
+  done: boolean;
+  reason?: FastForwardStopReason; // Set once done
+}
+
+// Page → worker
+export type WorkerCommand =
+  | { type: 'init'; config: WorldConfig; seed?: number }
+  | { type: 'start' }
+  | { type: 'pause' }
+  | { type: 'step'; count?: number }
+  | { type: 'reset' }
+  | { type: 'setSpeed'; speed: number }
+  | { type: 'setConfig'; config: DeepPartial<WorldConfig>; mode: ConfigApplyMode }
+  | { type: 'fastForward'; options: FastForwardOptions }
+  | { type: 'cancelFastForward' }
+  | { type: 'seek'; step: number }   // Pause and show an earlier step from the timeline
+  | { type: 'branch'; step: number } // Rewind the run to an earlier step and continue from there
+  | { type: 'frameAck' } // The page has drawn the last frame and can take another
+
+/**
+ * Grid contents as three byte layers per cell. Cells are indexed x * height + y.
+ * Full frames carry every cell; partial frames only the cells that changed since the previous frame.
+ */
+export interface FrameDiff {
+  width: number;
+  height: number;
+  full: boolean;
+  indices: Uint32Array;     // Changed cell indices (empty for full frames)
+  grass: Uint8Array;        // 0 = no grass, otherwise density scaled to 1..255
+  animals: Uint8Array;      // Bit flags: ANIMAL_SHEEP | ANIMAL_WOLF | ANIMAL_INFECTED
+  terrain: Uint8Array;      // Terrain codes (see Terrain.ts)
+}
+
+export const ANIMAL_SHEEP = 1
+export const ANIMAL_WOLF = 2
+export const ANIMAL_INFECTED = 4 // An animal in the cell is exposed or infectious
+
+export interface FrameStats {
+  generation: number;       // Bumped on init/reset so the page can drop stale history
+  step: number;
+  isRunning: boolean;
+  speed: number;
+  populations: PopulationPoint[]; // One per step since the previous frame (at most the last 100)
+  history: PopulationBucket[];    // Whole run so far, downsampled for charting
+  populationHealth: PopulationHealth[];
+  alerts: EcosystemAlert[];
+  extinctionAnalysis: ExtinctionAnalysis | null;
+  oscillationAnalysis: OscillationAnalysis;
+  timings: StepTimings;
+  timeline: TimelineRange | null; // Steps that can be inspected or resumed from
+}
+
+/**
+ * An earlier step, as recorded on the timeline
+ */
+export interface TimelineInspection {
+  step: number;
+  frame: FrameDiff;         // Always a full frame
+  populations: PopulationPoint;
+}
+
+// Worker → page
+export type WorkerMessage =
+  | { type: 'frame'; frame: FrameDiff; stats: FrameStats }
+  | { type: 'config'; config: WorldConfig }
+  | { type: 'progress'; progress: FastForwardProgress }
+  | { type: 'inspection'; inspection: TimelineInspection }
+  | { type: 'error'; message: string }
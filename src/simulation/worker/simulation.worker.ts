@@ -0,0 +1,14 @@
+/**
+ * Web Worker entry point: feeds page commands to a SimulationHost and posts its frames back
+ */
+
+import { SimulationHost } from './SimulationHost'
+import { WorkerCommand } from './WorkerProtocol'
+
+const host = new SimulationHost((message, transfer = []) => {
+  self.postMessage(message, { transfer })
+})
+
+self.addEventListener('message', (event: MessageEvent<WorkerCommand>) => {
+  host.handle(event.data)
+})
@@ -0,0 +1,176 @@
+import { describe, it, expect } from 'vitest'
+import { rootReducer, RootState } from './store'
+import {
+  startSimulation,
+  pauseSimulation,
+  resetSimulation,
+  updateWorld,
+  updateStatistics,
+  setSpeed,
+  setConfig,
+  updateFastForward,
+  getIsRunning,
+  getIsPaused,
+  getSpeed,
+  getConfig,
+  getGrid,
+  getCurrentStep,
+  getCurrentPopulations,
+  getPopulationHistory,
+  getEcosystemAlerts,
+  getFastForwardProgress,
+  getIsFastForwarding,
+  getTimeline,
+  getInspection,
+  seekTimeline,
+  updateInspection,
+  branchTimeline,
+  returnToLive,
+  initialState,
+  SimulationAction
+} from './simulation-dux'
+import { PopulationPoint } from '../simulation/types/SimulationTypes'
+import { createWorldConfig } from '../simulation/config/WorldConfig'
+import { FrameDiff, FrameStats } from '../simulation/worker/WorkerProtocol'
+import { mergeBuckets, pointToBucket } from '../simulation/analysis/PopulationTimeSeries'
+import { getFrameCell } from '../simulation/worker/FrameBuffer'
+
+const reduce = (actions: SimulationAction[]): RootState =>
+  actions.reduce<RootState>((state, action) => rootReducer(state, action), rootReducer(undefined, { type: '@@INIT' } as never))
+
+const frameStats = (generation: number, populations: PopulationPoint[], overrides: Partial<FrameStats> = {}): FrameStats => ({
+  generation,
+  step: populations[populations.length - 1]?.step ?? 0,
+  isRunning: false,
+  speed: 2,
+  populations,
+  history: populations.map(pointToBucket),
+  populationHealth: [],
+  alerts: [],
+  extinctionAnalysis: null,
+  oscillationAnalysis: initialState.oscillationAnalysis,
+  timings: initialState.stepTimings,
+  timeline: null,
+  ...overrides
+})
+
+describe('simulation dux', () => {
+  it('given a new store, should start paused at step 0 with the default config', () => {
+    const state = reduce([])
+
+    expect(getIsRunning(state)).toBe(false)
+    expect(getCurrentStep(state)).toBe(0)
+    expect(getGrid(state)).toBeNull()
+    expect(getSpeed(state)).toBe(initialState.config.speed.defaultSpeed)
+  })
+
+  it('given start then pause, should be paused', () => {
+    expect(getIsRunning(reduce([startSimulation()]))).toBe(true)
+
+    const state = reduce([startSimulation(), pauseSimulation()])
+    expect(getIsRunning(state)).toBe(false)
+    expect(getIsPaused(state)).toBe(true)
+  })
+
+  it('given frames from the worker, should rebuild the grid from diffs', () => {
+    const full: FrameDiff = { width: 2, height: 2, full: true, indices: new Uint32Array(0), grass: new Uint8Array(4), animals: new Uint8Array(4), terrain: new Uint8Array(4) }
+    const diff: FrameDiff = { width: 2, height: 2, full: false, indices: Uint32Array.of(3), grass: Uint8Array.of(255), animals: Uint8Array.of(2), terrain: new Uint8Array(1) }
+
+    const grid = getGrid(reduce([updateWorld(full), updateWorld(diff)]))
+
+    expect(grid && getFrameCell(grid, 1, 1)).toEqual({ grassDensity: 1, hasGrass: true, hasSheep: false, hasWolf: true, isInfected: false, terrain: 'grassland' })
+    expect(grid && getFrameCell(grid, 0, 0).hasGrass).toBe(false)
+  })
+
+  it('given statistics, should take the history from the worker and the counts from the latest step', () => {
+    const state = reduce([
+      updateStatistics(frameStats(1, [{ step: 0, grass: 10, sheep: 5, wolves: 1 }])),
+      updateStatistics(frameStats(1, [{ step: 1, grass: 9, sheep: 5, wolves: 1 }, { step: 2, grass: 8, sheep: 6, wolves: 1 }], {
+        history: [0, 1, 2].map(step => pointToBucket({ step, grass: 10 - step, sheep: 5, wolves: 1 })),
+        alerts: [{ id: 'a', severity: 'warning', type: 'population_decline', species: 'sheep', message: 'Sheep declining', step: 2 }]
+      }))
+    ])
+
+    expect(getPopulationHistory(state).map(p => p.step)).toEqual([0, 1, 2])
+    expect(getCurrentPopulations(state)).toEqual({ step: 2, grass: 8, sheep: 6, wolves: 1 })
+    expect(getEcosystemAlerts(state)).toHaveLength(1)
+  })
+
+  it('given downsampled history, should chart one rounded mean point per bucket', () => {
+    const bucket = mergeBuckets([
+      pointToBucket({ step: 0, grass: 10, sheep: 4, wolves: 1 }),
+      pointToBucket({ step: 1, grass: 11, sheep: 5, wolves: 2 })
+    ])
+
+    const state = reduce([updateStatistics(frameStats(1, [{ step: 1, grass: 11, sheep: 5, wolves: 2 }], { history: [bucket] }))])
+
+    expect(getPopulationHistory(state)).toEqual([{ step: 1, grass: 11, sheep: 5, wolves: 2 }])
+  })
+
+  it('given statistics from a new generation, should start the history over', () => {
+    const state = reduce([
+      updateStatistics(frameStats(1, [{ step: 0, grass: 10, sheep: 5, wolves: 1 }, { step: 1, grass: 9, sheep: 5, wolves: 1 }])),
+      resetSimulation(),
+      updateStatistics(frameStats(2, [{ step: 0, grass: 12, sheep: 4, wolves: 2 }]))
+    ])
+
+    expect(getPopulationHistory(state)).toEqual([{ step: 0, grass: 12, sheep: 4, wolves: 2 }])
+  })
+
+  it('given statistics without new steps, should keep the current counts', () => {
+    const state = reduce([
+      updateStatistics(frameStats(1, [{ step: 3, grass: 10, sheep: 5, wolves: 1 }])),
+      updateStatistics(frameStats(1, [], { step: 3, speed: 60, isRunning: true }))
+    ])
+
+    expect(getCurrentPopulations(state)).toEqual({ step: 3, grass: 10, sheep: 5, wolves: 1 })
+    expect(getSpeed(state)).toBe(60)
+    expect(getIsRunning(state)).toBe(true)
+  })
+
+  it('given a speed or config change, should store it', () => {
+    const config = createWorldConfig({ width: 10, height: 10 })
+    const state = reduce([setSpeed(5), setConfig(config)])
+
+    expect(getSpeed(state)).toBe(5)
+    expect(getConfig(state)).toBe(config)
+  })
+
+  it('given fast-forward progress, should track whether a run is active', () => {
+    const running = reduce([updateFastForward({ stepsRun: 10, stepsTotal: 100, step: 10, done: false })])
+    expect(getIsFastForwarding(running)).toBe(true)
+
+    const finished = reduce([updateFastForward({ stepsRun: 100, stepsTotal: 100, step: 100, done: true, reason: 'completed' })])
+    expect(getIsFastForwarding(finished)).toBe(false)
+    expect(getFastForwardProgress(finished)?.reason).toBe('completed')
+  })
+
+  describe('timeline', () => {
+    const frame: FrameDiff = { width: 2, height: 2, full: true, indices: new Uint32Array(0), grass: Uint8Array.of(0, 255, 0, 0), animals: new Uint8Array(4), terrain: new Uint8Array(4) }
+    const inspected = updateInspection({ step: 4, frame, populations: { step: 4, grass: 1, sheep: 0, wolves: 0 } })
+
+    it('given a seek and the worker\'s answer, should pause and hold the inspected step', () => {
+      const state = reduce([
+        updateStatistics(frameStats(1, [{ step: 9, grass: 10, sheep: 5, wolves: 1 }], { timeline: { firstStep: 0, lastStep: 9 } })),
+        startSimulation(),
+        seekTimeline(4),
+        inspected
+      ])
+
+      const inspection = getInspection(state)
+      expect(getIsRunning(state)).toBe(false)
+      expect(getTimeline(state)).toEqual({ firstStep: 0, lastStep: 9 })
+      expect(inspection?.populations.step).toBe(4)
+      expect(inspection && getFrameCell(inspection.grid, 0, 1).hasGrass).toBe(true)
+      // The live counts stay as they were
+      expect(getCurrentStep(state)).toBe(9)
+    })
+
+    it('given a return to live, a branch or a reset, should stop inspecting', () => {
+      expect(getInspection(reduce([inspected, returnToLive()]))).toBeNull()
+      expect(getInspection(reduce([inspected, branchTimeline(4)]))).toBeNull()
+      expect(getInspection(reduce([inspected, resetSimulation()]))).toBeNull()
+      expect(getInspection(reduce([updateStatistics(frameStats(1, [])), inspected, updateStatistics(frameStats(2, []))]))).toBeNull()
+    })
+  })
+})
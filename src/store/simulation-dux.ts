@@ -0,0 +1,311 @@
+/**
+ * Simulation slice: playback state, the latest grid frame and the statistics streamed back
+ * from the simulation worker. Side effects (talking to the worker) live in simulation-saga.
+ */
+
+import { WORLD_CONFIG, WorldConfig } from '../simulation/config/WorldConfig'
+import {
+  SimulationActionType,
+  PopulationHealth,
+  EcosystemAlert,
+  ExtinctionAnalysis,
+  OscillationAnalysis,
+  StepTimings,
+  PopulationPoint
+} from '../simulation/types/SimulationTypes'
+import { FrameGrid, applyFrameDiff } from '../simulation/worker/FrameBuffer'
+import {
+  ConfigApplyMode,
+  FastForwardOptions,
+  FastForwardProgress,
+  FrameDiff,
+  FrameStats,
+  TimelineInspection
+} from '../simulation/worker/WorkerProtocol'
+import { TimelineRange } from '../simulation/engine/Timeline'
+import { createStepTimings } from '../simulation/utils/StepTimer'
+import { bucketsToPoints } from '../simulation/analysis/PopulationTimeSeries'
+
+export const slice = 'simulation'
+
+// An earlier step being looked at instead of the live run
+export interface InspectedStep {
+  step: number;
+  grid: FrameGrid;
+  populations: PopulationPoint;
+}
+
+export interface SimulationSliceState {
+  isRunning: boolean;
+  isPaused: boolean;
+  speed: number;
+  config: WorldConfig;
+  grid: FrameGrid | null;
+  generation: number;
+  current: PopulationPoint;             // Step and population counts of the latest frame
+  populationHistory: PopulationPoint[]; // Whole current generation, averaged into at most a few hundred points
+  populationHealth: PopulationHealth[];
+  alerts: EcosystemAlert[];
+  extinctionAnalysis: ExtinctionAnalysis | null;
+  oscillationAnalysis: OscillationAnalysis;
+  stepTimings: StepTimings;
+  fastForward: FastForwardProgress | null;
+  timeline: TimelineRange | null;       // Steps the worker can show or resume from
+  inspection: InspectedStep | null;     // Set while scrubbed back from the live run
+  error: string | null;                 // Last error the worker reported, until dismissed
+}
+
+export const initialState: SimulationSliceState = {
+  isRunning: false,
+  isPaused: false,
+  speed: WORLD_CONFIG.speed.defaultSpeed,
+  config: WORLD_CONFIG,
+  grid: null,
+  generation: 0,
+  current: { step: 0, grass: 0, sheep: 0, wolves: 0 },
+  populationHistory: [],
+  populationHealth: [],
+  alerts: [],
+  extinctionAnalysis: null,
+  oscillationAnalysis: {
+    totalCycles: 0,
+    cyclesBySpecies: {},
+    averageCycleDuration: 0,
+    averageAmplitude: 0,
+    oscillationHealth: 'extinct',
+    recentCycles: [],
+    nearExtinctionRecoveries: 0,
+    overgrowthCorrections: 0,
+    stabilityScore: 0
+  },
+  stepTimings: createStepTimings(),
+  fastForward: null,
+  timeline: null,
+  inspection: null,
+  error: null
+}
+
+// Actions; several carry worker protocol payloads, so they are defined with the slice rather than in SimulationTypes
+export interface StartSimulationAction {
+  type: SimulationActionType.START_SIMULATION;
+}
+
+export interface PauseSimulationAction {
+  type: SimulationActionType.PAUSE_SIMULATION;
+}
+
+export interface StopSimulationAction {
+  type: SimulationActionType.STOP_SIMULATION;
+}
+
+export interface StepSimulationAction {
+  type: SimulationActionType.STEP_SIMULATION;
+}
+
+export interface ResetSimulationAction {
+  type: SimulationActionType.RESET_SIMULATION;
+}
+
+// Grid changes streamed from the simulation worker
+export interface UpdateWorldAction {
+  type: SimulationActionType.UPDATE_WORLD;
+  payload: FrameDiff;
+}
+
+export interface UpdateStatisticsAction {
+  type: SimulationActionType.UPDATE_STATISTICS;
+  payload: FrameStats;
+}
+
+export interface SetSpeedAction {
+  type: SimulationActionType.SET_SPEED;
+  payload: number;
+}
+
+// Config the simulation is running with, as reported back by the worker
+export interface SetConfigAction {
+  type: SimulationActionType.SET_CONFIG;
+  payload: WorldConfig;
+}
+
+export interface ApplyConfigAction {
+  type: SimulationActionType.APPLY_CONFIG;
+  payload: { config: WorldConfig; mode: ConfigApplyMode };
+}
+
+export interface FastForwardAction {
+  type: SimulationActionType.FAST_FORWARD;
+  payload: FastForwardOptions;
+}
+
+export interface CancelFastForwardAction {
+  type: SimulationActionType.CANCEL_FAST_FORWARD;
+}
+
+export interface UpdateFastForwardAction {
+  type: SimulationActionType.UPDATE_FAST_FORWARD;
+  payload: FastForwardProgress;
+}
+
+export interface SeekTimelineAction {
+  type: SimulationActionType.SEEK_TIMELINE;
+  payload: number; // Step to inspect
+}
+
+// An earlier step sent back by the worker after a seek
+export interface UpdateInspectionAction {
+  type: SimulationActionType.UPDATE_INSPECTION;
+  payload: TimelineInspection;
+}
+
+export interface BranchTimelineAction {
+  type: SimulationActionType.BRANCH_TIMELINE;
+  payload: number; // Step to resume from
+}
+
+export interface ReturnToLiveAction {
+  type: SimulationActionType.RETURN_TO_LIVE;
+}
+
+// An error the simulation worker reported, e.g. a config it could not apply
+export interface ReportErrorAction {
+  type: SimulationActionType.REPORT_ERROR;
+  payload: string;
+}
+
+export interface DismissErrorAction {
+  type: SimulationActionType.DISMISS_ERROR;
+}
+
+// Union type for all actions
+export type SimulationAction =
+  | StartSimulationAction
+  | PauseSimulationAction
+  | StopSimulationAction
+  | StepSimulationAction
+  | ResetSimulationAction
+  | UpdateWorldAction
+  | UpdateStatisticsAction
+  | SetSpeedAction
+  | SetConfigAction
+  | ApplyConfigAction
+  | FastForwardAction
+  | CancelFastForwardAction
+  | UpdateFastForwardAction
+  | SeekTimelineAction
+  | UpdateInspectionAction
+  | BranchTimelineAction
+  | ReturnToLiveAction
+  | ReportErrorAction
+  | DismissErrorAction;
+
+// Action creators
+export const startSimulation = (): StartSimulationAction => ({ type: SimulationActionType.START_SIMULATION })
+export const pauseSimulation = (): PauseSimulationAction => ({ type: SimulationActionType.PAUSE_SIMULATION })
+export const stopSimulation = (): StopSimulationAction => ({ type: SimulationActionType.STOP_SIMULATION })
+export const stepSimulation = (): StepSimulationAction => ({ type: SimulationActionType.STEP_SIMULATION })
+export const resetSimulation = (): ResetSimulationAction => ({ type: SimulationActionType.RESET_SIMULATION })
+export const updateWorld = (frame: FrameDiff): UpdateWorldAction => ({ type: SimulationActionType.UPDATE_WORLD, payload: frame })
+export const updateStatistics = (stats: FrameStats): UpdateStatisticsAction => ({ type: SimulationActionType.UPDATE_STATISTICS, payload: stats })
+export const setSpeed = (speed: number): SetSpeedAction => ({ type: SimulationActionType.SET_SPEED, payload: speed })
+export const setConfig = (config: WorldConfig): SetConfigAction => ({ type: SimulationActionType.SET_CONFIG, payload: config })
+export const applyConfig = (config: WorldConfig, mode: ConfigApplyMode): ApplyConfigAction =>
+  ({ type: SimulationActionType.APPLY_CONFIG, payload: { config, mode } })
+export const fastForward = (options: FastForwardOptions): FastForwardAction => ({ type: SimulationActionType.FAST_FORWARD, payload: options })
+export const cancelFastForward = (): CancelFastForwardAction => ({ type: SimulationActionType.CANCEL_FAST_FORWARD })
+export const updateFastForward = (progress: FastForwardProgress): UpdateFastForwardAction =>
+  ({ type: SimulationActionType.UPDATE_FAST_FORWARD, payload: progress })
+export const seekTimeline = (step: number): SeekTimelineAction => ({ type: SimulationActionType.SEEK_TIMELINE, payload: step })
+export const updateInspection = (inspection: TimelineInspection): UpdateInspectionAction =>
+  ({ type: SimulationActionType.UPDATE_INSPECTION, payload: inspection })
+export const branchTimeline = (step: number): BranchTimelineAction => ({ type: SimulationActionType.BRANCH_TIMELINE, payload: step })
+export const returnToLive = (): ReturnToLiveAction => ({ type: SimulationActionType.RETURN_TO_LIVE })
+export const reportError = (message: string): ReportErrorAction => ({ type: SimulationActionType.REPORT_ERROR, payload: message })
+export const dismissError = (): DismissErrorAction => ({ type: SimulationActionType.DISMISS_ERROR })
+
+const receiveStatistics = (state: SimulationSliceState, stats: FrameStats): SimulationSliceState => {
+  // The worker sends the whole run's downsampled history with every frame, so it simply replaces ours
+  const latest = stats.populations[stats.populations.length - 1]
+
+  return {
+    ...state,
+    isRunning: stats.isRunning,
+    isPaused: stats.isRunning ? false : state.isPaused,
+    speed: stats.speed,
+    generation: stats.generation,
+    current: latest ?? { ...state.current, step: stats.step },
+    populationHistory: bucketsToPoints(stats.history),
+    populationHealth: stats.populationHealth,
+    alerts: stats.alerts,
+    extinctionAnalysis: stats.extinctionAnalysis,
+    oscillationAnalysis: stats.oscillationAnalysis,
+    stepTimings: stats.timings,
+    timeline: stats.timeline,
+    // A reset leaves nothing to look back at
+    inspection: stats.generation !== state.generation ? null : state.inspection
+  }
+}
+
+export const reducer = (state: SimulationSliceState = initialState, action: SimulationAction): SimulationSliceState => {
+  switch (action.type) {
+    case SimulationActionType.START_SIMULATION:
+      return { ...state, isRunning: true, isPaused: false, inspection: null }
+    case SimulationActionType.PAUSE_SIMULATION:
+      return { ...state, isRunning: false, isPaused: true }
+    case SimulationActionType.STOP_SIMULATION:
+      return { ...state, isRunning: false, isPaused: false }
+    case SimulationActionType.RESET_SIMULATION:
+      return { ...state, isRunning: false, isPaused: false, inspection: null }
+    case SimulationActionType.STEP_SIMULATION:
+    case SimulationActionType.FAST_FORWARD:
+    case SimulationActionType.RETURN_TO_LIVE:
+      return { ...state, inspection: null }
+    case SimulationActionType.SEEK_TIMELINE:
+      // The worker pauses to answer a seek
+      return { ...state, isRunning: false, isPaused: true }
+    case SimulationActionType.UPDATE_INSPECTION: {
+      const { step, frame, populations } = action.payload
+      return { ...state, inspection: { step, grid: applyFrameDiff(null, frame), populations } }
+    }
+    case SimulationActionType.BRANCH_TIMELINE:
+      return { ...state, isRunning: false, isPaused: true, inspection: null }
+    case SimulationActionType.UPDATE_WORLD:
+      return { ...state, grid: applyFrameDiff(state.grid, action.payload) }
+    case SimulationActionType.UPDATE_STATISTICS:
+      return receiveStatistics(state, action.payload)
+    case SimulationActionType.SET_SPEED:
+      return { ...state, speed: action.payload }
+    case SimulationActionType.SET_CONFIG:
+      return { ...state, config: action.payload }
+    case SimulationActionType.UPDATE_FAST_FORWARD:
+      return { ...state, fastForward: action.payload }
+    case SimulationActionType.REPORT_ERROR:
+      return { ...state, error: action.payload }
+    case SimulationActionType.DISMISS_ERROR:
+      return { ...state, error: null }
+    default:
+      return state
+  }
+}
+
+// Selectors
+type WithSimulation = { [slice]: SimulationSliceState }
+
+export const getIsRunning = (state: WithSimulation) => state[slice].isRunning
+export const getIsPaused = (state: WithSimulation) => state[slice].isPaused
+export const getSpeed = (state: WithSimulation) => state[slice].speed
+export const getConfig = (state: WithSimulation) => state[slice].config
+export const getGrid = (state: WithSimulation) => state[slice].grid
+export const getCurrentStep = (state: WithSimulation) => state[slice].current.step
+export const getCurrentPopulations = (state: WithSimulation) => state[slice].current
+export const getPopulationHistory = (state: WithSimulation) => state[slice].populationHistory
+export const getPopulationHealth = (state: WithSimulation) => state[slice].populationHealth
+export const getEcosystemAlerts = (state: WithSimulation) => state[slice].alerts
+export const getExtinctionAnalysis = (state: WithSimulation) => state[slice].extinctionAnalysis
+export const getOscillationAnalysis = (state: WithSimulation) => state[slice].oscillationAnalysis
+export const getStepTimings = (state: WithSimulation) => state[slice].stepTimings
+export const getFastForwardProgress = (state: WithSimulation) => state[slice].fastForward
+export const getIsFastForwarding = (state: WithSimulation) => state[slice].fastForward?.done === false
+export const getTimeline = (state: WithSimulation) => state[slice].timeline
+export const getInspection = (state: WithSimulation) => state[slice].inspection
+export const getError = (state: WithSimulation) => state[slice].error
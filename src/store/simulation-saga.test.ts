@@ -0,0 +1,152 @@
+import { describe, it, expect } from 'vitest'
+import { createSimulationStore } from './store'
+import {
+  startSimulation,
+  stepSimulation,
+  setSpeed,
+  applyConfig,
+  fastForward,
+  seekTimeline,
+  branchTimeline,
+  getCurrentStep,
+  getInspection,
+  getConfig,
+  getGrid,
+  getFastForwardProgress,
+  getError,
+  dismissError,
+  initialState
+} from './simulation-dux'
+import { SimulationTransport, SimulationWorkerClient } from '../simulation/worker/SimulationWorkerClient'
+import { WorkerCommand, WorkerMessage } from '../simulation/worker/WorkerProtocol'
+import { createWorldConfig } from '../simulation/config/WorldConfig'
+import { Logger, RingBufferSink } from '../simulation/utils/Logger'
+
+const createFakeTransport = () => {
+  const sent: WorkerCommand[] = []
+  const listeners: Array<(message: WorkerMessage) => void> = []
+  let terminated = false
+  const transport: SimulationTransport = {
+    send: command => { sent.push(command) },
+    onMessage: listener => { listeners.push(listener) },
+    terminate: () => { terminated = true }
+  }
+  return {
+    transport,
+    sent,
+    receive: (message: WorkerMessage) => listeners.forEach(listener => listener(message)),
+    isTerminated: () => terminated
+  }
+}
+
+const startStore = () => {
+  const fake = createFakeTransport()
+  const config = createWorldConfig({ width: 4, height: 4 })
+  const logs = new RingBufferSink()
+  const logger = new Logger({ sinks: [logs] })
+  const store = createSimulationStore({ config, seed: 3, createClient: () => new SimulationWorkerClient(fake.transport), logger })
+  const task = store.runSimulation()
+  return { fake, config, store, task, logs }
+}
+
+describe('simulation saga', () => {
+  it('should initialize the worker with the config and seed', () => {
+    const { fake, config } = startStore()
+
+    expect(fake.sent).toEqual([{ type: 'init', config, seed: 3 }])
+  })
+
+  it('should forward playback actions to the worker', () => {
+    const { fake, store, config } = startStore()
+
+    store.dispatch(startSimulation())
+    store.dispatch(setSpeed(5))
+    store.dispatch(stepSimulation())
+    store.dispatch(applyConfig(config, 'reset'))
+    store.dispatch(fastForward({ steps: 100 }))
+    store.dispatch(seekTimeline(40))
+    store.dispatch(branchTimeline(40))
+
+    expect(fake.sent.slice(1)).toEqual([
+      { type: 'start' },
+      { type: 'setSpeed', speed: 5 },
+      { type: 'step', count: 1 },
+      { type: 'setConfig', config, mode: 'reset' },
+      { type: 'fastForward', options: { steps: 100 } },
+      { type: 'seek', step: 40 },
+      { type: 'branch', step: 40 }
+    ])
+  })
+
+  it('should put frames, config and progress from the worker into the store and acknowledge frames', () => {
+    const { fake, store, config } = startStore()
+
+    fake.receive({ type: 'config', config })
+    fake.receive({
+      type: 'frame',
+      frame: { width: 4, height: 4, full: true, indices: new Uint32Array(0), grass: new Uint8Array(16), animals: new Uint8Array(16), terrain: new Uint8Array(16) },
+      stats: {
+        generation: 1,
+        step: 7,
+        isRunning: true,
+        speed: 2,
+        populations: [{ step: 7, grass: 3, sheep: 2, wolves: 1 }],
+        history: [],
+        populationHealth: [],
+        alerts: [],
+        extinctionAnalysis: null,
+        oscillationAnalysis: initialState.oscillationAnalysis,
+        timings: initialState.stepTimings,
+        timeline: null
+      }
+    })
+    fake.receive({ type: 'progress', progress: { stepsRun: 5, stepsTotal: 50, step: 7, done: false } })
+
+    const state = store.getState()
+    expect(getConfig(state)).toBe(config)
+    expect(getGrid(state)?.width).toBe(4)
+    expect(getCurrentStep(state)).toBe(7)
+    expect(getFastForwardProgress(state)?.stepsRun).toBe(5)
+    expect(fake.sent[fake.sent.length - 1]).toEqual({ type: 'frameAck' })
+  })
+
+  it('should put timeline inspections from the worker into the store', () => {
+    const { fake, store } = startStore()
+
+    store.dispatch(seekTimeline(2))
+    fake.receive({
+      type: 'inspection',
+      inspection: {
+        step: 2,
+        frame: { width: 4, height: 4, full: true, indices: new Uint32Array(0), grass: new Uint8Array(16), animals: new Uint8Array(16), terrain: new Uint8Array(16) },
+        populations: { step: 2, grass: 5, sheep: 2, wolves: 1 }
+      }
+    })
+
+    expect(getInspection(store.getState())?.populations.sheep).toBe(2)
+    expect(getInspection(store.getState())?.grid.width).toBe(4)
+  })
+
+  it('should log worker errors and keep them in the store until dismissed', () => {
+    const { fake, store, logs } = startStore()
+
+    fake.receive({ type: 'error', message: 'Invalid config: sheep.reproductionRate must be <= 1' })
+
+    expect(getError(store.getState())).toBe('Invalid config: sheep.reproductionRate must be <= 1')
+    expect(logs.getEntries()).toMatchObject([
+      { level: 'error', category: 'worker', message: 'Simulation error: Invalid config: sheep.reproductionRate must be <= 1' }
+    ])
+
+    store.dispatch(dismissError())
+
+    expect(getError(store.getState())).toBeNull()
+  })
+
+  it('should shut the worker down when cancelled', () => {
+    const { fake, task } = startStore()
+
+    task.cancel()
+
+    expect(fake.isTerminated()).toBe(true)
+  })
+})
@@ -0,0 +1,114 @@
+/**
+ * Simulation saga: owns the simulation worker client, turns playback actions into worker
+ * commands and feeds the frames, config, progress and timeline inspections the worker streams back into the store
+ */
+
+import { EventChannel, buffers, eventChannel } from 'redux-saga'
+import { call, fork, put, take } from 'redux-saga/effects'
+import { WORLD_CONFIG, WorldConfig } from '../simulation/config/WorldConfig'
+import { SimulationActionType } from '../simulation/types/SimulationTypes'
+import { SimulationWorkerClient } from '../simulation/worker/SimulationWorkerClient'
+import { Logger } from '../simulation/utils/Logger'
+import { SimulationAction, reportError, setConfig, updateFastForward, updateInspection, updateStatistics, updateWorld } from './simulation-dux'
+
+export interface SimulationSagaOptions {
+  config?: WorldConfig
+  seed?: number
+  createClient?: () => SimulationWorkerClient
+  /** Where worker errors are logged (default: the console) */
+  logger?: Logger
+}
+
+// Actions the worker has to act on
+const COMMAND_TYPES = [
+  SimulationActionType.START_SIMULATION,
+  SimulationActionType.PAUSE_SIMULATION,
+  SimulationActionType.STOP_SIMULATION,
+  SimulationActionType.STEP_SIMULATION,
+  SimulationActionType.RESET_SIMULATION,
+  SimulationActionType.SET_SPEED,
+  SimulationActionType.APPLY_CONFIG,
+  SimulationActionType.FAST_FORWARD,
+  SimulationActionType.CANCEL_FAST_FORWARD,
+  SimulationActionType.SEEK_TIMELINE,
+  SimulationActionType.BRANCH_TIMELINE
+]
+
+export const sendCommand = (client: SimulationWorkerClient, action: SimulationAction): void => {
+  switch (action.type) {
+    case SimulationActionType.START_SIMULATION:
+      return client.start()
+    case SimulationActionType.PAUSE_SIMULATION:
+    case SimulationActionType.STOP_SIMULATION:
+      return client.pause()
+    case SimulationActionType.STEP_SIMULATION:
+      return client.step()
+    case SimulationActionType.RESET_SIMULATION:
+      return client.reset()
+    case SimulationActionType.SET_SPEED:
+      return client.setSpeed(action.payload)
+    case SimulationActionType.APPLY_CONFIG:
+      return client.setConfig(action.payload.config, action.payload.mode)
+    case SimulationActionType.FAST_FORWARD:
+      return client.fastForward(action.payload)
+    case SimulationActionType.CANCEL_FAST_FORWARD:
+      return client.cancelFastForward()
+    case SimulationActionType.SEEK_TIMELINE:
+      return client.seek(action.payload)
+    case SimulationActionType.BRANCH_TIMELINE:
+      return client.branch(action.payload)
+  }
+}
+
+/**
+ * Channel of store actions for everything the worker sends back.
+ * Buffered, since a frame emits two actions back to back.
+ */
+export const createClientChannel = (client: SimulationWorkerClient, logger: Logger = new Logger()): EventChannel<SimulationAction> =>
+  eventChannel<SimulationAction>(emit => {
+    const unsubscribers = [
+      client.onFrame((_buffer, stats, frame) => {
+        emit(updateWorld(frame))
+        emit(updateStatistics(stats))
+      }),
+      client.onConfig(config => emit(setConfig(config))),
+      client.onProgress(progress => emit(updateFastForward(progress))),
+      client.onInspection(inspection => emit(updateInspection(inspection))),
+      client.onError(message => {
+        logger.error('worker', `Simulation error: ${message}`)
+        emit(reportError(message))
+      })
+    ]
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe())
+  }, buffers.expanding())
+
+function* forwardCommands(client: SimulationWorkerClient) {
+  while (true) {
+    const action: SimulationAction = yield take(COMMAND_TYPES)
+    yield call(sendCommand, client, action)
+  }
+}
+
+export function* simulationSaga({
+  config = WORLD_CONFIG,
+  seed,
+  createClient = () => new SimulationWorkerClient(),
+  logger = new Logger()
+}: SimulationSagaOptions = {}) {
+  const client: SimulationWorkerClient = yield call(createClient)
+  const channel: EventChannel<SimulationAction> = yield call(createClientChannel, client, logger)
+
+  try {
+    yield fork(forwardCommands, client)
+    yield call([client, client.init], config, seed)
+
+    while (true) {
+      const action: SimulationAction = yield take(channel)
+      yield put(action)
+    }
+  } finally {
+    // Cancelling the saga shuts the worker down
+    channel.close()
+    client.destroy()
+  }
+}
@@ -0,0 +1,20 @@
+'use client'
+
+/**
+ * Provides the app store and runs the simulation saga for as long as the provider is mounted
+ */
+
+import React, { useEffect, useState } from 'react'
+import { Provider } from 'react-redux'
+import { SimulationStore, createSimulationStore } from './store'
+
+export const SimulationStoreProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [store] = useState<SimulationStore>(() => createSimulationStore())
+
+  useEffect(() => {
+    const task = store.runSimulation()
+    return () => task.cancel()
+  }, [store])
+
+  return <Provider store={store}>{children}</Provider>
+}
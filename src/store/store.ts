@@ -0,0 +1,25 @@
+/**
+ * Root reducer and store factory for the app
+ */
+
+import { applyMiddleware, combineReducers, legacy_createStore as createStore } from 'redux'
+import createSagaMiddleware, { Task } from 'redux-saga'
+import { reducer, slice } from './simulation-dux'
+import { SimulationSagaOptions, simulationSaga } from './simulation-saga'
+
+export const rootReducer = combineReducers({ [slice]: reducer })
+
+export type RootState = ReturnType<typeof rootReducer>
+
+export const createSimulationStore = (options: SimulationSagaOptions = {}) => {
+  const sagaMiddleware = createSagaMiddleware()
+  const store = createStore(rootReducer, undefined, applyMiddleware(sagaMiddleware))
+
+  return {
+    ...store,
+    // Start the saga and with it the simulation worker; cancel the task to shut both down
+    runSimulation: (): Task => sagaMiddleware.run(simulationSaga, options)
+  }
+}
+
+export type SimulationStore = ReturnType<typeof createSimulationStore>
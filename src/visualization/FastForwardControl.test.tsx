@@ -0,0 +1,57 @@
+import { describe, it, expect, vi } from 'vitest'
+import { render, screen, fireEvent } from '@testing-library/react'
+import { FastForwardControl } from './FastForwardControl'
+
+describe('FastForwardControl', () => {
+  it('should start a run of the entered number of steps', () => {
+    const onStart = vi.fn()
+    render(<FastForwardControl progress={null} onStart={onStart} onCancel={vi.fn()} />)
+
+    fireEvent.change(screen.getByLabelText('Fast-forward amount'), { target: { value: '250' } })
+    fireEvent.click(screen.getByTitle('Fast-forward'))
+
+    expect(onStart).toHaveBeenCalledWith({ steps: 250, stopOnExtinction: true })
+  })
+
+  it('should run until a target step', () => {
+    const onStart = vi.fn()
+    render(<FastForwardControl progress={null} onStart={onStart} onCancel={vi.fn()} />)
+
+    fireEvent.change(screen.getByLabelText('Fast-forward target'), { target: { value: 'untilStep' } })
+    fireEvent.change(screen.getByLabelText('Fast-forward amount'), { target: { value: '5000' } })
+    fireEvent.click(screen.getByLabelText('Stop on extinction'))
+    fireEvent.click(screen.getByTitle('Fast-forward'))
+
+    expect(onStart).toHaveBeenCalledWith({ untilStep: 5000, stopOnExtinction: false })
+  })
+
+  it('should show progress and allow cancelling an active run', () => {
+    const onCancel = vi.fn()
+    render(
+      <FastForwardControl
+        progress={{ stepsRun: 250, stepsTotal: 1000, step: 300, done: false }}
+        onStart={vi.fn()}
+        onCancel={onCancel}
+      />
+    )
+
+    expect(screen.getByRole('status')).toHaveTextContent('25% (step 300)')
+    expect(screen.getByLabelText('Fast-forward amount')).toBeDisabled()
+
+    fireEvent.click(screen.getByText('Cancel'))
+    expect(onCancel).toHaveBeenCalled()
+  })
+
+  it('should report why a finished run stopped', () => {
+    render(
+      <FastForwardControl
+        progress={{ stepsRun: 412, stepsTotal: 1000, step: 412, done: true, reason: 'extinction' }}
+        onStart={vi.fn()}
+        onCancel={vi.fn()}
+      />
+    )
+
+    expect(screen.getByRole('status')).toHaveTextContent('Stopped: extinction at step 412')
+    expect(screen.getByTitle('Fast-forward')).toBeEnabled()
+  })
+})
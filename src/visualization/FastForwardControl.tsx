@@ -0,0 +1,102 @@
+'use client'
+
+/**
+ * FastForwardControl runs the simulation N steps, or up to a given step, as fast as the
+ * worker can go, optionally stopping at the first extinction, and shows the run's progress.
+ */
+
+import React, { useState } from 'react'
+import { FastForwardOptions, FastForwardProgress } from '../simulation/worker/WorkerProtocol'
+
+type FastForwardTarget = 'steps' | 'untilStep'
+
+interface FastForwardControlProps {
+  progress: FastForwardProgress | null // Latest progress report; null before the first run
+  onStart: (options: FastForwardOptions) => void
+  onCancel: () => void
+}
+
+const STOP_REASON_LABELS = {
+  completed: 'Done',
+  extinction: 'Stopped: extinction',
+  cancelled: 'Cancelled'
+} as const
+
+export const FastForwardControl: React.FC<FastForwardControlProps> = ({
+  progress,
+  onStart,
+  onCancel
+}) => {
+  const [target, setTarget] = useState<FastForwardTarget>('steps')
+  const [amount, setAmount] = useState(1000)
+  const [stopOnExtinction, setStopOnExtinction] = useState(true)
+
+  const isActive = progress !== null && !progress.done
+  const percent = progress && progress.stepsTotal > 0 ? Math.round((progress.stepsRun / progress.stepsTotal) * 100) : 0
+
+  const start = () => {
+    onStart(target === 'steps'
+      ? { steps: amount, stopOnExtinction }
+      : { untilStep: amount, stopOnExtinction })
+  }
+
+  return (
+    <div className="flex items-center gap-1 text-xs">
+      <select
+        aria-label="Fast-forward target"
+        value={target}
+        onChange={(e) => setTarget(e.target.value as FastForwardTarget)}
+        disabled={isActive}
+        className="px-1 py-0.5 border border-gray-300 rounded"
+      >
+        <option value="steps">Run steps</option>
+        <option value="untilStep">Until step</option>
+      </select>
+      <input
+        type="number"
+        aria-label="Fast-forward amount"
+        min={1}
+        step={1}
+        value={amount}
+        onChange={(e) => setAmount(Math.max(1, Math.floor(Number(e.target.value) || 1)))}
+        disabled={isActive}
+        className="w-16 px-1 py-0.5 border border-gray-300 rounded text-right"
+      />
+      <label className="flex items-center gap-1 text-gray-700 whitespace-nowrap">
+        <input
+          type="checkbox"
+          checked={stopOnExtinction}
+          onChange={(e) => setStopOnExtinction(e.target.checked)}
+          disabled={isActive}
+        />
+        Stop on extinction
+      </label>
+      {isActive ? (
+        <button
+          onClick={onCancel}
+          className="px-2 py-1 bg-red-500 hover:bg-red-600 text-white font-semibold rounded transition-colors"
+        >
+          Cancel
+        </button>
+      ) : (
+        <button
+          onClick={start}
+          title="Fast-forward"
+          className="px-2 py-1 bg-purple-500 hover:bg-purple-600 text-white font-semibold rounded transition-colors"
+        >
+          ⏩
+        </button>
+      )}
+      {progress && (
+        <div role="status" className="flex items-center gap-1 whitespace-nowrap text-gray-600">
+          <progress value={progress.stepsRun} max={Math.max(1, progress.stepsTotal)} className="w-16 h-2" />
+          <span>
+            {progress.done && progress.reason
+              ? `${STOP_REASON_LABELS[progress.reason]} at step ${progress.step}`
+              : `${percent}% (step ${progress.step})`}
+          </span>
+        </div>
+      )}
+    </div>
+  )
+}
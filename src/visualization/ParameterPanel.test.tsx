@@ -0,0 +1,124 @@
+import { describe, it, expect, vi } from 'vitest'
+import { render, screen, fireEvent, waitFor } from '@testing-library/react'
+import { ParameterPanel, getSliderRange } from './ParameterPanel'
+import { WORLD_CONFIG } from '../simulation/config/WorldConfig'
+
+describe('ParameterPanel', () => {
+  const renderPanel = (onApply = vi.fn()) => {
+    render(<ParameterPanel config={WORLD_CONFIG} isVisible={true} onToggle={vi.fn()} onApply={onApply} />)
+    return onApply
+  }
+
+  it('should only show a toggle button when collapsed', () => {
+    const onToggle = vi.fn()
+    render(<ParameterPanel config={WORLD_CONFIG} isVisible={false} onToggle={onToggle} onApply={vi.fn()} />)
+
+    fireEvent.click(screen.getByText('🎛️ Parameters'))
+
+    expect(onToggle).toHaveBeenCalled()
+    expect(screen.queryByText('Apply Live')).not.toBeInTheDocument()
+  })
+
+  it('should group parameters by config section', () => {
+    renderPanel()
+
+    expect(screen.getByLabelText('Growth rate')).toHaveValue(WORLD_CONFIG.grass.growthRate)
+    expect(screen.queryByLabelText('Energy per sheep')).not.toBeInTheDocument()
+
+    fireEvent.click(screen.getByText('🐺 Wolves'))
+
+    expect(screen.getByLabelText('Energy per sheep')).toHaveValue(WORLD_CONFIG.wolf.energyPerSheep)
+    expect(screen.getByLabelText('wolf.reproduction.packSizeMax slider')).toBeInTheDocument()
+  })
+
+  it('should apply edited values live', () => {
+    const onApply = renderPanel()
+
+    fireEvent.change(screen.getByLabelText('Growth rate'), { target: { value: '0.2' } })
+    expect(screen.getByText('1 pending change')).toBeInTheDocument()
+
+    fireEvent.click(screen.getByText('Apply Live'))
+
+    expect(onApply).toHaveBeenCalledWith(expect.objectContaining({
+      grass: expect.objectContaining({ growthRate: 0.2 })
+    }), 'live')
+  })
+
+  it('should apply on reset', () => {
+    const onApply = renderPanel()
+
+    fireEvent.change(screen.getByLabelText('grass.maxDensity slider'), { target: { value: '0.5' } })
+    fireEvent.click(screen.getByText('Apply & Reset'))
+
+    expect(onApply).toHaveBeenCalledWith(expect.objectContaining({
+      grass: expect.objectContaining({ maxDensity: 0.5 })
+    }), 'reset')
+  })
+
+  it('should show validation errors and block applying invalid values', () => {
+    const onApply = renderPanel()
+
+    fireEvent.change(screen.getByLabelText('Growth rate'), { target: { value: '2' } })
+
+    expect(screen.getByRole('alert')).toHaveTextContent('grass.growthRate: must be <= 1')
+    expect(screen.getByText('Apply Live')).toBeDisabled()
+    expect(screen.getByText('Apply & Reset')).toBeDisabled()
+    expect(onApply).not.toHaveBeenCalled()
+  })
+
+  it('should revert pending changes', () => {
+    renderPanel()
+
+    fireEvent.change(screen.getByLabelText('Growth rate'), { target: { value: '0.3' } })
+    fireEvent.click(screen.getByText('Revert'))
+
+    expect(screen.getByLabelText('Growth rate')).toHaveValue(WORLD_CONFIG.grass.growthRate)
+    expect(screen.getByText('No pending changes')).toBeInTheDocument()
+  })
+
+  it('should import a partial JSON config into the draft', async () => {
+    renderPanel()
+    const file = new File([JSON.stringify({ grass: { growthRate: 0.42 } })], 'config.json', { type: 'application/json' })
+
+    fireEvent.change(screen.getByLabelText('Import config file'), { target: { files: [file] } })
+
+    await waitFor(() => expect(screen.getByLabelText('Growth rate')).toHaveValue(0.42))
+  })
+
+  it('should report invalid imported configs', async () => {
+    renderPanel()
+    const file = new File([JSON.stringify({ grass: { growthRate: 'fast' } })], 'config.json', { type: 'application/json' })
+
+    fireEvent.change(screen.getByLabelText('Import config file'), { target: { files: [file] } })
+
+    await waitFor(() => expect(screen.getByRole('alert')).toHaveTextContent('Import failed'))
+    expect(screen.getByRole('alert')).toHaveTextContent('grass.growthRate: must be a finite number')
+    expect(screen.getByLabelText('Growth rate')).toHaveValue(WORLD_CONFIG.grass.growthRate)
+  })
+
+  it('should export the draft config as a JSON download', () => {
+    renderPanel()
+    const createObjectURL = vi.fn(() => 'blob:config')
+    const revokeObjectURL = vi.fn()
+    Object.assign(URL, { createObjectURL, revokeObjectURL })
+    const click = vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(() => {})
+
+    fireEvent.click(screen.getByText('⬇️ Export JSON'))
+
+    expect(createObjectURL).toHaveBeenCalledWith(expect.any(Blob))
+    expect(click).toHaveBeenCalled()
+    expect(revokeObjectURL).toHaveBeenCalledWith('blob:config')
+    click.mockRestore()
+  })
+
+  describe('getSliderRange', () => {
+    it('should use validator ranges where declared', () => {
+      expect(getSliderRange('grass.growthRate', 0.08)).toEqual({ min: 0, max: 1, step: 0.001 })
+    })
+
+    it('should scale open-ended ranges from the current value', () => {
+      expect(getSliderRange('wolf.lifespan', 200)).toEqual({ min: 1, max: 800, step: 1 })
+      expect(getSliderRange('wolf.energyPerSheep', 6)).toEqual({ min: 0, max: 24, step: 0.01 })
+    })
+  })
+})
@@ -0,0 +1,325 @@
+'use client'
+
+/**
+ * ParameterPanel lets users tune grass, sheep, wolf and world parameters,
+ * apply them to the running simulation (live or on reset) and export/import them as JSON.
+ */
+
+import React, { useEffect, useMemo, useRef, useState } from 'react'
+import { WorldConfig, DeepPartial, mergeWorldConfig, diffWorldConfig } from '../simulation/config/WorldConfig'
+import { ConfigValidationError, getNumberRule, parseWorldConfig, validateWorldConfig } from '../simulation/config/ConfigValidator'
+import { ConfigApplyMode } from '../simulation/worker/WorkerProtocol'
+
+interface ParameterPanelProps {
+  config: WorldConfig // Config the simulation is currently running with
+  isVisible: boolean
+  onToggle: () => void
+  onApply: (config: WorldConfig, mode: ConfigApplyMode) => void
+}
+
+// Config sections shown in the panel, in display order
+const SECTIONS = [
+  { key: 'grass', title: '🌱 Grass' },
+  { key: 'sheep', title: '🐑 Sheep' },
+  { key: 'wolf', title: '🐺 Wolves' },
+  { key: 'world', title: '🌍 World' },
+  { key: 'terrain', title: '🗺️ Terrain' }
+] as const
+
+type SectionKey = typeof SECTIONS[number]['key']
+
+export interface SliderRange {
+  min: number
+  max: number
+  step: number
+}
+
+/**
+ * Slider bounds for a numeric parameter: the validator range where one is declared,
+ * otherwise scaled from the current value (the number input accepts anything valid)
+ */
+export const getSliderRange = (path: string, currentValue: number): SliderRange => {
+  const rule = getNumberRule(path)
+  const min = rule?.min ?? 0
+  const max = rule?.max ?? Math.max(1, Math.ceil(Math.abs(currentValue) * 4))
+  const step = rule?.integer ? 1 : max <= 1 ? 0.001 : 0.01
+  return { min, max, step }
+}
+
+const formatLabel = (key: string): string => {
+  const words = key.replace(/([A-Z])/g, ' $1').toLowerCase()
+  return words.charAt(0).toUpperCase() + words.slice(1)
+}
+
+const setValueAtPath = (config: WorldConfig, path: string, value: number | boolean): WorldConfig => {
+  const partial = path.split('.').reduceRight<unknown>((acc, key) => ({ [key]: acc }), value)
+  return mergeWorldConfig(config, partial as DeepPartial<WorldConfig>)
+}
+
+const getValueAtPath = (config: WorldConfig, path: string): unknown =>
+  path.split('.').reduce<unknown>((obj, key) => (obj as Record<string, unknown> | undefined)?.[key], config)
+
+const readFileText = (file: File): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(String(reader.result))
+    reader.onerror = () => reject(reader.error)
+    reader.readAsText(file)
+  })
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+export const ParameterPanel: React.FC<ParameterPanelProps> = ({
+  config,
+  isVisible,
+  onToggle,
+  onApply
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const [draft, setDraft] = useState<WorldConfig>(config)
+  const [importErrors, setImportErrors] = useState<ConfigValidationError[]>([])
+  const [openSections, setOpenSections] = useState<Record<SectionKey, boolean>>({
+    grass: true,
+    sheep: false,
+    wolf: false,
+    world: false,
+    terrain: false
+  })
+
+  // Start over from the applied config whenever the simulation's config changes
+  useEffect(() => {
+    setDraft(config)
+  }, [config])
+
+  const { errors } = useMemo(() => validateWorldConfig(draft), [draft])
+  const pendingChanges = useMemo(() => diffWorldConfig(config, draft), [config, draft])
+
+  const errorsByPath = useMemo(() => {
+    const map: Record<string, string[]> = {}
+    errors.forEach(error => {
+      map[error.path] = [...(map[error.path] ?? []), error.message]
+    })
+    return map
+  }, [errors])
+
+  const updateValue = (path: string, value: number | boolean) => {
+    setDraft(prev => setValueAtPath(prev, path, value))
+  }
+
+  const toggleSection = (key: SectionKey) => {
+    setOpenSections(prev => ({ ...prev, [key]: !prev[key] }))
+  }
+
+  const exportConfig = () => {
+    const blob = new Blob([JSON.stringify(draft, null, 2)], { type: 'application/json' })
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement('a')
+    link.href = url
+    link.download = 'ecology-config.json'
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  const importConfig = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = '' // Allow importing the same file again
+    if (!file) return
+
+    let json: unknown
+    try {
+      json = JSON.parse(await readFileText(file))
+    } catch {
+      setImportErrors([{ path: '', message: `${file.name} is not valid JSON` }])
+      return
+    }
+
+    // Partial files are merged onto the applied config
+    const { config: imported, errors: parseErrors } = parseWorldConfig(json, config)
+    setImportErrors(parseErrors)
+    if (imported) {
+      setDraft(imported)
+    }
+  }
+
+  const renderNumberField = (path: string, value: number) => {
+    const appliedValue = getValueAtPath(config, path)
+    const range = getSliderRange(path, typeof appliedValue === 'number' ? appliedValue : value)
+    const inputId = `param-${path}`
+    const displayValue = Number.isNaN(value) ? '' : value
+
+    return (
+      <div key={path} className="mb-2">
+        <div className="flex items-center justify-between gap-2">
+          <label htmlFor={inputId} className="text-xs text-gray-700">{formatLabel(path.split('.').pop() ?? path)}</label>
+          <input
+            id={inputId}
+            type="number"
+            step="any"
+            value={displayValue}
+            onChange={(e) => updateValue(path, e.target.value === '' ? NaN : parseFloat(e.target.value))}
+            className={`w-20 px-1 py-0.5 text-xs border rounded text-right ${errorsByPath[path] ? 'border-red-500' : 'border-gray-300'}`}
+          />
+        </div>
+        <input
+          type="range"
+          aria-label={`${path} slider`}
+          min={range.min}
+          max={Math.max(range.max, Number.isNaN(value) ? range.max : value)}
+          step={range.step}
+          value={Number.isNaN(value) ? range.min : value}
+          onChange={(e) => updateValue(path, parseFloat(e.target.value))}
+          className="w-full h-1 bg-gray-200 rounded appearance-none cursor-pointer"
+        />
+        {errorsByPath[path]?.map(message => (
+          <div key={message} className="text-xs text-red-600">{message}</div>
+        ))}
+      </div>
+    )
+  }
+
+  const renderFields = (values: Record<string, unknown>, prefix: string): React.ReactNode[] =>
+    Object.entries(values).map(([key, value]) => {
+      const path = `${prefix}.${key}`
+
+      if (isPlainObject(value)) {
+        return (
+          <fieldset key={path} className="mt-2 pl-2 border-l-2 border-gray-200">
+            <legend className="text-xs font-semibold text-gray-600 mb-1">{formatLabel(key)}</legend>
+            {renderFields(value, path)}
+          </fieldset>
+        )
+      }
+
+      if (typeof value === 'boolean') {
+        return (
+          <label key={path} className="flex items-center gap-2 mb-2 text-xs text-gray-700">
+            <input
+              type="checkbox"
+              checked={value}
+              onChange={(e) => updateValue(path, e.target.checked)}
+            />
+            {formatLabel(key)}
+          </label>
+        )
+      }
+
+      if (typeof value === 'number') {
+        return renderNumberField(path, value)
+      }
+
+      return null
+    })
+
+  if (!isVisible) {
+    return (
+      <button
+        onClick={onToggle}
+        className="fixed bottom-4 left-4 bg-blue-500 hover:bg-blue-600 text-white px-4 py-2 rounded-lg shadow-lg transition-colors z-50"
+      >
+        🎛️ Parameters
+      </button>
+    )
+  }
+
+  return (
+    <div className="fixed top-0 left-0 h-full w-96 bg-white shadow-xl border-r border-gray-200 overflow-y-auto z-50">
+      {/* Header */}
+      <div className="flex justify-between items-center p-3 border-b">
+        <h2 className="text-lg font-bold text-gray-900">🎛️ Parameters</h2>
+        <button
+          onClick={onToggle}
+          aria-label="Close parameters"
+          className="text-gray-500 hover:text-gray-700 text-xl"
+        >
+          ✕
+        </button>
+      </div>
+
+      {/* Actions */}
+      <div className="p-3 border-b space-y-2">
+        <div className="flex gap-1">
+          <button
+            onClick={() => onApply(draft, 'live')}
+            disabled={errors.length > 0 || pendingChanges.length === 0}
+            className="flex-1 px-2 py-1 bg-green-500 hover:bg-green-600 disabled:bg-gray-300 text-white text-xs font-semibold rounded transition-colors"
+          >
+            Apply Live
+          </button>
+          <button
+            onClick={() => onApply(draft, 'reset')}
+            disabled={errors.length > 0}
+            className="flex-1 px-2 py-1 bg-blue-500 hover:bg-blue-600 disabled:bg-gray-300 text-white text-xs font-semibold rounded transition-colors"
+          >
+            Apply &amp; Reset
+          </button>
+          <button
+            onClick={() => setDraft(config)}
+            disabled={pendingChanges.length === 0}
+            className="px-2 py-1 bg-gray-100 hover:bg-gray-200 disabled:opacity-50 text-gray-700 text-xs rounded transition-colors"
+          >
+            Revert
+          </button>
+        </div>
+        <div className="flex gap-1">
+          <button
+            onClick={exportConfig}
+            className="flex-1 px-2 py-1 bg-gray-100 hover:bg-gray-200 text-gray-700 text-xs rounded transition-colors"
+          >
+            ⬇️ Export JSON
+          </button>
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="flex-1 px-2 py-1 bg-gray-100 hover:bg-gray-200 text-gray-700 text-xs rounded transition-colors"
+          >
+            ⬆️ Import JSON
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            aria-label="Import config file"
+            onChange={importConfig}
+            className="hidden"
+          />
+        </div>
+        <div className="text-xs text-gray-500">
+          {pendingChanges.length === 0 ? 'No pending changes' : `${pendingChanges.length} pending change${pendingChanges.length === 1 ? '' : 's'}`}
+        </div>
+      </div>
+
+      {/* Validation and import errors */}
+      {(errors.length > 0 || importErrors.length > 0) && (
+        <div role="alert" className="m-3 p-2 border border-red-200 bg-red-50 rounded text-xs text-red-700">
+          <div className="font-semibold mb-1">{importErrors.length > 0 ? 'Import failed' : 'Invalid parameters'}</div>
+          <ul className="list-disc pl-4">
+            {[...importErrors, ...errors].map((error, index) => (
+              <li key={`${error.path}-${index}`}>{error.path || 'config'}: {error.message}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Parameter sections, grouped like WorldConfig */}
+      <div className="p-3 space-y-2">
+        {SECTIONS.map(section => (
+          <section key={section.key} className="border border-gray-200 rounded">
+            <button
+              onClick={() => toggleSection(section.key)}
+              aria-expanded={openSections[section.key]}
+              className="w-full flex justify-between items-center px-2 py-1.5 text-sm font-semibold text-gray-800 bg-gray-50 hover:bg-gray-100"
+            >
+              <span>{section.title}</span>
+              <span>{openSections[section.key] ? '▾' : '▸'}</span>
+            </button>
+            {openSections[section.key] && (
+              <div className="p-2">
+                {renderFields(draft[section.key] as unknown as Record<string, unknown>, section.key)}
+              </div>
+            )}
+          </section>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -13,14 +13,17 @@ interface PopulationData {
 interface PopulationChartProps {
   data: PopulationData[]
   maxDataPoints?: number
+  totalSteps?: number // Steps the data covers when it has been averaged into fewer points
 }
 
 export const PopulationChart: React.FC<PopulationChartProps> = ({ 
   data, 
-  maxDataPoints = 100 
+  maxDataPoints = 100,
+  totalSteps = data.length
 }) => {
   // Keep only the most recent data points for performance
   const displayData = data.slice(-maxDataPoints)
+  const averaged = totalSteps > data.length
 
   return (
     <div className="bg-white rounded-lg shadow-lg border border-gray-200 p-1 h-full">
@@ -110,8 +113,8 @@ export const PopulationChart: React.FC<PopulationChartProps> = ({
       
       <div className="mt-4 text-xs text-gray-500">
         <div className="flex justify-between">
-          <span>Showing last {displayData.length} steps</span>
-          <span>Total: {data.length} steps</span>
+          <span>{averaged ? `Showing ${displayData.length} averaged points` : `Showing last ${displayData.length} steps`}</span>
+          <span>Total: {totalSteps} steps</span>
         </div>
       </div>
     </div>
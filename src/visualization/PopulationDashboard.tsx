@@ -18,14 +18,15 @@ interface PopulationDashboardProps {
     sheep: number
     wolves: number
   }
+  totalSteps?: number // Steps the data covers when it has been averaged into fewer points
 }
 
 export const PopulationDashboard: React.FC<PopulationDashboardProps> = ({ 
   data, 
-  currentStats 
+  currentStats,
+  totalSteps
 }) => {
   // Calculate some basic metrics
-  const totalSteps = data.length
   const maxGrass = Math.max(...data.map(d => d.grass), 0)
   const maxSheep = Math.max(...data.map(d => d.sheep), 0)
   const maxWolves = Math.max(...data.map(d => d.wolves), 0)
@@ -50,7 +51,7 @@ export const PopulationDashboard: React.FC<PopulationDashboardProps> = ({
     <div className="h-full flex flex-col space-y-4">
       {/* Population Chart */}
       <div className="flex-1">
-        <PopulationChart data={data} />
+        <PopulationChart data={data} totalSteps={totalSteps} />
       </div>
 
       {/* Metrics Summary */}
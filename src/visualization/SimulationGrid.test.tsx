@@ -1,35 +1,91 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest'
-import { render, screen, fireEvent, waitFor } from '@testing-library/react'
-import { SimulationGrid } from './SimulationGrid'
-
-// Mock the simulation engine
-const mockSimulationEngine = {
-  getWorld: vi.fn(() => ({
-    reset: vi.fn(),
-    setCellContent: vi.fn(),
-    updateStatistics: vi.fn(),
-    getCell: vi.fn(() => ({ grass: null, sheep: null, wolf: null })),
-    getOrganismsByType: vi.fn(() => []),
-  })),
-  getStatistics: vi.fn(() => ({
-    grassCount: 100,
-    sheepCount: 20,
-    wolfCount: 5,
-  })),
-  getCurrentStep: vi.fn(() => 0),
-  isRunning: vi.fn(() => false),
-  isPaused: vi.fn(() => false),
+import { render, screen, fireEvent, waitFor, act } from '@testing-library/react'
+import { Provider } from 'react-redux'
+import { SimulationGridContainer } from './simulation-grid-container'
+import { createSimulationStore } from '../store/store'
+import { FrameBuffer } from '../simulation/worker/FrameBuffer'
+import { FrameDiff, FrameStats } from '../simulation/worker/WorkerProtocol'
+import { createStepTimings } from '../simulation/utils/StepTimer'
+import { PopulationBucket } from '../simulation/types/SimulationTypes'
+import { pointToBucket } from '../simulation/analysis/PopulationTimeSeries'
+
+// Mock the simulation worker client; frames are pushed to the component through emitFrame
+type FrameListener = (buffer: FrameBuffer, stats: FrameStats, frame: FrameDiff) => void
+let frameListeners: FrameListener[] = []
+// Whole-run history the worker would send along with each frame
+let history: PopulationBucket[] = []
+
+const emitFrame = (step: number, populations: { grass: number; sheep: number; wolves: number }, generation = 1) => {
+  const frame: FrameDiff = { width: 10, height: 10, full: true, indices: new Uint32Array(0), grass: new Uint8Array(100), animals: new Uint8Array(100), terrain: new Uint8Array(100) }
+  const buffer = new FrameBuffer()
+  buffer.apply(frame)
+  history = [...history, pointToBucket({ step, ...populations })]
+  act(() => {
+    frameListeners.forEach(listener => listener(buffer, {
+      generation,
+      step,
+      isRunning: false,
+      speed: 1,
+      populations: [{ step, ...populations }],
+      history,
+      populationHealth: [],
+      alerts: [],
+      extinctionAnalysis: null,
+      oscillationAnalysis: {
+        totalCycles: 0,
+        cyclesBySpecies: {},
+        averageCycleDuration: 0,
+        averageAmplitude: 0,
+        oscillationHealth: 'extinct',
+        recentCycles: [],
+        nearExtinctionRecoveries: 0,
+        overgrowthCorrections: 0,
+        stabilityScore: 0
+      },
+      timings: createStepTimings(),
+      timeline: null
+    }, frame))
+  })
+}
+
+const mockSimulationClient = {
+  init: vi.fn(),
+  onFrame: vi.fn((listener: FrameListener) => {
+    frameListeners.push(listener)
+    return vi.fn()
+  }),
+  onConfig: vi.fn(() => vi.fn()),
+  onProgress: vi.fn(() => vi.fn()),
+  onInspection: vi.fn(() => vi.fn()),
+  onError: vi.fn(() => vi.fn()),
   start: vi.fn(),
   pause: vi.fn(),
   step: vi.fn(),
   reset: vi.fn(),
+  setSpeed: vi.fn(),
+  setConfig: vi.fn(),
+  fastForward: vi.fn(),
+  cancelFastForward: vi.fn(),
+  seek: vi.fn(),
+  branch: vi.fn(),
   destroy: vi.fn(),
 }
 
-vi.mock('../simulation/engine/SimulationEngine', () => ({
-  SimulationEngine: vi.fn(() => mockSimulationEngine)
+vi.mock('../simulation/worker/SimulationWorkerClient', () => ({
+  SimulationWorkerClient: vi.fn(() => mockSimulationClient)
 }))
 
+// Render through the store, as the app does; the saga creates the (mocked) worker client
+const renderGrid = () => {
+  const store = createSimulationStore()
+  store.runSimulation()
+  render(
+    <Provider store={store}>
+      <SimulationGridContainer width={10} height={10} cellSize={20} />
+    </Provider>
+  )
+}
+
 // Mock canvas context
 const mockCanvasContext = {
   clearRect: vi.fn(),
@@ -45,12 +101,12 @@ HTMLCanvasElement.prototype.getContext = vi.fn(() => mockCanvasContext) as any
 describe('SimulationGrid', () => {
   beforeEach(() => {
     vi.clearAllMocks()
-    // Reset step counter
-    mockSimulationEngine.getCurrentStep.mockReturnValue(0)
+    frameListeners = []
+    history = []
   })
 
   it('should render simulation interface', () => {
-    render(<SimulationGrid width={10} height={10} cellSize={20} />)
+    renderGrid()
     
     expect(screen.getByText('Step')).toBeInTheDocument()
     expect(screen.getByText('Grass')).toBeInTheDocument()
@@ -62,7 +118,8 @@ describe('SimulationGrid', () => {
   })
 
   it('should display initial population counts', () => {
-    render(<SimulationGrid width={10} height={10} cellSize={20} />)
+    renderGrid()
+    emitFrame(0, { grass: 100, sheep: 20, wolves: 5 })
     
     expect(screen.getByText('100')).toBeInTheDocument() // Grass count
     expect(screen.getByText('20')).toBeInTheDocument() // Sheep count
@@ -70,97 +127,85 @@ describe('SimulationGrid', () => {
   })
 
   it('should collect population data when step is executed', async () => {
-    // Mock step progression
-    let stepCount = 0
-    mockSimulationEngine.getCurrentStep.mockImplementation(() => stepCount)
-    mockSimulationEngine.getStatistics.mockImplementation(() => ({
-      grassCount: 100 + stepCount * 5,
-      sheepCount: 20 - stepCount,
-      wolfCount: 5,
-    }))
-
-    render(<SimulationGrid width={10} height={10} cellSize={20} />)
+    renderGrid()
     
     // Click step button
     const stepButton = screen.getByRole('button', { name: /step/i })
     fireEvent.click(stepButton)
     
-    // Simulate step execution
-    stepCount = 1
-    mockSimulationEngine.step.mockImplementation(() => {
-      stepCount = 1
-    })
+    // The worker answers with a frame for the new step
+    emitFrame(1, { grass: 105, sheep: 19, wolves: 5 })
     
     fireEvent.click(stepButton)
     
     await waitFor(() => {
-      expect(mockSimulationEngine.step).toHaveBeenCalled()
+      expect(mockSimulationClient.step).toHaveBeenCalledTimes(2)
     })
+    expect(screen.getByText('105')).toBeInTheDocument()
   })
 
   it('should update population data when simulation runs', async () => {
-    let stepCount = 0
-    mockSimulationEngine.getCurrentStep.mockImplementation(() => stepCount)
-    mockSimulationEngine.getStatistics.mockImplementation(() => ({
-      grassCount: 100 + stepCount * 10,
-      sheepCount: 20 - stepCount * 2,
-      wolfCount: 5,
-    }))
-    mockSimulationEngine.isRunning.mockReturnValue(true)
-
-    render(<SimulationGrid width={10} height={10} cellSize={20} />)
+    renderGrid()
     
     // Start simulation
     const startButton = screen.getByRole('button', { name: /start/i })
     fireEvent.click(startButton)
     
-    // Simulate multiple steps
+    // The worker streams a frame per step
     for (let i = 1; i <= 3; i++) {
-      stepCount = i
-      // Trigger animation frame
-      vi.advanceTimersByTime(100)
+      emitFrame(i, { grass: 100 + i * 10, sheep: 20 - i * 2, wolves: 5 })
     }
     
     await waitFor(() => {
-      expect(mockSimulationEngine.step).toHaveBeenCalled()
+      expect(mockSimulationClient.start).toHaveBeenCalled()
     })
+    expect(screen.getByText('Total: 3 steps')).toBeInTheDocument()
   })
 
   it('should reset population data when reset is clicked', () => {
-    render(<SimulationGrid width={10} height={10} cellSize={20} />)
+    renderGrid()
     
     const resetButton = screen.getByRole('button', { name: /reset/i })
     fireEvent.click(resetButton)
     
-    expect(mockSimulationEngine.reset).toHaveBeenCalled()
+    expect(mockSimulationClient.reset).toHaveBeenCalled()
   })
 
   it('should handle speed changes', () => {
-    render(<SimulationGrid width={10} height={10} cellSize={20} />)
+    renderGrid()
     
     const speedSlider = screen.getByRole('slider')
     fireEvent.change(speedSlider, { target: { value: '5' } })
     
     // Speed change should not cause immediate step
-    expect(mockSimulationEngine.step).not.toHaveBeenCalled()
+    expect(mockSimulationClient.setSpeed).toHaveBeenCalledWith(5)
+    expect(mockSimulationClient.step).not.toHaveBeenCalled()
+  })
+
+  it('should fast-forward through the worker', () => {
+    renderGrid()
+    
+    fireEvent.click(screen.getByTitle('Fast-forward'))
+    
+    expect(mockSimulationClient.fastForward).toHaveBeenCalledWith({ steps: 1000, stopOnExtinction: true })
   })
 
   it('should render population dashboard', () => {
-    render(<SimulationGrid width={10} height={10} cellSize={20} />)
+    renderGrid()
     
     expect(screen.getByText('Population Trends')).toBeInTheDocument()
     expect(screen.getByText('Ecosystem Metrics')).toBeInTheDocument()
   })
 
   it('should initialize with empty population data', () => {
-    render(<SimulationGrid width={10} height={10} cellSize={20} />)
+    renderGrid()
     
     // Should show 0 steps initially
     expect(screen.getByText('Total: 0 steps')).toBeInTheDocument()
   })
 
   it('should update canvas when simulation state changes', () => {
-    render(<SimulationGrid width={10} height={10} cellSize={20} />)
+    renderGrid()
     
     // Canvas should be rendered
     const canvas = screen.getByRole('img', { hidden: true }) // Canvas has implicit img role
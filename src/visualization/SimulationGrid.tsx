@@ -1,250 +1,204 @@
 'use client'
 
 import React, { useEffect, useRef, useState } from 'react'
-import { SimulationEngine } from '../simulation/engine/SimulationEngine'
-import { WORLD_CONFIG } from '../simulation/config/WorldConfig'
-import { WorldCell, Grass, Sheep, Wolf, PopulationHealth, EcosystemAlert, ExtinctionAnalysis, OscillationAnalysis } from '../simulation/types/SimulationTypes'
-import { WorldInitializer } from '../simulation/utils/WorldInitializer'
+import { WORLD_CONFIG, WorldConfig } from '../simulation/config/WorldConfig'
+import { PopulationHealth, EcosystemAlert, ExtinctionAnalysis, OscillationAnalysis, PopulationPoint, TerrainType } from '../simulation/types/SimulationTypes'
+import { FrameGrid, getFrameCell } from '../simulation/worker/FrameBuffer'
+import { ConfigApplyMode, FastForwardOptions, FastForwardProgress } from '../simulation/worker/WorkerProtocol'
+import { TimelineRange } from '../simulation/engine/Timeline'
+import type { InspectedStep } from '../store/simulation-dux'
 import styles from './SpeedControl.module.css'
 import { PopulationDashboard } from './PopulationDashboard'
 import { ObservabilityDashboard } from './ObservabilityDashboard'
+import { ParameterPanel } from './ParameterPanel'
+import { FastForwardControl } from './FastForwardControl'
+import { TimelineScrubber } from './TimelineScrubber'
 
-interface SimulationGridProps {
+// Ground colours; grassland shows the plain background
+const TERRAIN_COLORS: Partial<Record<TerrainType, string>> = {
+  fertile: '#4a3b22',
+  poor: '#8b7d5a',
+  rock: '#6b7280',
+  water: '#2563eb',
+  forest: '#14532d'
+}
+
+export interface SimulationGridProps {
   width?: number
   height?: number
   cellSize?: number
+  grid: FrameGrid | null
+  isRunning: boolean
+  speed: number
+  config: WorldConfig
+  stats: PopulationPoint
+  populationData: PopulationPoint[]
+  populationHealth: PopulationHealth[]
+  alerts: EcosystemAlert[]
+  extinctionAnalysis: ExtinctionAnalysis | null
+  oscillationAnalysis: OscillationAnalysis
+  fastForwardProgress: FastForwardProgress | null
+  timeline: TimelineRange | null
+  inspection: InspectedStep | null // An earlier step to show instead of the live run
+  error: string | null // Last error the simulation worker reported
+  onStart: () => void
+  onPause: () => void
+  onStep: () => void
+  onReset: () => void
+  onSpeedChange: (speed: number) => void
+  onApplyConfig: (config: WorldConfig, mode: ConfigApplyMode) => void
+  onFastForward: (options: FastForwardOptions) => void
+  onCancelFastForward: () => void
+  onSeek: (step: number) => void
+  onBranch: (step: number) => void
+  onReturnToLive: () => void
+  onDismissError: () => void
 }
 
+/**
+ * Presentation component for the simulation; SimulationGridContainer wires it to the store
+ */
 export const SimulationGrid: React.FC<SimulationGridProps> = ({
   width = WORLD_CONFIG.width,
   height = WORLD_CONFIG.height,
-  cellSize = 12
+  cellSize = 12,
+  grid,
+  isRunning,
+  speed,
+  config,
+  stats,
+  populationData,
+  populationHealth,
+  alerts,
+  extinctionAnalysis,
+  oscillationAnalysis,
+  fastForwardProgress,
+  timeline,
+  inspection,
+  error,
+  onStart,
+  onPause,
+  onStep,
+  onReset,
+  onSpeedChange,
+  onApplyConfig,
+  onFastForward,
+  onCancelFastForward,
+  onSeek,
+  onBranch,
+  onReturnToLive,
+  onDismissError
 }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null)
-  const animationRef = useRef<number | null>(null)
-  const lastStepTime = useRef<number>(0)
-  
-  const [simulation, setSimulation] = useState<SimulationEngine | null>(null)
-  const [isRunning, setIsRunning] = useState(false)
-  const [speed, setSpeed] = useState<number>(WORLD_CONFIG.speed.defaultSpeed)
-  const [stats, setStats] = useState({
-    step: 0,
-    grass: 0,
-    sheep: 0,
-    wolves: 0
-  })
-  const [populationData, setPopulationData] = useState<Array<{
-    step: number
-    grass: number
-    sheep: number
-    wolves: number
-  }>>([])
+  const shownGrid = inspection?.grid ?? grid
+  const shownStats = inspection?.populations ?? stats
   const [showObservability, setShowObservability] = useState(false)
-  const [populationHealth, setPopulationHealth] = useState<PopulationHealth[]>([])
-  const [ecosystemAlerts, setEcosystemAlerts] = useState<EcosystemAlert[]>([])
-  const [extinctionAnalysis, setExtinctionAnalysis] = useState<ExtinctionAnalysis | null>(null)
-  const [oscillationAnalysis, setOscillationAnalysis] = useState<OscillationAnalysis>({
-    totalCycles: 0,
-    cyclesBySpecies: {},
-    averageCycleDuration: 0,
-    averageAmplitude: 0,
-    oscillationHealth: 'extinct',
-    recentCycles: [],
-    nearExtinctionRecoveries: 0,
-    overgrowthCorrections: 0,
-    stabilityScore: 0
-  })
+  const [showParameters, setShowParameters] = useState(false)
 
+  // Repaint on the next animation frame whenever a new frame arrives from the worker
   useEffect(() => {
-    // Initialize simulation
-    const sim = new SimulationEngine(WORLD_CONFIG)
-    setSimulation(sim)
-    
-    // Initialize world with some organisms
-    initializeWorld(sim)
-    
-    return () => {
-      sim.destroy()
-    }
-  }, [])
+    const grid = shownGrid
+    if (!grid) return
 
-  const initializeWorld = (sim: SimulationEngine) => {
-    const world = sim.getWorld()
-    
-    // Use centralized initialization with production config
-    WorldInitializer.createProductionEcosystem(world, WORLD_CONFIG)
-    
-    // Update UI statistics
-    updateStats(sim)
-  }
+    const drawGrid = () => {
+      if (!canvasRef.current) return
+      
+      const canvas = canvasRef.current
+      const ctx = canvas.getContext('2d')
+      if (!ctx) return
+      
+      // Clear canvas
+      ctx.fillStyle = '#2d3748' // Dark background
+      ctx.fillRect(0, 0, canvas.width, canvas.height)
+      
+      // Draw grid
+      ctx.strokeStyle = '#4a5568'
+      ctx.lineWidth = 0.5
+      
+      const columns = Math.min(width, grid.width)
+      const rows = Math.min(height, grid.height)
+      for (let x = 0; x < columns; x++) {
+        for (let y = 0; y < rows; y++) {
+          const cell = getFrameCell(grid, x, y)
+          const pixelX = x * cellSize
+          const pixelY = y * cellSize
+          
+          // Draw cell background
+          const terrainColor = TERRAIN_COLORS[cell.terrain]
+          if (terrainColor) {
+            ctx.fillStyle = terrainColor
+            ctx.fillRect(pixelX, pixelY, cellSize, cellSize)
+          }
 
-  const drawGrid = () => {
-    if (!simulation || !canvasRef.current) return
-    
-    const canvas = canvasRef.current
-    const ctx = canvas.getContext('2d')
-    if (!ctx) return
-    
-    const world = simulation.getWorld()
-    const cells = world.getCells()
-    
-    // Clear canvas
-    ctx.fillStyle = '#2d3748' // Dark background
-    ctx.fillRect(0, 0, canvas.width, canvas.height)
-    
-    // Draw grid
-    ctx.strokeStyle = '#4a5568'
-    ctx.lineWidth = 0.5
-    
-    for (let x = 0; x < width; x++) {
-      for (let y = 0; y < height; y++) {
-        const cell = cells[x][y]
-        const pixelX = x * cellSize
-        const pixelY = y * cellSize
-        
-        // Draw cell background
-        if (cell.grass) {
-          const intensity = Math.floor(cell.grass.density * 255)
-          ctx.fillStyle = `rgb(0, ${intensity}, 0)` // Green for grass
-          ctx.fillRect(pixelX, pixelY, cellSize, cellSize)
-        }
-        
-        // Draw organisms
-        if (cell.sheep) {
-          ctx.fillStyle = '#ffffff' // White for sheep
-          ctx.fillRect(pixelX + 1, pixelY + 1, cellSize - 2, cellSize - 2)
-        }
-        
-        if (cell.wolf) {
-          ctx.fillStyle = '#8b0000' // Dark red for wolves
-          ctx.fillRect(pixelX + 1, pixelY + 1, cellSize - 2, cellSize - 2)
+          if (cell.hasGrass) {
+            const intensity = Math.floor(cell.grassDensity * 255)
+            const inset = terrainColor ? 1 : 0 // Leave a rim of the ground colour visible
+            ctx.fillStyle = `rgb(0, ${intensity}, 0)` // Green for grass
+            ctx.fillRect(pixelX + inset, pixelY + inset, cellSize - inset * 2, cellSize - inset * 2)
+          }
+          
+          // Draw organisms
+          if (cell.hasSheep) {
+            ctx.fillStyle = '#ffffff' // White for sheep
+            ctx.fillRect(pixelX + 1, pixelY + 1, cellSize - 2, cellSize - 2)
+          }
+          
+          if (cell.hasWolf) {
+            ctx.fillStyle = '#8b0000' // Dark red for wolves
+            ctx.fillRect(pixelX + 1, pixelY + 1, cellSize - 2, cellSize - 2)
+          }
+
+          if (cell.isInfected) {
+            const marker = Math.max(2, Math.floor(cellSize / 3))
+            ctx.fillStyle = '#facc15' // Yellow centre for infected animals
+            ctx.fillRect(pixelX + (cellSize - marker) / 2, pixelY + (cellSize - marker) / 2, marker, marker)
+          }
+          
+          // Draw grid lines
+          ctx.strokeRect(pixelX, pixelY, cellSize, cellSize)
         }
-        
-        // Draw grid lines
-        ctx.strokeRect(pixelX, pixelY, cellSize, cellSize)
       }
     }
-  }
-
-  const updateStats = (sim: SimulationEngine) => {
-    const worldStats = sim.getStatistics()
-    const currentStep = sim.getCurrentStep()
-    const newStats = {
-      step: currentStep,
-      grass: worldStats.grassCount,
-      sheep: worldStats.sheepCount,
-      wolves: worldStats.wolfCount
-    }
-    
-    setStats(newStats)
-    
-    // Add to population data for charting
-    setPopulationData(prev => [...prev, newStats])
-    
-    // Update observability data
-    setPopulationHealth(sim.getPopulationHealth())
-    setEcosystemAlerts(sim.getEcosystemAlerts())
-    setExtinctionAnalysis(sim.getExtinctionAnalysis())
-    setOscillationAnalysis(sim.getOscillationAnalysis())
-  }
 
-  const stepSimulation = () => {
-    if (!simulation) return
-    
-    simulation.step()
-    drawGrid()
-    updateStats(simulation)
-  }
+    const frameId = requestAnimationFrame(drawGrid)
+    return () => cancelAnimationFrame(frameId)
+  }, [shownGrid, width, height, cellSize])
 
   const toggleSimulation = () => {
-    if (!simulation) return
-    
     if (isRunning) {
-      simulation.pause()
-      setIsRunning(false)
+      onPause()
     } else {
-      simulation.start()
-      setIsRunning(true)
+      onStart()
     }
   }
 
-  // Animation loop that runs continuously with speed control
-  useEffect(() => {
-    if (!simulation) return
-
-    const animate = (currentTime: number) => {
-      if (simulation.isRunning()) {
-        // Calculate time-based stepping based on speed
-        const timeSinceLastStep = currentTime - lastStepTime.current
-        const stepInterval = 1000 / speed // Convert steps per second to milliseconds
-        
-        if (timeSinceLastStep >= stepInterval) {
-          if (!simulation.isPaused()) {
-            simulation.step()
-            lastStepTime.current = currentTime
-            // Only update stats when a step actually occurs
-            updateStats(simulation)
-          }
-        }
-        
-        // Always update display (smooth animation)
-        drawGrid()
-      }
-      
-      animationRef.current = requestAnimationFrame(animate)
-    }
-    
-    // Start animation loop
-    animationRef.current = requestAnimationFrame(animate)
-    
-    // Cleanup
-    return () => {
-      if (animationRef.current) {
-        cancelAnimationFrame(animationRef.current)
-      }
-    }
-  }, [simulation, speed])
-
-  const resetSimulation = () => {
-    if (!simulation) return
-    
-    simulation.reset()
-    initializeWorld(simulation)
-    drawGrid()
-    updateStats(simulation)
-    setPopulationData([]) // Clear population data on reset
-  }
-
-  const handleSpeedChange = (newSpeed: number) => {
-    setSpeed(newSpeed)
-    // Reset timing to avoid immediate step after speed change
-    lastStepTime.current = performance.now()
-  }
-
-  useEffect(() => {
-    drawGrid()
-  }, [simulation])
-
   return (
     <div className="w-full h-screen flex flex-col">
+      {error && (
+        <div role="alert" className="flex-shrink-0 mb-2 p-2 flex justify-between items-center border border-red-200 bg-red-50 rounded text-xs text-red-700">
+          <span>Simulation error: {error}</span>
+          <button onClick={onDismissError} className="ml-2 font-semibold hover:text-red-900">Dismiss</button>
+        </div>
+      )}
+
       {/* Compact Statistics at the top */}
       <div className="flex-shrink-0 mb-2">
         <div className="grid grid-cols-4 gap-1 text-center">
           <div className="bg-gray-100 p-1.5 rounded shadow-sm">
             <div className="text-xs text-gray-600">Step</div>
-            <div className="text-sm font-bold">{stats.step}</div>
+            <div className="text-sm font-bold">{shownStats.step}</div>
           </div>
           <div className="bg-green-100 p-1.5 rounded shadow-sm">
             <div className="text-xs text-gray-600">Grass</div>
-            <div className="text-sm font-bold text-green-600">{stats.grass}</div>
+            <div className="text-sm font-bold text-green-600">{shownStats.grass}</div>
           </div>
           <div className="bg-white p-1.5 rounded shadow-sm border">
             <div className="text-xs text-gray-600">Sheep</div>
-            <div className="text-sm font-bold text-gray-700">{stats.sheep}</div>
+            <div className="text-sm font-bold text-gray-700">{shownStats.sheep}</div>
           </div>
           <div className="bg-red-100 p-1.5 rounded shadow-sm">
             <div className="text-xs text-gray-600">Wolves</div>
-            <div className="text-sm font-bold text-red-600">{stats.wolves}</div>
+            <div className="text-sm font-bold text-red-600">{shownStats.wolves}</div>
           </div>
         </div>
       </div>
@@ -275,6 +229,7 @@ export const SimulationGrid: React.FC<SimulationGridProps> = ({
           <PopulationDashboard 
             data={populationData}
             currentStats={stats}
+            totalSteps={stats.step}
           />
         </div>
       </div>
@@ -282,9 +237,24 @@ export const SimulationGrid: React.FC<SimulationGridProps> = ({
       {/* Compact Legend */}
       <div className="flex-shrink-0 mb-2 text-xs text-gray-600 text-center">
         <span className="font-semibold">Legend:</span>
-        <span className="ml-2">🟢 Grass (darker = denser) • ⚪ Sheep • 🔴 Wolves</span>
+        <span className="ml-2">🟢 Grass (darker = denser) • ⚪ Sheep • 🔴 Wolves • 🟡 Infected</span>
+        <span className="ml-2">Terrain: 🟫 Fertile • 🟨 Poor • ⬜ Rock • 🟦 Water • 🌲 Forest</span>
       </div>
 
+      {/* Timeline */}
+      {timeline && (
+        <div className="flex-shrink-0 mb-2">
+          <TimelineScrubber
+            range={timeline}
+            liveStep={stats.step}
+            inspectedStep={inspection?.step ?? null}
+            onSeek={onSeek}
+            onBranch={onBranch}
+            onReturnToLive={onReturnToLive}
+          />
+        </div>
+      )}
+
       {/* Compact Integrated Control Panel */}
       <div className="flex-shrink-0 bg-white rounded shadow border border-gray-200 p-2">
         <div className="flex items-center justify-between gap-3">
@@ -302,14 +272,14 @@ export const SimulationGrid: React.FC<SimulationGridProps> = ({
             </button>
             
             <button
-              onClick={stepSimulation}
+              onClick={onStep}
               className="px-2 py-1 bg-blue-500 hover:bg-blue-600 text-white font-semibold rounded text-xs transition-colors"
             >
               ⏭️
             </button>
             
             <button
-              onClick={resetSimulation}
+              onClick={onReset}
               className="px-2 py-1 bg-gray-500 hover:bg-gray-600 text-white font-semibold rounded text-xs transition-colors"
             >
               🔄
@@ -329,7 +299,7 @@ export const SimulationGrid: React.FC<SimulationGridProps> = ({
               max={WORLD_CONFIG.speed.maxSpeed}
               step="0.1"
               value={speed}
-              onChange={(e) => handleSpeedChange(parseFloat(e.target.value))}
+              onChange={(e) => onSpeedChange(parseFloat(e.target.value))}
               disabled={!isRunning}
               className={`flex-1 h-1 bg-gray-200 rounded appearance-none cursor-pointer ${styles.slider}`}
               style={{
@@ -351,7 +321,7 @@ export const SimulationGrid: React.FC<SimulationGridProps> = ({
             {Object.entries(WORLD_CONFIG.speed.presets).map(([name, value]) => (
               <button
                 key={name}
-                onClick={() => handleSpeedChange(value)}
+                onClick={() => onSpeedChange(value)}
                 className={`px-1.5 py-0.5 text-xs rounded transition-colors ${
                   Math.abs(speed - value) < 0.1
                     ? 'bg-blue-500 text-white'
@@ -372,17 +342,34 @@ export const SimulationGrid: React.FC<SimulationGridProps> = ({
             ))}
           </div>
         </div>
+
+        {/* Fast-forward */}
+        <div className="mt-2 pt-2 border-t border-gray-100">
+          <FastForwardControl
+            progress={fastForwardProgress}
+            onStart={onFastForward}
+            onCancel={onCancelFastForward}
+          />
+        </div>
       </div>
 
       {/* Observability Dashboard */}
       <ObservabilityDashboard
         populationHealth={populationHealth}
-        alerts={ecosystemAlerts}
+        alerts={alerts}
         extinctionAnalysis={extinctionAnalysis}
         oscillationAnalysis={oscillationAnalysis}
         isVisible={showObservability}
         onToggle={() => setShowObservability(!showObservability)}
       />
+
+      {/* Parameter Tuning Panel */}
+      <ParameterPanel
+        config={config}
+        isVisible={showParameters}
+        onToggle={() => setShowParameters(!showParameters)}
+        onApply={onApplyConfig}
+      />
     </div>
   )
 }
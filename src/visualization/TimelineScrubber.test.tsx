@@ -0,0 +1,55 @@
+import { describe, it, expect, vi } from 'vitest'
+import { render, screen, fireEvent } from '@testing-library/react'
+import { TimelineScrubber } from './TimelineScrubber'
+
+const renderScrubber = (inspectedStep: number | null) => {
+  const handlers = { onSeek: vi.fn(), onBranch: vi.fn(), onReturnToLive: vi.fn() }
+  render(
+    <TimelineScrubber
+      range={{ firstStep: 100, lastStep: 400 }}
+      liveStep={400}
+      inspectedStep={inspectedStep}
+      {...handlers}
+    />
+  )
+  return handlers
+}
+
+describe('TimelineScrubber', () => {
+  it('should render nothing before anything is recorded', () => {
+    const { container } = render(
+      <TimelineScrubber range={null} liveStep={0} inspectedStep={null} onSeek={vi.fn()} onBranch={vi.fn()} onReturnToLive={vi.fn()} />
+    )
+
+    expect(container).toBeEmptyDOMElement()
+  })
+
+  it('should seek to the step the slider is dragged to', () => {
+    const { onSeek } = renderScrubber(null)
+
+    expect(screen.getByRole('status')).toHaveTextContent('Live · step 400')
+    fireEvent.change(screen.getByLabelText('Timeline'), { target: { value: '250' } })
+
+    expect(onSeek).toHaveBeenCalledWith(250)
+  })
+
+  it('should resume from or leave the inspected step', () => {
+    const { onBranch, onReturnToLive } = renderScrubber(250)
+
+    expect(screen.getByRole('status')).toHaveTextContent('Viewing step 250 of 400')
+    fireEvent.click(screen.getByText('Resume from here'))
+    fireEvent.click(screen.getByText('Back to live'))
+
+    expect(onBranch).toHaveBeenCalledWith(250)
+    expect(onReturnToLive).toHaveBeenCalledTimes(1)
+  })
+
+  it('should return to live when dragged back to the head', () => {
+    const { onSeek, onReturnToLive } = renderScrubber(250)
+
+    fireEvent.change(screen.getByLabelText('Timeline'), { target: { value: '400' } })
+
+    expect(onReturnToLive).toHaveBeenCalled()
+    expect(onSeek).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,75 @@
+'use client'
+
+/**
+ * TimelineScrubber drags back through the steps the worker has recorded. Seeking pauses
+ * the run and shows that step; from there the run can resume (dropping the steps after it)
+ * or go back to the live head unchanged.
+ */
+
+import React from 'react'
+import { TimelineRange } from '../simulation/engine/Timeline'
+
+interface TimelineScrubberProps {
+  range: TimelineRange | null
+  liveStep: number
+  inspectedStep: number | null // null while showing the live run
+  onSeek: (step: number) => void
+  onBranch: (step: number) => void
+  onReturnToLive: () => void
+}
+
+export const TimelineScrubber: React.FC<TimelineScrubberProps> = ({
+  range,
+  liveStep,
+  inspectedStep,
+  onSeek,
+  onBranch,
+  onReturnToLive
+}) => {
+  if (!range) return null
+
+  const isInspecting = inspectedStep !== null
+  const lastStep = Math.max(range.lastStep, liveStep)
+
+  return (
+    <div className="flex items-center gap-2 text-xs">
+      <span className="text-gray-600 whitespace-nowrap">⏪ {range.firstStep}</span>
+      <input
+        type="range"
+        aria-label="Timeline"
+        min={range.firstStep}
+        max={lastStep}
+        step={1}
+        value={inspectedStep ?? lastStep}
+        onChange={(e) => {
+          const step = parseInt(e.target.value)
+          if (step >= lastStep && isInspecting) {
+            onReturnToLive()
+          } else if (step < lastStep) {
+            onSeek(step)
+          }
+        }}
+        className="flex-1 h-1 bg-gray-200 rounded appearance-none cursor-pointer"
+      />
+      <span role="status" className="whitespace-nowrap text-gray-700">
+        {isInspecting ? `Viewing step ${inspectedStep} of ${lastStep}` : `Live · step ${liveStep}`}
+      </span>
+      {isInspecting && (
+        <>
+          <button
+            onClick={() => onBranch(inspectedStep)}
+            className="px-2 py-1 bg-green-500 hover:bg-green-600 text-white font-semibold rounded transition-colors"
+          >
+            Resume from here
+          </button>
+          <button
+            onClick={onReturnToLive}
+            className="px-2 py-1 bg-gray-100 hover:bg-gray-200 text-gray-700 rounded transition-colors"
+          >
+            Back to live
+          </button>
+        </>
+      )}
+    </div>
+  )
+}
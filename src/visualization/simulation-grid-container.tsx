@@ -0,0 +1,71 @@
+'use client'
+
+/**
+ * Connects SimulationGrid to the simulation slice of the store
+ */
+
+import { connect } from 'react-redux'
+import { SimulationGrid } from './SimulationGrid'
+import { RootState } from '../store/store'
+import {
+  getIsRunning,
+  getSpeed,
+  getConfig,
+  getGrid,
+  getCurrentPopulations,
+  getPopulationHistory,
+  getPopulationHealth,
+  getEcosystemAlerts,
+  getExtinctionAnalysis,
+  getOscillationAnalysis,
+  getFastForwardProgress,
+  getTimeline,
+  getInspection,
+  getError,
+  startSimulation,
+  pauseSimulation,
+  stepSimulation,
+  resetSimulation,
+  setSpeed,
+  applyConfig,
+  fastForward,
+  cancelFastForward,
+  seekTimeline,
+  branchTimeline,
+  returnToLive,
+  dismissError
+} from '../store/simulation-dux'
+
+const mapStateToProps = (state: RootState) => ({
+  grid: getGrid(state),
+  isRunning: getIsRunning(state),
+  speed: getSpeed(state),
+  config: getConfig(state),
+  stats: getCurrentPopulations(state),
+  populationData: getPopulationHistory(state),
+  populationHealth: getPopulationHealth(state),
+  alerts: getEcosystemAlerts(state),
+  extinctionAnalysis: getExtinctionAnalysis(state),
+  oscillationAnalysis: getOscillationAnalysis(state),
+  fastForwardProgress: getFastForwardProgress(state),
+  timeline: getTimeline(state),
+  inspection: getInspection(state),
+  error: getError(state)
+})
+
+const mapDispatchToProps = {
+  onStart: startSimulation,
+  onPause: pauseSimulation,
+  onStep: stepSimulation,
+  onReset: resetSimulation,
+  onSpeedChange: setSpeed,
+  onApplyConfig: applyConfig,
+  onFastForward: fastForward,
+  onCancelFastForward: cancelFastForward,
+  onSeek: seekTimeline,
+  onBranch: branchTimeline,
+  onReturnToLive: returnToLive,
+  onDismissError: dismissError
+}
+
+export const SimulationGridContainer = connect(mapStateToProps, mapDispatchToProps)(SimulationGrid)